@@ -80,6 +80,8 @@ function createTables() {
       appearance TEXT,
       avatar_path TEXT,
       generated_avatars TEXT,
+      voice_profile TEXT,
+      voice_sample_path TEXT,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
     );
@@ -97,6 +99,7 @@ function createTables() {
       lighting TEXT,
       atmosphere TEXT,
       image_path TEXT,
+      generated_images TEXT,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
     );
@@ -110,6 +113,8 @@ function createTables() {
       dialogue TEXT,
       character_id TEXT REFERENCES characters(id) ON DELETE SET NULL,
       character_ids TEXT,
+      speaker_id TEXT REFERENCES characters(id) ON DELETE SET NULL,
+      target_character_id TEXT REFERENCES characters(id) ON DELETE SET NULL,
       duration REAL NOT NULL DEFAULT 3,
       camera_type TEXT,
       mood TEXT,
@@ -118,8 +123,15 @@ function createTables() {
       time_of_day TEXT,
       props TEXT,
       action TEXT,
+      tone TEXT,
+      emotion TEXT,
+      negative_prompt TEXT,
+      image_prompt_override TEXT,
+      video_prompt_override TEXT,
+      prompt_override_mode TEXT NOT NULL DEFAULT 'append',
       image_path TEXT,
       video_path TEXT,
+      audio_path TEXT,
       status TEXT NOT NULL DEFAULT 'empty',
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
@@ -133,11 +145,58 @@ function createTables() {
       status TEXT NOT NULL DEFAULT 'queued',
       progress INTEGER NOT NULL DEFAULT 0,
       error_message TEXT,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 3,
+      error_class TEXT,
+      attempt_history TEXT,
+      next_retry_at TEXT,
+      priority INTEGER NOT NULL DEFAULT 0,
+      depends_on_task_id TEXT,
+      remote_job_id TEXT,
+      remote_provider TEXT,
+      remote_job_state TEXT,
       started_at TEXT,
       completed_at TEXT,
       created_at TEXT NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS shot_assets (
+      id TEXT PRIMARY KEY,
+      shot_id TEXT NOT NULL REFERENCES shots(id) ON DELETE CASCADE,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      kind TEXT NOT NULL,
+      path TEXT NOT NULL,
+      prompt TEXT,
+      model TEXT,
+      params TEXT,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS usage_records (
+      id TEXT PRIMARY KEY,
+      project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+      shot_id TEXT REFERENCES shots(id) ON DELETE SET NULL,
+      kind TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      image_count INTEGER NOT NULL DEFAULT 0,
+      video_seconds REAL NOT NULL DEFAULT 0,
+      characters INTEGER NOT NULL DEFAULT 0,
+      estimated_cost REAL NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS prompt_templates (
+      id TEXT PRIMARY KEY,
+      project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+      key TEXT NOT NULL,
+      content TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
     CREATE TABLE IF NOT EXISTS settings (
       key TEXT PRIMARY KEY,
       value TEXT NOT NULL,
@@ -152,6 +211,10 @@ function createTables() {
     CREATE INDEX IF NOT EXISTS idx_shots_index ON shots(project_id, "index");
     CREATE INDEX IF NOT EXISTS idx_render_tasks_project ON render_tasks(project_id);
     CREATE INDEX IF NOT EXISTS idx_render_tasks_status ON render_tasks(status);
+    CREATE INDEX IF NOT EXISTS idx_shot_assets_shot ON shot_assets(shot_id);
+    CREATE INDEX IF NOT EXISTS idx_usage_records_project ON usage_records(project_id);
+    CREATE INDEX IF NOT EXISTS idx_usage_records_created ON usage_records(created_at);
+    CREATE INDEX IF NOT EXISTS idx_prompt_templates_key ON prompt_templates(key, project_id);
   `);
 
   // 运行数据库迁移（添加新字段到已存在的表）
@@ -163,7 +226,7 @@ function createTables() {
   console.log('[Database] scenes 表列数:', scenesColumns.length);
 
   // 验证 Drizzle schema 期望的列与实际表列是否匹配
-  const expectedSceneColumns = ['id', 'project_id', 'name', 'scene_info', 'location', 'time_of_day', 'interior', 'description', 'props', 'lighting', 'atmosphere', 'image_path', 'created_at', 'updated_at'];
+  const expectedSceneColumns = ['id', 'project_id', 'name', 'scene_info', 'location', 'time_of_day', 'interior', 'description', 'props', 'lighting', 'atmosphere', 'image_path', 'generated_images', 'created_at', 'updated_at'];
   const actualSceneColumns = scenesColumns.map(c => c.name);
   const missingColumns = expectedSceneColumns.filter(col => !actualSceneColumns.includes(col));
   if (missingColumns.length > 0) {
@@ -199,6 +262,26 @@ function runMigrations() {
     }
   }
 
+  // 检查并添加 characters 表的新字段
+  const charactersColumns = sqlite.prepare("PRAGMA table_info(characters)").all() as Array<{ name: string }>;
+  const characterColumnNames = charactersColumns.map(c => c.name);
+
+  const newCharacterColumns = [
+    { name: 'voice_profile', type: 'TEXT' }, // 音色配置（JSON格式）
+    { name: 'voice_sample_path', type: 'TEXT' }, // 试听样音
+  ];
+
+  for (const col of newCharacterColumns) {
+    if (!characterColumnNames.includes(col.name)) {
+      try {
+        sqlite.exec(`ALTER TABLE characters ADD COLUMN ${col.name} ${col.type}`);
+        console.log(`Migration: Added column ${col.name} to characters table`);
+      } catch (error) {
+        console.log(`Column ${col.name} may already exist in characters table`);
+      }
+    }
+  }
+
   // 检查并添加 shots 表的新字段
   const shotsColumns = sqlite.prepare("PRAGMA table_info(shots)").all() as Array<{ name: string }>;
   const shotColumnNames = shotsColumns.map(c => c.name);
@@ -211,6 +294,15 @@ function runMigrations() {
     { name: 'action', type: 'TEXT' },
     { name: 'scene_id', type: 'TEXT REFERENCES scenes(id) ON DELETE SET NULL' },
     { name: 'character_ids', type: 'TEXT' }, // 新增：多角色ID数组（JSON格式）
+    { name: 'negative_prompt', type: 'TEXT' }, // 分镜负面提示词
+    { name: 'speaker_id', type: 'TEXT REFERENCES characters(id) ON DELETE SET NULL' }, // 说话角色
+    { name: 'target_character_id', type: 'TEXT REFERENCES characters(id) ON DELETE SET NULL' }, // 对话对象
+    { name: 'image_prompt_override', type: 'TEXT' }, // 图像提示词覆盖
+    { name: 'video_prompt_override', type: 'TEXT' }, // 视频提示词覆盖
+    { name: 'prompt_override_mode', type: "TEXT NOT NULL DEFAULT 'append'" }, // 提示词覆盖方式
+    { name: 'audio_path', type: 'TEXT' }, // 分镜音频（导出时混入）
+    { name: 'tone', type: 'TEXT' }, // 台词语气
+    { name: 'emotion', type: 'TEXT' }, // 角色情绪
   ];
 
   for (const col of newShotColumns) {
@@ -245,6 +337,7 @@ function runMigrations() {
     { name: 'lighting', type: 'TEXT' },
     { name: 'atmosphere', type: 'TEXT' },
     { name: 'image_path', type: 'TEXT' },
+    { name: 'generated_images', type: 'TEXT' },
   ];
 
   for (const col of newSceneColumns) {
@@ -257,6 +350,61 @@ function runMigrations() {
       }
     }
   }
+
+  // 检查并添加 render_tasks 表的新字段
+  const renderTasksColumns = sqlite.prepare("PRAGMA table_info(render_tasks)").all() as Array<{ name: string }>;
+  const renderTaskColumnNames = renderTasksColumns.map(c => c.name);
+
+  const newRenderTaskColumns = [
+    { name: 'attempts', type: 'INTEGER NOT NULL DEFAULT 0' }, // 已执行次数（含崩溃中断的执行）
+    { name: 'max_attempts', type: 'INTEGER NOT NULL DEFAULT 3' }, // 最大执行次数（重试策略）
+    { name: 'error_class', type: 'TEXT' }, // 最近一次错误类别
+    { name: 'attempt_history', type: 'TEXT' }, // 每次执行记录（JSON格式）
+    { name: 'next_retry_at', type: 'TEXT' }, // 退避重试的最早执行时间
+    { name: 'priority', type: 'INTEGER NOT NULL DEFAULT 0' }, // 优先级（越大越先执行）
+    { name: 'depends_on_task_id', type: 'TEXT' }, // 前置任务（如视频任务依赖同分镜的图像任务）
+    { name: 'remote_job_id', type: 'TEXT' }, // 服务商远程任务 ID（重启后继续轮询）
+    { name: 'remote_provider', type: 'TEXT' }, // 远程任务所属服务商
+    { name: 'remote_job_state', type: 'TEXT' }, // 远程任务轮询状态（JSON格式）
+  ];
+
+  for (const col of newRenderTaskColumns) {
+    if (!renderTaskColumnNames.includes(col.name)) {
+      try {
+        sqlite.exec(`ALTER TABLE render_tasks ADD COLUMN ${col.name} ${col.type}`);
+        console.log(`Migration: Added column ${col.name} to render_tasks table`);
+      } catch (error) {
+        console.log(`Column ${col.name} may already exist in render_tasks table`);
+      }
+    }
+  }
+
+  // 检查并添加 usage_records 表的新字段
+  const usageRecordsColumns = sqlite.prepare("PRAGMA table_info(usage_records)").all() as Array<{ name: string }>;
+  if (!usageRecordsColumns.some(c => c.name === 'characters')) {
+    try {
+      sqlite.exec(`ALTER TABLE usage_records ADD COLUMN characters INTEGER NOT NULL DEFAULT 0`);
+      // 语音合成字符数此前记录在 input_tokens 中，迁移到单独的字段
+      sqlite.exec(`UPDATE usage_records SET characters = input_tokens, input_tokens = 0 WHERE kind = 'tts'`);
+      console.log('Migration: Added column characters to usage_records table');
+    } catch (error) {
+      console.log('Column characters may already exist in usage_records table');
+    }
+  }
+
+  // 将已有分镜的图像/视频补录为素材版本（仅补录尚无版本记录的分镜）
+  for (const [kind, column] of [['image', 'image_path'], ['video', 'video_path']]) {
+    const result = sqlite.prepare(`
+      INSERT INTO shot_assets (id, shot_id, project_id, kind, path, created_at)
+      SELECT lower(hex(randomblob(16))), id, project_id, '${kind}', ${column}, updated_at
+      FROM shots
+      WHERE ${column} IS NOT NULL AND ${column} != ''
+        AND NOT EXISTS (SELECT 1 FROM shot_assets WHERE shot_assets.shot_id = shots.id AND shot_assets.kind = '${kind}')
+    `).run();
+    if (result.changes > 0) {
+      console.log(`Migration: Backfilled ${result.changes} ${kind} assets into shot_assets table`);
+    }
+  }
 }
 
 /**
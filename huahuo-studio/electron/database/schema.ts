@@ -34,6 +34,8 @@ export const characters = sqliteTable('characters', {
   appearance: text('appearance'), // 外貌特征描述
   avatarPath: text('avatar_path'), // 头像图片路径
   generatedAvatars: text('generated_avatars'), // JSON: 生成的多个头像路径
+  voiceProfile: text('voice_profile'), // JSON: 音色配置（音色、语速、音高、情绪预设）
+  voiceSamplePath: text('voice_sample_path'), // 试听样音路径
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
 });
@@ -51,7 +53,8 @@ export const scenes = sqliteTable('scenes', {
   props: text('props'), // 场景道具和布置
   lighting: text('lighting'), // 光线描述
   atmosphere: text('atmosphere'), // 氛围描述
-  imagePath: text('image_path'), // 场景参考图路径
+  imagePath: text('image_path'), // 场景参考图路径（当前选中）
+  generatedImages: text('generated_images'), // JSON: 生成的多个场景参考图路径
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
 });
@@ -66,6 +69,8 @@ export const shots = sqliteTable('shots', {
   dialogue: text('dialogue'), // 对话/旁白
   characterId: text('character_id').references(() => characters.id, { onDelete: 'set null' }), // 向后兼容：单角色
   characterIds: text('character_ids'), // JSON数组：支持多角色，如 '["id1","id2"]'
+  speakerId: text('speaker_id').references(() => characters.id, { onDelete: 'set null' }), // 说话角色
+  targetCharacterId: text('target_character_id').references(() => characters.id, { onDelete: 'set null' }), // 对话对象
   duration: real('duration').notNull().default(3), // 时长（秒）
   cameraType: text('camera_type'), // 镜头类型: wide | medium | close | extreme_close
   mood: text('mood'), // 情绪氛围
@@ -74,27 +79,84 @@ export const shots = sqliteTable('shots', {
   timeOfDay: text('time_of_day'), // 时间（白天/夜晚/黄昏等）
   props: text('props'), // 道具描述
   action: text('action'), // 动作描述
+  tone: text('tone'), // 台词语气（配音时使用）
+  emotion: text('emotion'), // 角色情绪（配音时使用）
+  negativePrompt: text('negative_prompt'), // 分镜负面提示词（为空时使用项目设置）
+  imagePromptOverride: text('image_prompt_override'), // 图像提示词覆盖（为空时使用模板组装的提示词）
+  videoPromptOverride: text('video_prompt_override'), // 视频提示词覆盖
+  promptOverrideMode: text('prompt_override_mode').notNull().default('append'), // replace: 替换组装的提示词 | append: 追加到末尾
   imagePath: text('image_path'), // 生成的图像路径
   videoPath: text('video_path'), // 生成的视频路径
+  audioPath: text('audio_path'), // 分镜音频路径（导出时与视频原声混合）
   status: text('status').notNull().default('empty'), // empty | generating | ready | error
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
 });
 
+// ==================== 分镜素材版本表 ====================
+export const shotAssets = sqliteTable('shot_assets', {
+  id: text('id').primaryKey(),
+  shotId: text('shot_id').notNull().references(() => shots.id, { onDelete: 'cascade' }),
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  kind: text('kind').notNull(), // image | video
+  path: text('path').notNull(), // 素材文件路径
+  prompt: text('prompt'), // 生成时使用的提示词
+  model: text('model'), // 生成时使用的模型
+  params: text('params'), // JSON: 服务商、风格、种子等生成参数
+  createdAt: text('created_at').notNull(),
+});
+
 // ==================== 渲染任务表 ====================
 export const renderTasks = sqliteTable('render_tasks', {
   id: text('id').primaryKey(),
   projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
   shotId: text('shot_id').references(() => shots.id, { onDelete: 'cascade' }),
   type: text('type').notNull(), // image | video
-  status: text('status').notNull().default('queued'), // queued | rendering | completed | error | paused
+  status: text('status').notNull().default('queued'), // queued | rendering | completed | error | paused | skipped
   progress: integer('progress').notNull().default(0),
   errorMessage: text('error_message'),
+  attempts: integer('attempts').notNull().default(0), // 已执行次数
+  maxAttempts: integer('max_attempts').notNull().default(3), // 最大执行次数
+  errorClass: text('error_class'), // transient | quota | content-policy | auth | unknown
+  attemptHistory: text('attempt_history'), // JSON array of RenderAttempt
+  nextRetryAt: text('next_retry_at'),
+  priority: integer('priority').notNull().default(0), // 越大越先执行，相同时按分镜顺序
+  dependsOnTaskId: text('depends_on_task_id'), // 前置任务完成后才会执行
+  remoteJobId: text('remote_job_id'), // 服务商远程任务 ID（视频异步任务）
+  remoteProvider: text('remote_provider'), // 远程任务所属服务商
+  remoteJobState: text('remote_job_state'), // JSON: 远程任务轮询状态
   startedAt: text('started_at'),
   completedAt: text('completed_at'),
   createdAt: text('created_at').notNull(),
 });
 
+// ==================== 用量记录表 ====================
+export const usageRecords = sqliteTable('usage_records', {
+  id: text('id').primaryKey(),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'set null' }),
+  shotId: text('shot_id').references(() => shots.id, { onDelete: 'set null' }),
+  kind: text('kind').notNull(), // llm | image | video | tts
+  provider: text('provider').notNull(),
+  model: text('model').notNull(),
+  inputTokens: integer('input_tokens').notNull().default(0),
+  outputTokens: integer('output_tokens').notNull().default(0),
+  imageCount: integer('image_count').notNull().default(0),
+  videoSeconds: real('video_seconds').notNull().default(0),
+  characters: integer('characters').notNull().default(0), // 语音合成字符数
+  estimatedCost: real('estimated_cost').notNull().default(0), // 估算费用（元）
+  createdAt: text('created_at').notNull(),
+});
+
+// ==================== 提示词模板表 ====================
+export const promptTemplates = sqliteTable('prompt_templates', {
+  id: text('id').primaryKey(),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }), // 为空表示全局模板
+  key: text('key').notNull(), // shot_image | shot_video | scene_image | character_avatar | character_view
+  content: text('content').notNull(),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
 // ==================== 设置表 ====================
 export const settings = sqliteTable('settings', {
   key: text('key').primaryKey(),
@@ -118,7 +180,16 @@ export type NewScene = typeof scenes.$inferInsert;
 export type Shot = typeof shots.$inferSelect;
 export type NewShot = typeof shots.$inferInsert;
 
+export type ShotAsset = typeof shotAssets.$inferSelect;
+export type NewShotAsset = typeof shotAssets.$inferInsert;
+
 export type RenderTask = typeof renderTasks.$inferSelect;
 export type NewRenderTask = typeof renderTasks.$inferInsert;
 
+export type UsageRecord = typeof usageRecords.$inferSelect;
+export type NewUsageRecord = typeof usageRecords.$inferInsert;
+
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type NewPromptTemplate = typeof promptTemplates.$inferInsert;
+
 export type Setting = typeof settings.$inferSelect;
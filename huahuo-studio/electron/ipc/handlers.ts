@@ -6,6 +6,8 @@ import {
   updateProject,
   deleteProject,
   getProjectStats,
+  getProjectSettings,
+  updateProjectSettings,
 } from '../services/project.service';
 import {
   getScript,
@@ -31,6 +33,9 @@ import {
   updateShot,
   deleteShot,
   moveShot,
+  getShotAssets,
+  selectShotAsset,
+  setShotAudio,
 } from '../services/shot.service';
 import {
   getScenes,
@@ -40,6 +45,8 @@ import {
   updateScene,
   deleteScene,
   cleanupDuplicateScenes,
+  addGeneratedSceneImage,
+  setSelectedSceneImage,
 } from '../services/scene.service';
 import {
   getRenderTasks,
@@ -49,8 +56,22 @@ import {
   cancelRenderTask,
   pauseRenderTask,
   resumeRenderTask,
+  bumpRenderTask,
+  reorderRenderTasks,
+  countBatchGenerations,
   getQueueStatus,
 } from '../services/render.service';
+import {
+  runWithUsageContext,
+  getProjectUsageSummary,
+  getMonthlyUsageSummary,
+  getProjectBudgetStatus,
+  isProjectBudgetReached,
+  checkBatchBudget,
+  assertBatchWithinBudget,
+  assertProjectBudgetAvailable,
+  type BatchGenerationCount,
+} from '../services/usage.service';
 import {
   getAllSettings,
   updateSettings,
@@ -58,10 +79,12 @@ import {
   getLlmApiConfig,
   getImageApiConfig,
   getVideoApiConfig,
+  getTtsApiConfig,
   testApiConnection,
   testLlmConnection,
   testImageConnection,
   testVideoConnection,
+  testTtsConnection,
   backupDatabase,
   importDatabase,
   getDatabaseInfo,
@@ -70,6 +93,7 @@ import {
   fetchLlmModels,
   fetchImageModels,
   fetchVideoModels,
+  fetchTtsVoices,
 } from '../services/settings.service';
 import {
   generateText,
@@ -83,6 +107,8 @@ import {
   parseScriptPhase2,
   Phase1Result,
   generateSceneImage,
+  previewPromptTemplate,
+  previewShotPrompt,
   getAvailableTextModels,
   getAvailableImageModels,
   getAvailableVideoModels,
@@ -93,10 +119,19 @@ import {
   getExportPreview,
   selectExportPath,
   exportVideo,
+  exportSubtitles,
   checkFFmpeg,
   openExportFolder,
   ExportOptions,
 } from '../services/export.service';
+import { generateShotVoice, auditionCharacterVoice, getAuditionText } from '../services/tts.service';
+import type { SubtitleFormat } from '../services/subtitle.service';
+import {
+  listPromptTemplates,
+  savePromptTemplate,
+  resetPromptTemplate,
+  type PromptTemplateKey,
+} from '../services/prompt-template.service';
 import {
   getAllStyles,
   getStyleConfig,
@@ -133,6 +168,14 @@ export function registerIpcHandlers() {
     return await getProjectStats(projectId);
   });
 
+  ipcMain.handle('project:get-settings', async (_, projectId: string) => {
+    return await getProjectSettings(projectId);
+  });
+
+  ipcMain.handle('project:update-settings', async (_, projectId: string, data: any) => {
+    return await updateProjectSettings(projectId, data);
+  });
+
   // ==================== 风格管理 ====================
 
   ipcMain.handle('style:list', async () => {
@@ -151,6 +194,30 @@ export function registerIpcHandlers() {
     };
   });
 
+  // ==================== 提示词模板 ====================
+
+  ipcMain.handle('prompt-template:list', async (_, projectId?: string | null) => {
+    return await listPromptTemplates(projectId);
+  });
+
+  ipcMain.handle('prompt-template:save', async (_, key: string, content: string, projectId?: string | null) => {
+    await savePromptTemplate(key, content, projectId);
+  });
+
+  ipcMain.handle('prompt-template:reset', async (_, key: string, projectId?: string | null) => {
+    await resetPromptTemplate(key, projectId);
+  });
+
+  ipcMain.handle('prompt-template:preview', async (
+    _,
+    projectId: string,
+    key: PromptTemplateKey,
+    content: string,
+    shotId?: string | null
+  ) => {
+    return await previewPromptTemplate(projectId, key, content, shotId);
+  });
+
   // ==================== 剧本 ====================
 
   ipcMain.handle('script:load', async (_, projectId: string) => {
@@ -165,27 +232,27 @@ export function registerIpcHandlers() {
     return parseScriptLocally(content);
   });
 
-  ipcMain.handle('script:parse-ai', async (_, content: string) => {
+  ipcMain.handle('script:parse-ai', async (_, content: string, projectId?: string) => {
     try {
-      return await parseScriptWithAI(content);
+      return await runWithUsageContext({ projectId }, () => parseScriptWithAI(content));
     } catch (error) {
       throw new Error(`AI 解析失败: ${error instanceof Error ? error.message : '未知错误'}`);
     }
   });
 
   // 两阶段解析 - 第一阶段：结构化提取（角色、场景、故事大纲）
-  ipcMain.handle('script:parse-phase1', async (_, content: string) => {
+  ipcMain.handle('script:parse-phase1', async (_, content: string, projectId?: string) => {
     try {
-      return await parseScriptPhase1(content);
+      return await runWithUsageContext({ projectId }, () => parseScriptPhase1(content));
     } catch (error) {
       throw new Error(`第一阶段解析失败: ${error instanceof Error ? error.message : '未知错误'}`);
     }
   });
 
   // 两阶段解析 - 第二阶段：生成详细分镜
-  ipcMain.handle('script:parse-phase2', async (_, content: string, phase1Result: Phase1Result) => {
+  ipcMain.handle('script:parse-phase2', async (_, content: string, phase1Result: Phase1Result, projectId?: string) => {
     try {
-      return await parseScriptPhase2(content, phase1Result);
+      return await runWithUsageContext({ projectId }, () => parseScriptPhase2(content, phase1Result));
     } catch (error) {
       throw new Error(`第二阶段解析失败: ${error instanceof Error ? error.message : '未知错误'}`);
     }
@@ -220,8 +287,23 @@ export function registerIpcHandlers() {
     await deleteCharacter(characterId);
   });
 
+  // 使用角色音色合成试听样音
+  ipcMain.handle('character:audition-voice', async (_, characterId: string, text?: string) => {
+    try {
+      const character = await getCharacter(characterId);
+      if (character) {
+        await assertBatchWithinBudget(character.projectId, { ttsCharacters: getAuditionText(character, text).length });
+      }
+      return await auditionCharacterVoice(characterId, text);
+    } catch (error) {
+      throw new Error(`试听生成失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
   ipcMain.handle('character:generate-avatar', async (event, characterId: string) => {
     try {
+      const character = await getCharacter(characterId);
+      if (character) await assertProjectBudgetAvailable(character.projectId);
       const avatarPath = await generateCharacterAvatar(characterId, (progress) => {
         event.sender.send('ai:progress', { taskType: 'avatar', progress });
       });
@@ -246,6 +328,8 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('character:generate-views', async (event, characterId: string) => {
     try {
+      const character = await getCharacter(characterId);
+      if (character) await assertProjectBudgetAvailable(character.projectId);
       const views = await generateCharacterViews(characterId, (progress) => {
         event.sender.send('ai:progress', { taskType: 'views', progress });
       });
@@ -299,6 +383,10 @@ export function registerIpcHandlers() {
     await deleteScene(sceneId);
   });
 
+  ipcMain.handle('scene:set-image', async (_, sceneId: string, imagePath: string) => {
+    await setSelectedSceneImage(sceneId, imagePath);
+  });
+
   ipcMain.handle('scene:cleanup-duplicates', async (_, projectId: string) => {
     return await cleanupDuplicateScenes(projectId);
   });
@@ -306,6 +394,7 @@ export function registerIpcHandlers() {
   ipcMain.handle('scene:generate-image', async (event, sceneId: string) => {
     const scene = await getScene(sceneId);
     if (!scene) throw new Error('场景不存在');
+    await assertProjectBudgetAvailable(scene.projectId);
 
     const imagePath = await generateSceneImage(
       scene.projectId,
@@ -327,8 +416,8 @@ export function registerIpcHandlers() {
       }
     );
 
-    // 更新场景的图片路径
-    await updateScene(sceneId, { imagePath });
+    // 保存为新版本并设为当前参考图
+    await addGeneratedSceneImage(sceneId, imagePath);
 
     return imagePath;
   });
@@ -346,10 +435,13 @@ export function registerIpcHandlers() {
       return { generated: 0, skipped: allScenes.length, errors: 0, message: '没有需要生成的场景' };
     }
 
+    await assertBatchWithinBudget(projectId, { imageCount: scenesToGenerate.length });
+
     // 使用最多2个并发处理，避免 API 限流
     const MAX_CONCURRENT = 2;
     let completed = 0;
     let errors = 0;
+    let budgetStopped = 0;
     const total = scenesToGenerate.length;
 
     // 发送初始进度
@@ -362,6 +454,12 @@ export function registerIpcHandlers() {
 
     // 处理单个场景
     const processScene = async (scene: typeof allScenes[0]) => {
+      // 达到预算上限后不再生成剩余场景
+      if (await isProjectBudgetReached(projectId)) {
+        budgetStopped++;
+        return;
+      }
+
       try {
         event.sender.send('scene:batch-progress', {
           total,
@@ -388,7 +486,7 @@ export function registerIpcHandlers() {
           () => {} // 单个场景的进度不发送
         );
 
-        await updateScene(scene.id, { imagePath });
+        await addGeneratedSceneImage(scene.id, imagePath);
         completed++;
       } catch (error) {
         console.error(`Scene "${scene.name}" generation failed:`, error);
@@ -433,7 +531,9 @@ export function registerIpcHandlers() {
       generated: completed,
       skipped: allScenes.length - scenesToGenerate.length,
       errors,
-      message: `成功生成 ${completed} 个场景，${errors} 个失败`,
+      message: budgetStopped > 0
+        ? `成功生成 ${completed} 个场景，${errors} 个失败，已达到项目预算上限，${budgetStopped} 个未生成`
+        : `成功生成 ${completed} 个场景，${errors} 个失败`,
     };
   });
 
@@ -458,6 +558,8 @@ export function registerIpcHandlers() {
         dialogue?: string;
         characterId?: string;
         characterIds?: string[];
+        speakerId?: string;
+        targetCharacterId?: string;
         sceneId?: string;
         duration?: number;
         cameraType?: string;
@@ -467,6 +569,8 @@ export function registerIpcHandlers() {
         timeOfDay?: string;
         props?: string;
         action?: string;
+        tone?: string;
+        emotion?: string;
       }
     ) => {
       // 只提取支持的字段，避免传递多余字段导致 Drizzle 错误
@@ -477,6 +581,8 @@ export function registerIpcHandlers() {
         dialogue: data.dialogue,
         characterId: data.characterId,
         characterIds: data.characterIds,
+        speakerId: data.speakerId,
+        targetCharacterId: data.targetCharacterId,
         sceneId: data.sceneId,
         duration: data.duration,
         cameraType: data.cameraType,
@@ -486,6 +592,8 @@ export function registerIpcHandlers() {
         timeOfDay: data.timeOfDay,
         props: data.props,
         action: data.action,
+        tone: data.tone,
+        emotion: data.emotion,
       });
     }
   );
@@ -506,8 +614,18 @@ export function registerIpcHandlers() {
     await moveShot(shotId, newIndex);
   });
 
+  ipcMain.handle('storyboard:list-takes', async (_, shotId: string, kind?: 'image' | 'video' | 'audio') => {
+    return await getShotAssets(shotId, kind);
+  });
+
+  ipcMain.handle('storyboard:select-take', async (_, shotId: string, assetId: string) => {
+    await selectShotAsset(shotId, assetId);
+  });
+
   ipcMain.handle('storyboard:generate-image', async (event, shotId: string) => {
     try {
+      const shot = await getShot(shotId);
+      if (shot) await assertProjectBudgetAvailable(shot.projectId);
       const imagePath = await generateShotImage(shotId, (progress) => {
         event.sender.send('render:progress', { type: 'image', shotId, progress });
       });
@@ -517,6 +635,29 @@ export function registerIpcHandlers() {
     }
   });
 
+  // 为分镜台词生成配音
+  ipcMain.handle('storyboard:generate-voice', async (event, shotId: string) => {
+    try {
+      const shot = await getShot(shotId);
+      if (shot) await assertProjectBudgetAvailable(shot.projectId);
+      return await generateShotVoice(shotId, (progress) => {
+        event.sender.send('render:progress', { type: 'voice', shotId, progress });
+      });
+    } catch (error) {
+      throw new Error(`配音生成失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  // 设置分镜音频（导出时与视频原声混合），传 null 移除
+  ipcMain.handle('storyboard:set-audio', async (_, shotId: string, filePath: string | null) => {
+    return await setShotAudio(shotId, filePath);
+  });
+
+  // 预览分镜生成时使用的最终提示词和参考图（不调用生成服务）
+  ipcMain.handle('storyboard:preview-prompt', async (_, shotId: string, kind: 'image' | 'video' = 'image') => {
+    return await previewShotPrompt(shotId, kind);
+  });
+
   // 批量生成所有分镜图片（并发处理，最多5个同时）
   ipcMain.handle('storyboard:generate-all-images', async (event, projectId: string, regenerateAll: boolean = false) => {
     const allShots = await getShots(projectId);
@@ -530,9 +671,12 @@ export function registerIpcHandlers() {
       return { generated: 0, skipped: allShots.length, errors: 0, message: '没有需要生成的分镜' };
     }
 
+    await assertBatchWithinBudget(projectId, { imageCount: shotsToGenerate.length });
+
     const MAX_CONCURRENT = 5;
     let completed = 0;
     let errors = 0;
+    let budgetStopped = 0;
     const total = shotsToGenerate.length;
 
     // 发送初始进度
@@ -545,6 +689,12 @@ export function registerIpcHandlers() {
 
     // 并发控制器
     const processShot = async (shot: typeof allShots[0]) => {
+      // 达到预算上限后不再生成剩余分镜
+      if (await isProjectBudgetReached(projectId)) {
+        budgetStopped++;
+        return;
+      }
+
       try {
         event.sender.send('storyboard:batch-progress', {
           total,
@@ -594,7 +744,91 @@ export function registerIpcHandlers() {
       generated: completed,
       skipped: allShots.length - shotsToGenerate.length,
       errors,
-      message: `成功生成 ${completed} 个分镜，${errors} 个失败`,
+      message: budgetStopped > 0
+        ? `成功生成 ${completed} 个分镜，${errors} 个失败，已达到项目预算上限，${budgetStopped} 个未生成`
+        : `成功生成 ${completed} 个分镜，${errors} 个失败`,
+    };
+  });
+
+  // 批量生成所有有台词分镜的配音（并发处理，最多3个同时）
+  ipcMain.handle('storyboard:generate-all-voices', async (event, projectId: string, regenerateAll: boolean = false) => {
+    const allShots = await getShots(projectId);
+
+    // 根据参数决定生成策略
+    const shotsToGenerate = regenerateAll
+      ? allShots.filter(shot => shot.dialogue?.trim()) // 有台词的全部重新生成
+      : allShots.filter(shot => shot.dialogue?.trim() && !shot.audioPath); // 只生成没有音频的
+
+    if (shotsToGenerate.length === 0) {
+      return { generated: 0, skipped: allShots.length, errors: 0, message: '没有需要配音的分镜' };
+    }
+
+    // 按待合成台词的总字符数预估费用
+    const ttsCharacters = shotsToGenerate.reduce((sum, shot) => sum + (shot.dialogue?.trim().length || 0), 0);
+    await assertBatchWithinBudget(projectId, { ttsCharacters });
+
+    const MAX_CONCURRENT = 3;
+    let completed = 0;
+    let errors = 0;
+    let budgetStopped = 0;
+    const total = shotsToGenerate.length;
+
+    event.sender.send('storyboard:batch-progress', {
+      total,
+      completed: 0,
+      errors: 0,
+      current: null,
+    });
+
+    const processShot = async (shot: typeof allShots[0]) => {
+      // 达到预算上限后不再生成剩余分镜
+      if (await isProjectBudgetReached(projectId)) {
+        budgetStopped++;
+        return;
+      }
+
+      try {
+        event.sender.send('storyboard:batch-progress', {
+          total,
+          completed,
+          errors,
+          current: `分镜 #${shot.index}`,
+        });
+
+        await generateShotVoice(shot.id);
+        completed++;
+      } catch (error) {
+        console.error(`分镜 #${shot.index} 配音失败:`, error);
+        errors++;
+      }
+
+      event.sender.send('storyboard:batch-progress', {
+        total,
+        completed,
+        errors,
+        current: null,
+      });
+    };
+
+    // 每个任务完成后从池中移除，池满时等待任一任务完成
+    const pool = new Set<Promise<void>>();
+    for (const shot of shotsToGenerate) {
+      const task = processShot(shot).finally(() => pool.delete(task));
+      pool.add(task);
+      if (pool.size >= MAX_CONCURRENT) {
+        await Promise.race(pool);
+      }
+    }
+
+    await Promise.all(pool);
+
+    return {
+      generated: completed,
+      skipped: allShots.length - shotsToGenerate.length,
+      errors,
+      message: budgetStopped > 0
+        ? `成功配音 ${completed} 个分镜，${errors} 个失败，已达到项目预算上限，${budgetStopped} 个未生成`
+        : `成功配音 ${completed} 个分镜，${errors} 个失败`,
     };
   });
 
@@ -605,10 +839,12 @@ export function registerIpcHandlers() {
   });
 
   ipcMain.handle('render:create', async (_, projectId: string, shotId: string, type: 'image' | 'video') => {
+    await assertBatchWithinBudget(projectId, type === 'image' ? { imageCount: 1 } : { videoCount: 1 });
     return await createRenderTask({ projectId, shotId, type });
   });
 
-  ipcMain.handle('render:create-batch', async (_, projectId: string, shotIds: string[], type: 'image' | 'video') => {
+  ipcMain.handle('render:create-batch', async (_, projectId: string, shotIds: string[], type: 'image' | 'video' | 'pipeline') => {
+    await assertBatchWithinBudget(projectId, await countBatchGenerations(shotIds, type));
     return await createBatchRenderTasks({ projectId, shotIds, type });
   });
 
@@ -628,10 +864,36 @@ export function registerIpcHandlers() {
     await resumeRenderTask(taskId);
   });
 
+  ipcMain.handle('render:bump', async (_, taskId: string) => {
+    await bumpRenderTask(taskId);
+  });
+
+  ipcMain.handle('render:reorder', async (_, projectId: string, taskIds: string[]) => {
+    await reorderRenderTasks(projectId, taskIds);
+  });
+
   ipcMain.handle('render:status', () => {
     return getQueueStatus();
   });
 
+  // ==================== 用量统计 ====================
+
+  ipcMain.handle('usage:project-summary', async (_, projectId: string) => {
+    return await getProjectUsageSummary(projectId);
+  });
+
+  ipcMain.handle('usage:monthly-summary', async (_, projectId?: string) => {
+    return await getMonthlyUsageSummary(projectId);
+  });
+
+  ipcMain.handle('usage:budget-status', async (_, projectId: string) => {
+    return await getProjectBudgetStatus(projectId);
+  });
+
+  ipcMain.handle('usage:check-budget', async (_, projectId: string, batch: BatchGenerationCount) => {
+    return await checkBatchBudget(projectId, batch);
+  });
+
   // ==================== 设置 ====================
 
   ipcMain.handle('settings:get', async () => {
@@ -662,6 +924,10 @@ export function registerIpcHandlers() {
     return await testVideoConnection();
   });
 
+  ipcMain.handle('settings:test-tts-connection', async () => {
+    return await testTtsConnection();
+  });
+
   ipcMain.handle('settings:get-llm-config', async () => {
     return await getLlmApiConfig();
   });
@@ -674,6 +940,10 @@ export function registerIpcHandlers() {
     return await getVideoApiConfig();
   });
 
+  ipcMain.handle('settings:get-tts-config', async () => {
+    return await getTtsApiConfig();
+  });
+
   ipcMain.handle('settings:backup-database', async () => {
     return await backupDatabase();
   });
@@ -719,6 +989,10 @@ export function registerIpcHandlers() {
     return await fetchVideoModels();
   });
 
+  ipcMain.handle('settings:fetch-tts-voices', async () => {
+    return await fetchTtsVoices();
+  });
+
   ipcMain.handle('settings:get-storage-path', async () => {
     return await getStoragePath();
   });
@@ -739,6 +1013,8 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('ai:generate-image', async (event, shotId: string) => {
     try {
+      const shot = await getShot(shotId);
+      if (shot) await assertProjectBudgetAvailable(shot.projectId);
       const imagePath = await generateShotImage(shotId, (progress) => {
         event.sender.send('ai:progress', { taskType: 'image', shotId, progress });
       });
@@ -750,6 +1026,8 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('ai:edit-image', async (event, shotId: string, prompt: string) => {
     try {
+      const shot = await getShot(shotId);
+      if (shot) await assertProjectBudgetAvailable(shot.projectId);
       const imagePath = await import('../services/ai.service').then(m => m.editShotImage(shotId, prompt, (progress) => {
         event.sender.send('ai:progress', { taskType: 'image-edit', shotId, progress });
       }));
@@ -761,6 +1039,8 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('ai:edit-scene-image', async (event, sceneId: string, prompt: string) => {
     try {
+      const scene = await getScene(sceneId);
+      if (scene) await assertProjectBudgetAvailable(scene.projectId);
       const imagePath = await import('../services/ai.service').then(m => m.editSceneImage(sceneId, prompt, (progress) => {
         event.sender.send('ai:progress', { taskType: 'scene-image-edit', sceneId, progress });
       }));
@@ -772,6 +1052,8 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('ai:generate-video', async (event, shotId: string) => {
     try {
+      const shot = await getShot(shotId);
+      if (shot) await assertProjectBudgetAvailable(shot.projectId);
       const videoPath = await generateShotVideo(shotId, (progress) => {
         event.sender.send('ai:progress', { taskType: 'video', shotId, progress });
       });
@@ -802,6 +1084,20 @@ export function registerIpcHandlers() {
     }
   });
 
+  ipcMain.handle('export:subtitles', async (
+    _,
+    projectId: string,
+    outputPath: string,
+    format: SubtitleFormat,
+    options: Pick<ExportOptions, 'resolution' | 'subtitleStyle'>
+  ) => {
+    try {
+      return await exportSubtitles(projectId, outputPath, format, options);
+    } catch (error) {
+      throw new Error(`导出字幕失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
   ipcMain.handle('export:check-ffmpeg', async () => {
     return await checkFFmpeg();
   });
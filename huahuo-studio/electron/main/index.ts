@@ -4,9 +4,10 @@ import { pathToFileURL } from 'url';
 import { createReadStream, statSync, existsSync } from 'fs';
 import { initDatabase } from '../database';
 import { registerIpcHandlers } from '../ipc/handlers';
-import { setMainWindow } from '../services/render.service';
+import { setMainWindow, recoverRenderQueue } from '../services/render.service';
 import { setMainWindow as setAiMainWindow } from '../services/ai.service';
 import { getAllSettings } from '../services/settings.service';
+import { registerBuiltinProviders } from '../services/providers';
 
 // Windows 控制台 UTF-8 编码设置
 if (process.platform === 'win32') {
@@ -208,6 +209,9 @@ app.whenReady().then(() => {
     setAiMainWindow(mainWindow);
   }
 
+  // 注册内置服务商适配器
+  registerBuiltinProviders();
+
   // 注册 IPC 处理器
   registerIpcHandlers();
 
@@ -220,6 +224,9 @@ app.whenReady().then(() => {
       // 加载设置以同步存储路径（getAllSettings 会自动设置 utils 中的存储路径）
       await getAllSettings();
       console.log('Settings loaded successfully');
+
+      // 恢复上次未完成的渲染队列（需在设置加载后，确保存储路径正确）
+      await recoverRenderQueue();
     } catch (error) {
       console.error('Failed to initialize database:', error);
       // 不中断应用，允许继续运行
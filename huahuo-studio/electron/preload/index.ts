@@ -19,6 +19,8 @@ const electronAPI = {
       'project:list',
       'project:delete',
       'project:stats',
+      'project:get-settings',
+      'project:update-settings',
       // 剧本
       'script:load',
       'script:save',
@@ -39,12 +41,14 @@ const electronAPI = {
       'character:add-avatar',
       'character:set-avatar',
       'character:cleanup-duplicates',
+      'character:audition-voice',
       // 场景
       'scene:list',
       'scene:get',
       'scene:create',
       'scene:create-batch',
       'scene:update',
+      'scene:set-image',
       'scene:delete',
       'scene:cleanup-duplicates',
       'scene:generate-image',
@@ -56,9 +60,15 @@ const electronAPI = {
       'storyboard:update',
       'storyboard:delete',
       'storyboard:move',
+      'storyboard:list-takes',
+      'storyboard:select-take',
+      'storyboard:preview-prompt',
+      'storyboard:set-audio',
       'storyboard:list',
       'storyboard:generate-image',
       'storyboard:generate-all-images',
+      'storyboard:generate-voice',
+      'storyboard:generate-all-voices',
       // 渲染
       'render:list',
       'render:create',
@@ -67,7 +77,14 @@ const electronAPI = {
       'render:pause',
       'render:resume',
       'render:cancel',
+      'render:bump',
+      'render:reorder',
       'render:status',
+      // 用量统计
+      'usage:project-summary',
+      'usage:monthly-summary',
+      'usage:budget-status',
+      'usage:check-budget',
       // AI API
       'ai:generate-text',
       'ai:generate-image',
@@ -81,10 +98,12 @@ const electronAPI = {
       'settings:get-llm-config',
       'settings:get-image-config',
       'settings:get-video-config',
+      'settings:get-tts-config',
       'settings:test-connection',
       'settings:test-llm-connection',
       'settings:test-image-connection',
       'settings:test-video-connection',
+      'settings:test-tts-connection',
       'settings:backup-database',
       'settings:import-database',
       'settings:get-database-info',
@@ -98,10 +117,12 @@ const electronAPI = {
       'settings:fetch-llm-models',
       'settings:fetch-image-models',
       'settings:fetch-video-models',
+      'settings:fetch-tts-voices',
       // 导出
       'export:preview',
       'export:select-path',
       'export:video',
+      'export:subtitles',
       'export:check-ffmpeg',
       'export:open-folder',
       // 文件操作
@@ -113,6 +134,11 @@ const electronAPI = {
       'style:list',
       'style:get',
       'style:categories',
+      // 提示词模板
+      'prompt-template:list',
+      'prompt-template:save',
+      'prompt-template:reset',
+      'prompt-template:preview',
     ];
 
     if (allowedChannels.includes(channel)) {
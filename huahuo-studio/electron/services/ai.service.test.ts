@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('electron', () => ({ app: { getPath: vi.fn() }, net: {}, BrowserWindow: {} }));
+vi.mock('../database', async () => ({ getDatabase: vi.fn(), schema: await import('../database/schema') }));
+
+import { classifyApiError, classifyHttpError, getScriptBatchSize, splitScriptIntoBatches } from './ai.service';
+
+describe('classifyApiError', () => {
+  it.each([
+    ['账户余额不足，请充值后重试', 'quota'],
+    ['Insufficient balance', 'quota'],
+    ['You exceeded your current quota', 'quota'],
+    ['内容审核未通过，请修改描述后重试', 'content-policy'],
+    ['DataInspectionFailed: Input data may contain inappropriate content.', 'content-policy'],
+    ['API密钥无效，请检查设置', 'auth'],
+    ['API 请求失败: 403 Forbidden', 'auth'],
+    ['请先在设置中配置视频服务商的 API Key', 'auth'],
+    ['请求超时 (300000ms)', 'transient'],
+    ['fetch failed: ECONNRESET', 'transient'],
+    ['Rate limit exceeded', 'transient'],
+    ['Request was throttled', 'transient'],
+    ['API 请求失败: 429', 'transient'],
+    ['API 请求失败: 503 Service Unavailable', 'transient'],
+    ['视频生成失败: 模型不支持该分辨率', 'unknown'],
+  ])('%s → %s', (message, expected) => {
+    expect(classifyApiError(message)).toBe(expected);
+  });
+
+  it('状态码只匹配完整数字', () => {
+    expect(classifyApiError('任务 ID 15034 生成失败')).toBe('unknown');
+    expect(classifyApiError('耗时 4010ms')).toBe('unknown');
+  });
+
+  it('限流优先于配额不足', () => {
+    const geminiRateLimit = 'Gemini Image API 错误: 429 - {"error":{"code":429,"message":"Resource has been exhausted (e.g. check quota).","status":"RESOURCE_EXHAUSTED"}}';
+    expect(classifyApiError(geminiRateLimit)).toBe('transient');
+    expect(classifyApiError('Rate limit reached: quota of 10 requests per minute')).toBe('transient');
+  });
+
+  it('余额不足优先于服务端错误', () => {
+    expect(classifyApiError('API 请求失败: 500 - insufficient_user_quota')).toBe('quota');
+  });
+});
+
+describe('classifyHttpError', () => {
+  it('限流和服务端错误按状态码重试，不受响应内容影响', () => {
+    expect(classifyHttpError(503, 'API易 图像生成错误: 503 - {"error":{"message":"upstream quota busy"}}')).toBe('transient');
+    expect(classifyHttpError(502, '阿里云图像生成错误: 502 - {"code":"InternalError","message":"Bad gateway"}')).toBe('transient');
+    expect(classifyHttpError(429, 'Gemini Image API 错误: 429 - {"error":{"message":"check quota"}}')).toBe('transient');
+  });
+
+  it('鉴权和付费状态码直接分类', () => {
+    expect(classifyHttpError(401, 'API 错误: 401 - {}')).toBe('auth');
+    expect(classifyHttpError(402, 'API 错误: 402 - {}')).toBe('quota');
+  });
+
+  it('其他状态码按原始响应内容判断', () => {
+    expect(classifyHttpError(400, '阿里云图像生成错误: 400 - {"code":"DataInspectionFailed","message":"Input data may contain inappropriate content."}'))
+      .toBe('content-policy');
+    expect(classifyHttpError(400, 'API易 视频生成错误: 400 - {"error":{"message":"insufficient_user_quota"}}')).toBe('quota');
+    expect(classifyHttpError(400, 'API 错误: 400 - {"error":{"message":"invalid size"}}')).toBe('unknown');
+  });
+});
+
+describe('getScriptBatchSize', () => {
+  it('上下文长度未知时使用默认批次大小', () => {
+    expect(getScriptBatchSize(null)).toBe(50000);
+  });
+
+  it('大上下文模型不超过默认批次大小', () => {
+    expect(getScriptBatchSize(1_000_000)).toBe(50000);
+  });
+
+  it('扣除系统提示词和输出预留后再按比例计算', () => {
+    const batchSize = getScriptBatchSize(8192);
+    // 未扣除提示词时为 floor((8192 - 1024) * 0.4) = 2867
+    expect(batchSize).toBeLessThan(2867);
+    expect(batchSize).toBeGreaterThanOrEqual(500);
+    // 提示词和预留为固定开销，上下文每增加 1 token 批次增加 0.4 字符
+    expect(getScriptBatchSize(16384) - batchSize).toBeCloseTo(8192 * 0.4, -1);
+  });
+
+  it('上下文过小时使用最小批次大小并提示', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(getScriptBatchSize(2000)).toBe(500);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
+
+describe('splitScriptIntoBatches', () => {
+  it('按场景行分割，每批不超过上限', () => {
+    const scene = (name: string) => `${name} 日 内\n${'台词'.repeat(20)}`;
+    const content = [scene('客厅'), scene('厨房'), scene('卧室')].join('\n');
+
+    // 每个场景 46 字，两个场景合并后超过上限
+    const batches = splitScriptIntoBatches(content, 60);
+    expect(batches).toHaveLength(3);
+    expect(batches[1].startsWith('厨房 日 内')).toBe(true);
+    expect(batches.join('\n')).toBe(content);
+  });
+
+  it('无场景行时按段落拼接', () => {
+    const paragraphs = ['第一段'.repeat(5), '第二段'.repeat(5), '第三段'.repeat(5)];
+    const batches = splitScriptIntoBatches(paragraphs.join('\n\n'), 40);
+
+    expect(batches).toEqual([`${paragraphs[0]}\n\n${paragraphs[1]}`, paragraphs[2]]);
+  });
+
+  it('超长片段按行拆分，单行仍超长时按字数截断', () => {
+    const longLine = '很'.repeat(250);
+    const content = `开头\n${longLine}\n结尾`;
+
+    const batches = splitScriptIntoBatches(content, 100);
+    for (const batch of batches) {
+      expect(batch.length).toBeLessThanOrEqual(100);
+    }
+    expect(batches.join('').replace(/\n/g, '')).toBe(content.replace(/\n/g, ''));
+  });
+});
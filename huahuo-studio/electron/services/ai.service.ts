@@ -1,10 +1,29 @@
 import { getLlmApiConfig, getImageApiConfig, getVideoApiConfig } from './settings.service';
-import { getScene } from './scene.service';
-import { getShot, updateShot } from './shot.service';
-import { getCharacter } from './character.service';
-import { getProject } from './project.service';
+import { getScene, getScenes, addGeneratedSceneImage, type SceneData } from './scene.service';
+import { getShot, getShots, updateShot, addShotAsset, type ShotData } from './shot.service';
+import { getCharacter, getCharacters, type CharacterData } from './character.service';
+import { getProject, getProjectSettings } from './project.service';
 import { saveProjectFile } from './utils';
+import { recordUsage, estimateUsageCost, runWithUsageContext } from './usage.service';
+import {
+  getProvider,
+  resolveCapabilities,
+  type ImageProviderAdapter,
+  type ImageProviderConfig,
+  type ImageGenerationResult,
+  type CharacterView,
+  type ImageReference,
+  type ImageSampling,
+  type ProviderCapabilities,
+} from './provider.service';
+import {
+  getPromptTemplate,
+  renderPromptTemplate,
+  type PromptTemplateKey,
+  type PromptTemplateVariables,
+} from './prompt-template.service';
 import { net, BrowserWindow } from 'electron';
+import { existsSync } from 'fs';
 import {
   applyStyleToImagePrompt,
   applyStyleToVideoPrompt,
@@ -14,6 +33,17 @@ import {
 
 type ProgressCallback = (progress: number) => void;
 
+// 阿里云 qwen-image-edit-plus 单次请求最多支持的参考图数量
+export const ALIYUN_MAX_REFERENCE_IMAGES = 3;
+// Gemini 图像模型单次请求使用的参考图数量上限（gemini-3-pro-image 最多支持 14 张，更多参考图会降低遵循度）
+export const GEMINI_MAX_REFERENCE_IMAGES = 6;
+// gemini-2.0-flash-exp 单次请求使用的参考图数量上限
+export const GEMINI_FLASH_MAX_REFERENCE_IMAGES = 3;
+// OpenAI 兼容图像编辑接口 (gpt-image-1) 单次请求使用的参考图数量上限
+export const OPENAI_EDIT_MAX_REFERENCE_IMAGES = 4;
+// Veo 视频模型单次请求最多支持的角色参考图数量
+export const VEO_MAX_REFERENCE_IMAGES = 3;
+
 // 主窗口引用（用于发送进度更新）
 let mainWindow: BrowserWindow | null = null;
 
@@ -92,19 +122,143 @@ function parseApiError(error: string): string {
   return error;
 }
 
+/**
+ * API 错误分类
+ * transient: 超时、网络、限流、服务端 5xx 等可重试错误
+ * quota: 余额/配额不足
+ * content-policy: 内容审核未通过
+ * auth: 密钥无效或未配置
+ */
+export type ApiErrorClass = 'transient' | 'quota' | 'content-policy' | 'auth' | 'unknown';
+
+/**
+ * 根据错误信息判断错误类别（与 parseApiError 识别的关键词保持一致）
+ */
+export function classifyApiError(message: string): ApiErrorClass {
+  const lower = message.toLowerCase();
+
+  // 限流（如 Gemini 429 RESOURCE_EXHAUSTED 的提示中也会出现 quota）需先于配额不足判断
+  if (/\b429\b/.test(message) || lower.includes('rate limit') || lower.includes('throttl') ||
+      message.includes('RESOURCE_EXHAUSTED')) {
+    return 'transient';
+  }
+  if (message.includes('余额不足') || lower.includes('insufficient') || lower.includes('quota') || lower.includes('not enough')) {
+    return 'quota';
+  }
+  if (message.includes('内容审核未通过') || message.includes('DataInspectionFailed') || lower.includes('inappropriate')) {
+    return 'content-policy';
+  }
+  if (message.includes('API密钥无效') || message.includes('InvalidApiKey') || lower.includes('unauthorized') ||
+      /\b(401|403)\b/.test(message) || message.includes('请先在设置中配置')) {
+    return 'auth';
+  }
+  if (message.includes('请求超时') || message.includes('网络连接失败') || lower.includes('timeout') ||
+      lower.includes('etimedout') || lower.includes('econnreset') || lower.includes('econnrefused') ||
+      lower.includes('network') || /\b5\d\d\b/.test(message)) {
+    return 'transient';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * HTTP 接口错误：在状态码仍可知时确定错误类别，渲染队列据此决定是否重试
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly errorClass: ApiErrorClass;
+
+  constructor(message: string, status: number, errorClass: ApiErrorClass) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.errorClass = errorClass;
+  }
+}
+
+/**
+ * 根据 HTTP 状态码和原始响应判断错误类别（限流、服务端错误可重试，状态码不明确时按响应内容判断）
+ */
+export function classifyHttpError(status: number, rawMessage: string): ApiErrorClass {
+  if (status === 408 || status === 429 || status >= 500) return 'transient';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 402) return 'quota';
+  return classifyApiError(rawMessage);
+}
+
+/**
+ * 创建 HTTP 接口错误：按原始响应分类，format 用于将其转换为展示给用户的提示
+ */
+function createApiError(status: number, rawMessage: string, format?: (message: string) => string): ApiError {
+  return new ApiError(format ? format(rawMessage) : rawMessage, status, classifyHttpError(status, rawMessage));
+}
+
+/**
+ * 创建任务取消错误
+ */
+function createAbortError(): Error {
+  const error = new Error('任务已取消');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * 如果任务已取消则抛出取消错误
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * 可取消的等待（用于轮询间隔）
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(createAbortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 下载远程文件并返回 Buffer（支持取消）
+ */
+async function downloadBuffer(url: string, signal?: AbortSignal): Promise<{ ok: boolean; status: number; buffer: Buffer }> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    return { ok: false, status: response.status, buffer: Buffer.alloc(0) };
+  }
+  return { ok: true, status: response.status, buffer: Buffer.from(await response.arrayBuffer()) };
+}
+
 /**
  * 下载图片并返回 Buffer（带超时和重试）
  * 用于下载阿里云 OSS 等远程图片
  */
-async function downloadImageWithRetry(url: string, maxRetries = 3, timeoutMs = 60000): Promise<Buffer> {
+async function downloadImageWithRetry(url: string, signal?: AbortSignal, maxRetries = 3, timeoutMs = 60000): Promise<Buffer> {
   let lastError: Error | null = null;
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    throwIfAborted(signal);
     try {
       console.log(`[AI Service] 下载图片尝试 ${attempt}/${maxRetries}: ${url.substring(0, 100)}...`);
 
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
 
       try {
         const response = await fetch(url, {
@@ -112,6 +266,7 @@ async function downloadImageWithRetry(url: string, maxRetries = 3, timeoutMs = 6
         });
 
         clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
 
         if (!response.ok) {
           throw new Error(`HTTP 错误: ${response.status}`);
@@ -122,9 +277,11 @@ async function downloadImageWithRetry(url: string, maxRetries = 3, timeoutMs = 6
         return Buffer.from(arrayBuffer);
       } catch (fetchError: any) {
         clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
         throw fetchError;
       }
     } catch (error: any) {
+      throwIfAborted(signal);
       lastError = error;
       console.error(`[AI Service] 下载图片失败 (尝试 ${attempt}/${maxRetries}):`, error.message);
 
@@ -132,7 +289,7 @@ async function downloadImageWithRetry(url: string, maxRetries = 3, timeoutMs = 6
         // 等待后重试，每次增加等待时间
         const waitTime = attempt * 2000;
         console.log(`[AI Service] ${waitTime}ms 后重试...`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
+        await sleep(waitTime, signal);
       }
     }
   }
@@ -151,14 +308,20 @@ async function electronFetch(
     headers?: Record<string, string>;
     body?: string;
     timeout?: number;
+    signal?: AbortSignal; // 外部取消信号（取消渲染任务时中断请求）
   } = {}
 ): Promise<{ ok: boolean; status: number; text: () => Promise<string>; json: () => Promise<any> }> {
   // 增加默认超时时间到 5 分钟 (300000ms)，以支持长剧本生成
   const timeoutMs = options.timeout || 300000;
+  const { signal } = options;
+
+  throwIfAborted(signal);
 
   // 首先尝试使用 Node.js 原生 fetch
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
   try {
-    const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
     const response = await fetch(url, {
@@ -178,80 +341,97 @@ async function electronFetch(
       json: async () => JSON.parse(responseText),
     };
   } catch (fetchError: any) {
+    // 外部取消不回退，直接中断
+    throwIfAborted(signal);
     console.log(`[AI Service] Node.js fetch 失败 (${fetchError.message})，切换到 Electron net 模块...`);
 
     // 回退到 Electron net 模块
-    return new Promise((resolve, reject) => {
-      let timeoutId: NodeJS.Timeout;
+    let onNetAbort: (() => void) | undefined;
+    try {
+      return await new Promise((resolve, reject) => {
+        let timeoutId: NodeJS.Timeout;
 
-      try {
-        console.log(`[AI Service] Electron net 开始请求: ${url}`);
-        const request = net.request({
-          method: options.method || 'GET',
-          url,
-        });
+        try {
+          console.log(`[AI Service] Electron net 开始请求: ${url}`);
+          const request = net.request({
+            method: options.method || 'GET',
+            url,
+          });
 
-        // 设置请求头
-        if (options.headers) {
-          for (const [key, value] of Object.entries(options.headers)) {
-            request.setHeader(key, value);
+          // 设置请求头
+          if (options.headers) {
+            for (const [key, value] of Object.entries(options.headers)) {
+              request.setHeader(key, value);
+            }
           }
-        }
 
-        let responseData = '';
-        let statusCode = 0;
+          let responseData = '';
+          let statusCode = 0;
 
-        // 超时处理
-        timeoutId = setTimeout(() => {
-          console.error('[AI Service] Electron net 请求超时');
-          request.abort();
-          reject(new Error(`请求超时 (${timeoutMs}ms)`));
-        }, timeoutMs);
+          // 超时处理
+          timeoutId = setTimeout(() => {
+            console.error('[AI Service] Electron net 请求超时');
+            request.abort();
+            reject(new Error(`请求超时 (${timeoutMs}ms)`));
+          }, timeoutMs);
 
-        request.on('response', (response) => {
-          statusCode = response.statusCode;
-          console.log(`[AI Service] Electron net 收到响应: ${statusCode}`);
+          // 取消处理
+          onNetAbort = () => {
+            clearTimeout(timeoutId);
+            request.abort();
+            reject(createAbortError());
+          };
+          signal?.addEventListener('abort', onNetAbort, { once: true });
 
-          response.on('data', (chunk) => {
-            responseData += chunk.toString();
-          });
+          request.on('response', (response) => {
+            statusCode = response.statusCode;
+            console.log(`[AI Service] Electron net 收到响应: ${statusCode}`);
 
-          response.on('end', () => {
-            clearTimeout(timeoutId);
-            console.log(`[AI Service] Electron net 响应接收完成，长度: ${responseData.length}`);
-            resolve({
-              ok: statusCode >= 200 && statusCode < 300,
-              status: statusCode,
-              text: async () => responseData,
-              json: async () => JSON.parse(responseData),
+            response.on('data', (chunk) => {
+              responseData += chunk.toString();
+            });
+
+            response.on('end', () => {
+              clearTimeout(timeoutId);
+              console.log(`[AI Service] Electron net 响应接收完成，长度: ${responseData.length}`);
+              resolve({
+                ok: statusCode >= 200 && statusCode < 300,
+                status: statusCode,
+                text: async () => responseData,
+                json: async () => JSON.parse(responseData),
+              });
+            });
+
+            response.on('error', (error) => {
+              console.error('[AI Service] Electron net 响应读取错误:', error);
+              clearTimeout(timeoutId);
+              reject(error);
             });
           });
 
-          response.on('error', (error) => {
-            console.error('[AI Service] Electron net 响应读取错误:', error);
+          request.on('error', (error) => {
+            console.error('[AI Service] Electron net 请求错误:', error);
             clearTimeout(timeoutId);
             reject(error);
           });
-        });
 
-        request.on('error', (error) => {
-          console.error('[AI Service] Electron net 请求错误:', error);
-          clearTimeout(timeoutId);
-          reject(error);
-        });
+          // 发送请求体
+          if (options.body) {
+            request.write(options.body);
+          }
 
-        // 发送请求体
-        if (options.body) {
-          request.write(options.body);
+          request.end();
+        } catch (error) {
+          console.error('[AI Service] Electron net 初始化异常:', error);
+          clearTimeout(timeoutId!);
+          reject(error);
         }
-
-        request.end();
-      } catch (error) {
-        console.error('[AI Service] Electron net 初始化异常:', error);
-        clearTimeout(timeoutId!);
-        reject(error);
-      }
-    });
+      });
+    } finally {
+      if (onNetAbort) signal?.removeEventListener('abort', onNetAbort);
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
   }
 }
 
@@ -266,66 +446,52 @@ async function electronFetch(
 
 // ==================== 文本生成 ====================
 
+/** 文本生成结果（含 token 用量） */
+export interface TextResult {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
 /**
  * 调用文本生成 API
  */
-export async function generateText(prompt: string, systemPrompt?: string): Promise<string> {
+export async function generateText(
+  prompt: string,
+  systemPrompt?: string,
+  options: { json?: boolean } = {}
+): Promise<string> {
   const config = await getLlmApiConfig();
+  const result = await getProvider('text', config.provider).generateText(config, { prompt, systemPrompt, json: options.json });
+
+  // 记录用量（项目归属来自调用方设置的用量上下文）
+  await recordUsage({
+    kind: 'llm',
+    provider: config.provider,
+    model: result.model,
+    inputTokens: result.inputTokens,
+    outputTokens: result.outputTokens,
+  });
 
-  // 检查 API 配置
-  if (config.provider === 'official') {
-    if (!config.geminiApiKey) {
-      throw new Error('请先在设置中配置 Gemini API Key');
-    }
-    return await callGeminiText(config.geminiApiKey, prompt, systemPrompt, config.textModel);
-  } else if (config.provider === 'aliyun') {
-    if (!config.apiKey) {
-      throw new Error('请先在设置中配置阿里云 API Key');
-    }
-    return await callOpenAICompatText(
-      config.baseUrl,
-      config.apiKey,
-      prompt,
-      systemPrompt,
-      config.textModel
-    );
-  } else if (config.provider === 'apiyi') {
-    if (!config.apiKey) {
-      throw new Error('请先在设置中配置 API易 API Key');
-    }
-    return await callOpenAICompatText(
-      config.baseUrl,
-      config.apiKey,
-      prompt,
-      systemPrompt,
-      config.textModel
-    );
-  } else {
-    if (!config.apiKey) {
-      throw new Error('请先在设置中配置 API Key');
-    }
-    if (!config.baseUrl) {
-      throw new Error('请先在设置中配置 API 服务地址');
-    }
-    return await callOpenAICompatText(
-      config.baseUrl,
-      config.apiKey,
-      prompt,
-      systemPrompt,
-      config.textModel
-    );
-  }
+  return result.text;
+}
+
+/**
+ * 接口未返回用量时按字符数粗略估算 token 数
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 2);
 }
 
 /**
  * Gemini 文本生成
  */
-async function callGeminiText(
+export async function callGeminiText(
   apiKey: string,
   prompt: string,
   systemPrompt?: string,
   model = 'gemini-2.0-flash'
-): Promise<string> {
+): Promise<TextResult> {
   const url = `https://generativelanguage.googleapis.com/v1/models/${model}:generateContent?key=${apiKey}`;
 
   const contents = [];
@@ -352,23 +518,117 @@ async function callGeminiText(
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Gemini API 错误: ${response.status} - ${error}`);
+    throw createApiError(response.status, `Gemini API 错误: ${response.status} - ${error}`);
+  }
+
+  const data = await response.json();
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  return {
+    text,
+    inputTokens: data.usageMetadata?.promptTokenCount ?? estimateTokens(`${systemPrompt || ''}${prompt}`),
+    outputTokens: data.usageMetadata?.candidatesTokenCount ?? estimateTokens(text),
+  };
+}
+
+/** 官方服务商未选择 Claude 模型但只配置了 Claude Key 时使用的默认模型 */
+export const DEFAULT_CLAUDE_MODEL = 'claude-sonnet-4-5';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+export const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * 是否为 Anthropic Claude 模型
+ */
+export function isClaudeModel(model: string): boolean {
+  return model.startsWith('claude-');
+}
+
+/**
+ * Claude 单次回复的最大输出 token 数（Claude 3 系列上限较低）
+ */
+function getClaudeMaxTokens(model: string): number {
+  if (/^claude-3-(opus|sonnet|haiku)/.test(model)) return 4096;
+  if (model.startsWith('claude-3-5')) return 8192;
+  return 32000;
+}
+
+/**
+ * Anthropic Claude 文本生成 (Messages API)
+ */
+export async function callClaudeText(
+  apiKey: string,
+  prompt: string,
+  systemPrompt?: string,
+  model = DEFAULT_CLAUDE_MODEL
+): Promise<TextResult> {
+  const body = JSON.stringify({
+    model,
+    max_tokens: getClaudeMaxTokens(model),
+    ...(systemPrompt ? { system: systemPrompt } : {}),
+    messages: [{ role: 'user', content: prompt }],
+  });
+
+  console.log('[AI Service] 发送请求到:', ANTHROPIC_API_URL);
+  console.log('[AI Service] 使用模型:', model);
+
+  let response: { ok: boolean; status: number; text: () => Promise<string>; json: () => Promise<any> };
+  try {
+    response = await electronFetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body,
+      timeout: 600000, // 剧本解析输出较长，Claude 非流式请求需要更长时间
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '未知错误';
+    console.error('[AI Service] 请求失败:', message);
+
+    if (message.includes('超时')) {
+      throw new Error('请求超时，请稍后重试');
+    }
+    if (message.includes('fetch failed') || message.includes('ENOTFOUND') || message.includes('ECONNREFUSED') || message.includes('net::')) {
+      throw new Error('无法连接到 Anthropic API，请检查网络设置或使用代理/VPN');
+    }
+    throw new Error(`网络请求失败: ${message}`);
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    console.error('[AI Service] Claude API 错误响应:', error);
+    throw createApiError(response.status, `Claude API 错误: ${response.status} - ${error}`);
   }
 
   const data = await response.json();
-  return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  const text = (data.content || [])
+    .filter((block: any) => block.type === 'text')
+    .map((block: any) => block.text)
+    .join('');
+
+  if (data.stop_reason === 'max_tokens') {
+    console.warn('[AI Service] Claude 输出达到 max_tokens 上限，结果可能被截断');
+  }
+
+  return {
+    text,
+    inputTokens: data.usage?.input_tokens ?? estimateTokens(`${systemPrompt || ''}${prompt}`),
+    outputTokens: data.usage?.output_tokens ?? estimateTokens(text),
+  };
 }
 
 /**
  * OpenAI 兼容格式文本生成 (API易/聚合)
  */
-async function callOpenAICompatText(
+export async function callOpenAICompatText(
   baseUrl: string,
   apiKey: string,
   prompt: string,
   systemPrompt?: string,
   model = 'gemini-2.0-flash'
-): Promise<string> {
+): Promise<TextResult> {
   const messages = [];
   if (systemPrompt) {
     messages.push({ role: 'system', content: systemPrompt });
@@ -415,166 +675,460 @@ async function callOpenAICompatText(
   if (!response.ok) {
     const error = await response.text();
     console.error('[AI Service] API 错误响应:', error);
-    throw new Error(`API 错误: ${response.status} - ${error}`);
+    throw createApiError(response.status, `API 错误: ${response.status} - ${error}`);
   }
 
   const data = await response.json();
   const content = data.choices?.[0]?.message?.content || '';
   console.log('[AI Service] 响应内容长度:', content.length);
 
-  return content;
+  return {
+    text: content,
+    inputTokens: data.usage?.prompt_tokens ?? estimateTokens(`${systemPrompt || ''}${prompt}`),
+    outputTokens: data.usage?.completion_tokens ?? estimateTokens(content),
+  };
 }
 
-// ==================== 图像生成 ====================
-
 /**
- * 生成分镜图像
- * 使用完整的场景信息、角色参考图和项目风格
- * 支持多角色
+ * Ollama 本地模型文本生成 (/api/chat)
+ * @param contextLength 上下文长度（num_ctx），Ollama 默认值较小，长剧本会被截断
+ * @param json 是否强制输出 JSON
  */
-export async function generateShotImage(
-  shotId: string,
-  onProgress?: ProgressCallback
-): Promise<string> {
-  const shot = await getShot(shotId);
-  if (!shot) throw new Error('分镜不存在');
+export async function callOllamaText(
+  baseUrl: string,
+  prompt: string,
+  systemPrompt: string | undefined,
+  model: string,
+  contextLength: number,
+  json = false
+): Promise<TextResult> {
+  const messages = [];
+  if (systemPrompt) {
+    messages.push({ role: 'system', content: systemPrompt });
+  }
+  messages.push({ role: 'user', content: prompt });
 
-  onProgress?.(10);
+  const url = `${baseUrl.replace(/\/+$/, '')}/api/chat`;
 
-  // 获取项目风格
-  const project = await getProject(shot.projectId);
-  const styleId = project?.styleId || 'animation_anime_2d';
+  console.log('[AI Service] 发送请求到:', url);
+  console.log('[AI Service] 使用模型:', model, json ? '(JSON 模式)' : '');
 
-  // 构建完整的场景描述
-  let prompt = '';
+  let response: { ok: boolean; status: number; text: () => Promise<string>; json: () => Promise<any> };
+  try {
+    response = await electronFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream: false,
+        ...(json ? { format: 'json' } : {}),
+        options: { num_ctx: contextLength },
+      }),
+      timeout: 1800000, // 本地模型推理较慢，放宽到 30 分钟
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '未知错误';
+    console.error('[AI Service] 请求失败:', message);
 
-  // 1. 场景环境信息
-  if (shot.sceneId) {
-    const scene = await getScene(shot.sceneId);
-    if (scene && scene.description) {
-      prompt += `场景描述: ${scene.description}\n`;
+    if (message.includes('超时')) {
+      throw new Error('本地模型响应超时，请尝试更小的模型或缩短剧本');
     }
-  }
-
-  if (shot.location || shot.timeOfDay) {
-    prompt += `地点: ${shot.location || '未知地点'}`;
-    if (shot.timeOfDay) {
-      prompt += `，时间: ${shot.timeOfDay}`;
+    if (message.includes('fetch failed') || message.includes('ECONNREFUSED') || message.includes('net::')) {
+      throw new Error(`无法连接到 Ollama，请确认服务已启动。服务地址: ${baseUrl}`);
     }
-    prompt += '\n';
-  }
-
-  // 2. 道具和布景
-  if (shot.props) {
-    prompt += `环境布置: ${shot.props}\n`;
+    throw new Error(`网络请求失败: ${message}`);
   }
 
-  // 3. 画面描述
-  prompt += `\n当前画面内容: ${shot.description}`;
-
-  // 4. 动作描述
-  if (shot.action) {
-    prompt += `\n动作: ${shot.action}`;
+  if (!response.ok) {
+    const error = await response.text();
+    console.error('[AI Service] Ollama 错误响应:', error);
+    if (response.status === 404) {
+      throw new Error(`Ollama 中没有模型 ${model}，请先执行 ollama pull 或在设置中重新选择模型`);
+    }
+    throw createApiError(response.status, `Ollama 错误: ${response.status} - ${error}`);
   }
 
-  // 5. 角色信息和外貌（应用风格）- 支持多角色
-  const characterReferences: Array<{ name: string; avatarPath: string }> = [];
-
-  // 优先使用 characterIds（多角色），回退到 characterId（单角色兼容）
-  const characterIds = shot.characterIds ||
-    (shot.characterId ? [shot.characterId] : []);
+  const data = await response.json();
+  const content = data.message?.content || '';
+  console.log('[AI Service] 响应内容长度:', content.length);
 
-  console.log('[AI Service] ========== 角色参考图调试 ==========');
-  console.log('[AI Service] shot.characterIds:', shot.characterIds);
-  console.log('[AI Service] shot.characterId:', shot.characterId);
-  console.log('[AI Service] 最终使用的角色IDs:', characterIds);
+  return {
+    text: content,
+    inputTokens: data.prompt_eval_count ?? estimateTokens(`${systemPrompt || ''}${prompt}`),
+    outputTokens: data.eval_count ?? estimateTokens(content),
+  };
+}
 
-  if (characterIds.length > 0) {
-    for (const charId of characterIds) {
-      const character = await getCharacter(charId);
-      console.log(`[AI Service] 查询角色 ${charId}:`, character ? {
-        name: character.name,
-        avatarPath: character.avatarPath,
-        generatedAvatarsCount: character.generatedAvatars?.length || 0
-      } : '未找到');
+// ==================== 图像生成 ====================
 
-      if (character) {
-        if (character.appearance) {
-          // 应用风格到角色描述
-          const styledAppearance = applyStyleToCharacterDescription(character.appearance, styleId);
-          prompt += `\n\n角色【${character.name}】: ${styledAppearance}`;
-        }
-        // 收集角色头像作为参考图（包含角色名）
-        let avatarPath: string | null = null;
-        if (character.avatarPath) {
-          avatarPath = character.avatarPath;
-          console.log(`[AI Service] ✓ 添加角色【${character.name}】的头像: ${character.avatarPath}`);
-        } else if (character.generatedAvatars && character.generatedAvatars.length > 0) {
-          // generatedAvatars 已经是数组，无需 JSON.parse
-          avatarPath = character.generatedAvatars[0];
-          console.log(`[AI Service] ✓ 添加角色【${character.name}】的生成头像: ${character.generatedAvatars[0]}`);
-        } else {
-          console.log(`[AI Service] ✗ 角色【${character.name}】没有任何头像`);
-        }
+/**
+ * 获取当前图像服务商用于计费的模型
+ */
+async function resolveImageUsageModel(): Promise<{ provider: string; model: string }> {
+  const config = await getImageApiConfig();
+  const model = getProvider('image', config.provider).usageModel(config, 'generate');
+  return { provider: config.provider, model: model || 'unknown' };
+}
 
-        if (avatarPath) {
-          characterReferences.push({ name: character.name, avatarPath });
-        }
-      }
-    }
-  }
+/**
+ * 获取当前视频服务商用于计费的模型和单个视频时长
+ */
+async function resolveVideoUsageModel(): Promise<{ provider: string; model: string; videoSeconds: number }> {
+  const config = await getVideoApiConfig();
+  return { provider: config.provider, ...getProvider('video', config.provider).usage(config) };
+}
 
-  console.log('[AI Service] 最终收集到的参考图数量:', characterReferences.length);
-  console.log('[AI Service] 参考角色列表:', characterReferences.map(r => `${r.name}: ${r.avatarPath}`));
-  console.log('[AI Service] ==========================================');
+/**
+ * 按当前模型配置估算批量生成费用（元）
+ */
+export async function estimateGenerationCost(imageCount: number, videoCount: number): Promise<number> {
+  let cost = 0;
 
-  // 6. 镜头和情绪信息
-  if (shot.cameraType) {
-    prompt += `\n\n镜头类型: ${shot.cameraType}`;
+  if (imageCount > 0) {
+    const image = await resolveImageUsageModel();
+    cost += await estimateUsageCost({ kind: 'image', ...image, imageCount });
   }
-  if (shot.mood) {
-    prompt += `\n情绪氛围: ${shot.mood}`;
-  }
-
-  // 7. 应用风格提示词
-  const styledPrompt = applyStyleToImagePrompt(prompt, styleId);
-
-  onProgress?.(20);
-
-  // 调用图像生成 API（根据是否有参考图选择不同方法）
-  const config = await getImageApiConfig();
-  let imageBuffer: Buffer;
 
-  // 如果是阿里云且有角色参考图，使用图片编辑模型（支持多张参考图）
-  if (config.provider === 'aliyun' && characterReferences.length > 0) {
-    imageBuffer = await generateImageWithMultipleReferences(styledPrompt, characterReferences, styleId);
-  } else {
-    imageBuffer = await generateImage(styledPrompt, styleId);
+  if (videoCount > 0) {
+    const video = await resolveVideoUsageModel();
+    cost += (await estimateUsageCost({ kind: 'video', ...video })) * videoCount;
   }
 
-  onProgress?.(80);
-
-  // 保存图像
-  const filename = `shot_${shot.index}_${Date.now()}.png`;
-  const imagePath = saveProjectFile(shot.projectId, 'images', filename, imageBuffer);
+  return cost;
+}
 
-  // 更新分镜
-  await updateShot(shotId, {
-    imagePath,
-    status: 'ready',
+/**
+ * 记录图像生成用量
+ * @param model 实际使用的模型（不传时按当前图像服务商配置推断）
+ * @returns 记录的模型名称
+ */
+async function recordImageUsage(projectId: string, shotId: string | null, model?: string, imageCount = 1): Promise<string> {
+  const usage = await resolveImageUsageModel();
+  const usedModel = model || usage.model;
+
+  await recordUsage({
+    kind: 'image',
+    provider: usage.provider,
+    model: usedModel,
+    projectId,
+    shotId,
+    imageCount,
   });
 
-  onProgress?.(100);
-
-  return imagePath;
+  return usedModel;
 }
 
 /**
- * 编辑/修改分镜图像
- * 基于原图和提示词进行修改
+ * 获取角色的参考图：选中的头像和最新的三视图（正面、侧面、背面）
  */
-export async function editShotImage(
-  shotId: string,
+function getCharacterReferenceImages(character: {
+  avatarPath: string | null;
+  generatedAvatars: string[] | null;
+}): Partial<Record<CharacterView, string>> {
+  const generated = character.generatedAvatars || [];
+  const images: Partial<Record<CharacterView, string>> = {};
+
+  const avatar = character.avatarPath || generated[0];
+  if (avatar) images.avatar = avatar;
+
+  for (const view of ['front', 'side', 'back'] as const) {
+    // 同一视角可能生成多次，使用最新的一张；已作为头像的不重复使用
+    const matches = generated.filter(p => p.includes(`view_${view}`) && p !== avatar);
+    if (matches.length > 0) images[view] = matches[matches.length - 1];
+  }
+  return images;
+}
+
+/**
+ * 根据镜头类型确定角色参考图的视角优先级
+ * 特写以面部为主，近景为胸部以上、面部和正面并重，全景/远景以全身三视图为主
+ */
+function getViewPriority(cameraType: string | null): CharacterView[] {
+  const type = (cameraType || '').toLowerCase();
+  if (['特写', '大特写', 'close', 'close-up', 'extreme_close', 'pov', '主观'].includes(type)) {
+    return ['avatar', 'front', 'side'];
+  }
+  if (['过肩', 'over-shoulder'].includes(type)) {
+    return ['back', 'front', 'avatar', 'side'];
+  }
+  if (['近景', 'medium_close', 'medium-close'].includes(type)) {
+    return ['avatar', 'front', 'side', 'back'];
+  }
+  if (['中景', 'medium'].includes(type)) {
+    return ['front', 'avatar', 'side', 'back'];
+  }
+  if (['全景', '远景', 'wide', 'extreme_wide'].includes(type)) {
+    return ['front', 'side', 'back', 'avatar'];
+  }
+  return ['avatar', 'front', 'side', 'back'];
+}
+
+/**
+ * 组装分镜参考图：每个角色按镜头类型选出的最佳视角优先，其次为场景参考图，
+ * 然后依次补充各角色的其他视角，超出服务商上限的部分不使用
+ * 不存在的图片文件在截取前排除，保证返回的参考图即实际发送的参考图
+ */
+function buildShotReferenceBundle(
+  characterImages: Array<{ name: string; images: Partial<Record<CharacterView, string>> }>,
+  sceneReference: { name: string; imagePath: string } | null,
+  cameraType: string | null,
+  maxImages?: number
+): ImageReference[] {
+  const priority = getViewPriority(cameraType);
+  const perCharacter = characterImages.map(({ name, images }) =>
+    priority
+      .filter(view => images[view] && existsSync(images[view]!))
+      .map(view => ({ name, imagePath: images[view]!, role: 'character' as const, view }))
+  );
+
+  const bundle: ImageReference[] = perCharacter.flatMap(refs => refs.slice(0, 1));
+  if (sceneReference && existsSync(sceneReference.imagePath)) {
+    bundle.push({ ...sceneReference, role: 'scene' });
+  }
+  const rounds = Math.max(0, ...perCharacter.map(refs => refs.length));
+  for (let round = 1; round < rounds; round++) {
+    for (const refs of perCharacter) {
+      if (refs[round]) bundle.push(refs[round]);
+    }
+  }
+
+  return maxImages ? bundle.slice(0, maxImages) : bundle;
+}
+
+/**
+ * 获取分镜中的所有角色：优先使用 characterIds（多角色），回退到 characterId（单角色兼容），
+ * 并补充说话角色和对话对象
+ */
+async function getShotCharacters(shot: ShotData): Promise<CharacterData[]> {
+  const ids = [
+    ...(shot.characterIds || (shot.characterId ? [shot.characterId] : [])),
+    shot.speakerId,
+    shot.targetCharacterId,
+  ].filter((id): id is string => !!id);
+
+  const characters: CharacterData[] = [];
+  for (const id of new Set(ids)) {
+    const character = await getCharacter(id);
+    if (character) {
+      characters.push(character);
+    } else {
+      console.log(`[AI Service] ✗ 分镜角色不存在: ${id}`);
+    }
+  }
+  return characters;
+}
+
+/**
+ * 构建分镜提示词模板变量：分镜字段、所属场景、角色外貌（应用风格）、说话角色和对话对象
+ */
+function buildShotPromptVariables(
+  shot: ShotData,
+  scene: SceneData | null,
+  characters: CharacterData[],
+  styleId: string
+): PromptTemplateVariables {
+  const speaker = characters.find(c => c.id === shot.speakerId);
+  const target = characters.find(c => c.id === shot.targetCharacterId);
+
+  return {
+    'shot.description': shot.description,
+    'shot.action': shot.action,
+    'shot.props': shot.props,
+    'shot.location': shot.location,
+    'shot.timeOfDay': shot.timeOfDay,
+    'shot.cameraType': shot.cameraType,
+    'shot.mood': shot.mood,
+    'shot.dialogue': shot.dialogue,
+    'scene.name': scene?.name,
+    'scene.description': scene?.description,
+    characters: characters
+      .filter(c => c.appearance)
+      .map(c => `角色【${c.name}】: ${applyStyleToCharacterDescription(c.appearance!, styleId)}`)
+      .join('\n\n'),
+    'speaker.name': speaker?.name,
+    'target.name': target?.name,
+  };
+}
+
+/**
+ * 应用分镜的提示词覆盖：replace 替换模板组装的提示词，append 追加到其后（风格仍在之后套用）
+ */
+function applyShotPromptOverride(shot: ShotData, kind: 'image' | 'video', prompt: string): string {
+  const override = (kind === 'image' ? shot.imagePromptOverride : shot.videoPromptOverride)?.trim();
+  if (!override) return prompt;
+  return shot.promptOverrideMode === 'replace' ? override : `${prompt}\n\n${override}`;
+}
+
+/**
+ * 选择分镜图像生成使用的参考图（服务商不支持多参考图时不使用参考图）
+ */
+function selectShotImageReferences(
+  adapter: ImageProviderAdapter,
+  characterImages: Array<{ name: string; images: Partial<Record<CharacterView, string>> }>,
+  sceneReference: { name: string; imagePath: string } | null,
+  cameraType: string | null
+): ImageReference[] {
+  if (!adapter.capabilities.multiReference || !adapter.generateWithReferences) return [];
+  return buildShotReferenceBundle(characterImages, sceneReference, cameraType, adapter.capabilities.maxReferenceImages);
+}
+
+/**
+ * 选择分镜视频生成使用的角色参考图（首帧图已包含场景，只使用角色）
+ * @param capabilities 服务商在当前模型下的能力
+ */
+function selectShotVideoReferences(
+  capabilities: ProviderCapabilities,
+  characterImages: Array<{ name: string; images: Partial<Record<CharacterView, string>> }>,
+  cameraType: string | null
+): ImageReference[] {
+  if (!capabilities.multiReference) return [];
+  return buildShotReferenceBundle(characterImages, null, cameraType, capabilities.maxReferenceImages);
+}
+
+/**
+ * 使用提示词模板组装分镜提示词并应用风格
+ * @param templateContent 指定模板内容（用于编辑模板时预览），不传时使用生效的模板
+ */
+async function assembleShotPrompt(
+  shot: ShotData,
+  kind: 'image' | 'video',
+  styleId: string,
+  templateContent?: string
+): Promise<{ styledPrompt: string; scene: SceneData | null; characters: CharacterData[] }> {
+  const scene = shot.sceneId ? await getScene(shot.sceneId) : null;
+  const characters = await getShotCharacters(shot);
+
+  const templateKey = kind === 'image' ? 'shot_image' : 'shot_video';
+  const template = templateContent ?? await getPromptTemplate(templateKey, shot.projectId);
+  let prompt = renderPromptTemplate(template, buildShotPromptVariables(shot, scene, characters, styleId));
+
+  // 预览模板时只展示模板本身的效果，不应用分镜的提示词覆盖
+  if (templateContent === undefined) {
+    prompt = applyShotPromptOverride(shot, kind, prompt);
+  }
+
+  const styledPrompt = kind === 'image'
+    ? applyStyleToImagePrompt(prompt, styleId)
+    : applyStyleToVideoPrompt(prompt, styleId);
+  return { styledPrompt, scene, characters };
+}
+
+/**
+ * 收集角色的参考图（头像和三视图）
+ */
+function collectCharacterImages(
+  characters: CharacterData[]
+): Array<{ name: string; images: Partial<Record<CharacterView, string>> }> {
+  const result: Array<{ name: string; images: Partial<Record<CharacterView, string>> }> = [];
+  for (const character of characters) {
+    const images = getCharacterReferenceImages(character);
+    if (Object.keys(images).length > 0) {
+      result.push({ name: character.name, images });
+    } else {
+      console.log(`[AI Service] ✗ 角色【${character.name}】没有任何头像`);
+    }
+  }
+  return result;
+}
+
+/**
+ * 生成分镜图像
+ * 使用完整的场景信息、角色参考图和项目风格
+ * 支持多角色
+ */
+export async function generateShotImage(
+  shotId: string,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<string> {
+  const shot = await getShot(shotId);
+  if (!shot) throw new Error('分镜不存在');
+
+  onProgress?.(10);
+
+  // 获取项目风格
+  const project = await getProject(shot.projectId);
+  const styleId = project?.styleId || 'animation_anime_2d';
+
+  // 使用提示词模板组装场景、画面、角色和镜头信息，并应用风格 - 支持多角色
+  const { styledPrompt, scene, characters: shotCharacters } = await assembleShotPrompt(shot, 'image', styleId);
+  const negativePrompt = await resolveNegativePrompt(shot.projectId, styleId, shot.negativePrompt);
+
+  // 选中的场景参考图用于保持场景一致性
+  const sceneReference = scene?.imagePath ? { name: scene.name, imagePath: scene.imagePath } : null;
+
+  // 收集角色头像和三视图作为参考图（包含角色名）
+  const characterImages = collectCharacterImages(shotCharacters);
+
+  onProgress?.(20);
+
+  // 调用图像生成 API（根据是否有参考图选择不同方法）
+  const config = await getImageApiConfig();
+  const adapter = getProvider('image', config.provider);
+  let result: ImageGenerationResult;
+  let model: string;
+
+  const usedReferences = selectShotImageReferences(adapter, characterImages, sceneReference, shot.cameraType);
+  console.log('[AI Service] 参考图:', usedReferences.map(r => `${r.name}(${r.view || r.role})`).join(', ') || '无');
+
+  const request = buildImageProviderRequest(adapter.capabilities, styledPrompt, negativePrompt, usedReferences);
+
+  // 服务商支持多参考图且有角色或场景参考图时，使用参考图生成
+  if (adapter.generateWithReferences && usedReferences.length > 0) {
+    result = await adapter.generateWithReferences(config, { ...request, references: usedReferences, signal });
+    model = await recordImageUsage(shot.projectId, shotId, adapter.usageModel(config, 'reference'));
+  } else {
+    result = await adapter.generate(config, { ...request, signal });
+    model = await recordImageUsage(shot.projectId, shotId);
+  }
+
+  // 取消后不再写入分镜
+  throwIfAborted(signal);
+
+  onProgress?.(80);
+
+  // 保存图像
+  const filename = `shot_${shot.index}_${Date.now()}.png`;
+  const imagePath = saveProjectFile(shot.projectId, 'images', filename, result.buffer);
+
+  // 更新分镜并保留本次生成的版本
+  await updateShot(shotId, {
+    imagePath,
+    status: 'ready',
+  });
+  await addShotAsset({
+    shotId,
+    projectId: shot.projectId,
+    kind: 'image',
+    path: imagePath,
+    prompt: styledPrompt,
+    model,
+    params: {
+      provider: config.provider,
+      styleId,
+      imageSize: config.imageSize,
+      aspectRatio: config.imageAspectRatio,
+      // 实际使用的参考图
+      references: usedReferences.map(r => ({ name: r.name, role: r.role, view: r.view ?? null, imagePath: r.imagePath })),
+      negativePrompt,
+      // 服务商返回的实际种子和采样参数（本地 SD）
+      seed: result.seed ?? null,
+      sampling: result.sampling ?? null,
+    },
+  });
+
+  onProgress?.(100);
+
+  return imagePath;
+}
+
+/**
+ * 编辑/修改分镜图像
+ * 基于原图和提示词进行修改
+ */
+export async function editShotImage(
+  shotId: string,
   prompt: string,
   onProgress?: ProgressCallback
 ): Promise<string> {
@@ -593,107 +1147,144 @@ export async function editShotImage(
   onProgress?.(20);
 
   const config = await getImageApiConfig();
-  let imageBuffer: Buffer;
-
-  // 根据不同服务商选择编辑逻辑
-  if (config.provider === 'aliyun') {
-    // 阿里云使用 qwen-image-edit-plus
-    imageBuffer = await callAliyunImageEdit(
-      config.baseUrl,
-      config.apiKey,
-      styledPrompt,
-      shot.imagePath,
-      config.imageEditModel
-    );
-  } else if (config.provider === 'apiyi') {
-    // API易 (Nano Banana Pro) 支持图生图/编辑
-    imageBuffer = await callApiyiImageEdit(
-      config.baseUrl,
-      config.apiKey,
-      styledPrompt,
-      shot.imagePath,
-      config.imageEditModel || config.imageModel // 优先使用编辑模型，否则使用生成模型
-    );
-  } else {
-    // 其他服务尝试使用 DALL-E 编辑接口或回退到普通生成
-    // 暂时回退到普通生成
+  const adapter = getProvider('image', config.provider);
+
+  // 服务商不支持图片编辑时回退到重新生成
+  if (!adapter.capabilities.edit || !adapter.edit) {
     console.warn('[AI Service] 该服务商暂不支持图片编辑，回退到重新生成');
     return await generateShotImage(shotId, onProgress);
   }
 
+  const negativePrompt = await resolveNegativePrompt(shot.projectId, styleId, shot.negativePrompt);
+  const result = await adapter.edit(config, {
+    ...withNegativePrompt(adapter.capabilities, styledPrompt, negativePrompt),
+    imagePath: shot.imagePath,
+  });
+  const model = await recordImageUsage(shot.projectId, shotId, adapter.usageModel(config, 'edit'));
+
   onProgress?.(80);
 
   // 保存图像 (覆盖原图或创建新图? 这里选择创建新图并更新引用)
   const filename = `shot_${shot.index}_edit_${Date.now()}.png`;
-  const imagePath = saveProjectFile(shot.projectId, 'images', filename, imageBuffer);
+  const imagePath = saveProjectFile(shot.projectId, 'images', filename, result.buffer);
 
-  // 更新分镜
+  // 更新分镜并保留本次编辑的版本
   await updateShot(shotId, {
     imagePath,
     status: 'ready',
   });
+  await addShotAsset({
+    shotId,
+    projectId: shot.projectId,
+    kind: 'image',
+    path: imagePath,
+    prompt: styledPrompt,
+    model,
+    params: {
+      provider: config.provider,
+      styleId,
+      editedFrom: shot.imagePath,
+      negativePrompt,
+      seed: result.seed ?? null,
+      sampling: result.sampling ?? null,
+    },
+  });
 
   onProgress?.(100);
 
   return imagePath;
 }
 
+/**
+ * 获取负面提示词：分镜设置优先，其次为项目设置，最后使用风格默认值
+ */
+async function resolveNegativePrompt(
+  projectId: string,
+  styleId: string,
+  shotNegativePrompt?: string | null
+): Promise<string> {
+  if (shotNegativePrompt?.trim()) return shotNegativePrompt.trim();
+
+  const { negativePrompt } = await getProjectSettings(projectId);
+  if (negativePrompt?.trim()) return negativePrompt.trim();
+
+  return getStyleNegativePrompt(styleId);
+}
+
+/**
+ * 构建带负面提示词的请求：服务商支持时单独传递，否则并入提示词
+ */
+function withNegativePrompt(
+  capabilities: ProviderCapabilities,
+  prompt: string,
+  negativePrompt?: string
+): { prompt: string; negativePrompt?: string } {
+  if (!negativePrompt) return { prompt };
+  if (capabilities.negativePrompt) return { prompt, negativePrompt };
+  return { prompt: `${prompt}\n\n画面中避免出现: ${negativePrompt}` };
+}
+
+/**
+ * 组装发送给图像服务商的最终提示词：有参考图时加入各参考图的说明，否则做基础增强，
+ * 服务商不支持负面提示词时并入提示词（生成和提示词预览共用）
+ * @param prompt 提示词（已应用风格）
+ */
+function buildImageProviderRequest(
+  capabilities: ProviderCapabilities,
+  prompt: string,
+  negativePrompt: string | undefined,
+  references: ImageReference[]
+): { prompt: string; negativePrompt?: string } {
+  // 提示词已经包含风格信息，这里只做基础增强
+  const finalPrompt = references.length > 0
+    ? buildReferencePrompt(prompt, references)
+    : `高质量画面，专业灯光，${prompt}`;
+  return withNegativePrompt(capabilities, finalPrompt, negativePrompt);
+}
+
 /**
  * 调用图像生成 API
  * @param prompt 提示词（已应用风格）
- * @param styleId 风格ID（用于获取负面提示词）
+ * @param negativePrompt 负面提示词
  */
-async function generateImage(prompt: string, styleId?: string): Promise<Buffer> {
+async function generateImage(prompt: string, negativePrompt?: string, signal?: AbortSignal): Promise<Buffer> {
   const config = await getImageApiConfig();
-  // 获取负面提示词（后续可用于支持的 API）
-  const _negativePrompt = styleId ? getStyleNegativePrompt(styleId) : '';
-  void _negativePrompt; // 保留变量，后续 API 支持时使用
+  const adapter = getProvider('image', config.provider);
 
-  // 提示词已经包含风格信息，这里只做基础增强
-  const enhancedPrompt = `高质量画面，专业灯光，${prompt}`;
-
-  if (config.provider === 'official') {
-    return await callGeminiImage(config.geminiApiKey!, enhancedPrompt);
-  } else if (config.provider === 'aliyun') {
-    // 阿里云使用通义万相
-    return await callAliyunImage(
-      config.baseUrl,
-      config.apiKey,
-      enhancedPrompt,
-      config.imageModel,
-      config.imageAspectRatio,
-      config.imageSize
-    );
-  } else if (config.provider === 'apiyi') {
-    // API易 使用 Google native format 图像生成
-    return await callApiyiImage(
-      config.baseUrl,
-      config.apiKey,
-      enhancedPrompt,
-      config.imageModel,
-      config.imageAspectRatio,
-      config.imageSize
-    );
-  } else {
-    // 通用聚合 API 使用 DALL-E 格式
-    return await callAggregatorImage(config.baseUrl!, config.apiKey!, enhancedPrompt);
-  }
+  const result = await adapter.generate(config, {
+    ...buildImageProviderRequest(adapter.capabilities, prompt, negativePrompt, []),
+    signal,
+  });
+  return result.buffer;
+}
+
+/** Gemini 请求中的内联图片 */
+interface GeminiInlinePart {
+  inlineData: { mimeType: string; data: string };
 }
 
 /**
  * Gemini 官方图像生成
+ * @param referenceParts 参考图（内联图片），放在提示词之前
  */
-async function callGeminiImage(apiKey: string, prompt: string): Promise<Buffer> {
+export async function callGeminiImage(
+  apiKey: string,
+  prompt: string,
+  signal?: AbortSignal,
+  referenceParts: GeminiInlinePart[] = []
+): Promise<Buffer> {
   const url = `https://generativelanguage.googleapis.com/v1/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`;
 
   const response = await fetch(url, {
+    signal,
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       contents: [{
-        parts: [{
-          text: `Generate an image: ${prompt}`,
-        }],
+        parts: [
+          ...referenceParts,
+          { text: `Generate an image: ${prompt}` },
+        ],
       }],
       generationConfig: {
         responseModalities: ['image', 'text'],
@@ -703,7 +1294,7 @@ async function callGeminiImage(apiKey: string, prompt: string): Promise<Buffer>
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Gemini Image API 错误: ${response.status} - ${error}`);
+    throw createApiError(response.status, `Gemini Image API 错误: ${response.status} - ${error}`);
   }
 
   const data = await response.json();
@@ -718,22 +1309,44 @@ async function callGeminiImage(apiKey: string, prompt: string): Promise<Buffer>
   return Buffer.from(imagePart.inlineData.data, 'base64');
 }
 
+/**
+ * Gemini 官方使用参考图生成图像（角色头像、三视图和场景参考图作为内联图片）
+ */
+export async function callGeminiImageWithReferences(
+  apiKey: string,
+  prompt: string,
+  references: ImageReference[],
+  signal?: AbortSignal
+): Promise<Buffer> {
+  const loaded = await loadReferenceImages(references, GEMINI_FLASH_MAX_REFERENCE_IMAGES);
+  if (loaded.length === 0) {
+    console.warn('[AI Service] 没有有效的参考图，回退到普通生成');
+    return await callGeminiImage(apiKey, prompt, signal);
+  }
+  return await callGeminiImage(apiKey, prompt, signal, toGeminiInlineParts(loaded));
+}
+
 /**
  * API易 图像生成 (Google native format)
  * 支持自定义分辨率和宽高比
  */
-async function callApiyiImage(
+export async function callApiyiImage(
   baseUrl: string,
   apiKey: string,
   prompt: string,
   model = 'gemini-3-pro-image-preview',
   aspectRatio = '16:9',
-  imageSize = '2K'
+  imageSize = '2K',
+  signal?: AbortSignal,
+  referenceParts: GeminiInlinePart[] = []
 ): Promise<Buffer> {
   const url = `${baseUrl}/v1beta/models/${model}:generateContent`;
 
   console.log('[AI Service] 图像生成请求:', url);
   console.log('[AI Service] 图像模型:', model);
+  if (referenceParts.length > 0) {
+    console.log('[AI Service] 参考图数量:', referenceParts.length);
+  }
 
   let response: { ok: boolean; status: number; text: () => Promise<string>; json: () => Promise<any> };
   try {
@@ -745,9 +1358,10 @@ async function callApiyiImage(
       },
       body: JSON.stringify({
         contents: [{
-          parts: [{
-            text: prompt,
-          }],
+          parts: [
+            ...referenceParts,
+            { text: prompt },
+          ],
         }],
         generationConfig: {
           responseModalities: ['IMAGE'],
@@ -758,8 +1372,10 @@ async function callApiyiImage(
         },
       }),
       timeout: 180000, // 3分钟超时，图像生成可能较慢
+      signal,
     });
   } catch (error) {
+    throwIfAborted(signal);
     const message = error instanceof Error ? error.message : '未知错误';
     console.error('[AI Service] 图像生成请求失败:', message);
     if (message.includes('超时')) {
@@ -773,7 +1389,7 @@ async function callApiyiImage(
   if (!response.ok) {
     const error = await response.text();
     console.error('[AI Service] 图像生成错误响应:', error);
-    throw new Error(parseApiError(`API易 图像生成错误: ${response.status} - ${error}`));
+    throw createApiError(response.status, `API易 图像生成错误: ${response.status} - ${error}`, parseApiError);
   }
 
   const data = await response.json();
@@ -790,11 +1406,36 @@ async function callApiyiImage(
   return Buffer.from(imagePart.inlineData.data, 'base64');
 }
 
+/**
+ * API易 使用参考图生成图像 (Google native format，参考图作为内联图片)
+ */
+export async function callApiyiImageWithReferences(
+  config: ImageProviderConfig,
+  prompt: string,
+  references: ImageReference[],
+  signal?: AbortSignal
+): Promise<Buffer> {
+  const loaded = await loadReferenceImages(references, GEMINI_MAX_REFERENCE_IMAGES);
+  if (loaded.length === 0) {
+    console.warn('[AI Service] 没有有效的参考图，回退到普通生成');
+  }
+  return await callApiyiImage(
+    config.baseUrl!,
+    config.apiKey!,
+    prompt,
+    config.imageModel,
+    config.imageAspectRatio,
+    config.imageSize,
+    signal,
+    toGeminiInlineParts(loaded)
+  );
+}
+
 /**
  * API易 图像编辑 (Google native format)
  * 将原图作为输入的一部分
  */
-async function callApiyiImageEdit(
+export async function callApiyiImageEdit(
   baseUrl: string,
   apiKey: string,
   prompt: string,
@@ -851,7 +1492,7 @@ async function callApiyiImageEdit(
   if (!response.ok) {
     const error = await response.text();
     console.error('[AI Service] 图像编辑错误响应:', error);
-    throw new Error(parseApiError(`API易 图像编辑错误: ${response.status} - ${error}`));
+    throw createApiError(response.status, `API易 图像编辑错误: ${response.status} - ${error}`, parseApiError);
   }
 
   const data = await response.json();
@@ -872,13 +1513,15 @@ async function callApiyiImageEdit(
  * 使用 DashScope 同步接口 (推荐)
  * 文档: https://help.aliyun.com/zh/model-studio/qwen-image
  */
-async function callAliyunImage(
+export async function callAliyunImage(
   baseUrl: string,
   apiKey: string,
   prompt: string,
   model = 'qwen-image-plus',
   aspectRatio = '16:9',
-  _imageSize = '2K' // 阿里云 Qwen-Image 使用固定尺寸，此参数保留以保持接口一致性
+  _imageSize = '2K', // 阿里云 Qwen-Image 使用固定尺寸，此参数保留以保持接口一致性
+  signal?: AbortSignal,
+  negativePrompt?: string
 ): Promise<Buffer> {
   // 转换宽高比为阿里云支持的尺寸
   // 支持的尺寸: 1664*928(16:9), 1472*1140(4:3), 1328*1328(1:1), 1140*1472(3:4), 928*1664(9:16)
@@ -923,11 +1566,14 @@ async function callAliyunImage(
           size,
           prompt_extend: true,
           watermark: false,
+          ...(negativePrompt ? { negative_prompt: negativePrompt } : {}),
         },
       }),
       timeout: 180000, // 3分钟超时
+      signal,
     });
   } catch (error) {
+    throwIfAborted(signal);
     const message = error instanceof Error ? error.message : '未知错误';
     console.error('[AI Service] 阿里云图像生成请求失败:', message);
     throw new Error(`阿里云图像生成网络请求失败: ${message}`);
@@ -936,7 +1582,7 @@ async function callAliyunImage(
   if (!response.ok) {
     const error = await response.text();
     console.error('[AI Service] 阿里云图像生成错误响应:', error);
-    throw new Error(parseApiError(`阿里云图像生成错误: ${response.status} - ${error}`));
+    throw createApiError(response.status, `阿里云图像生成错误: ${response.status} - ${error}`, parseApiError);
   }
 
   const data = await response.json();
@@ -952,19 +1598,20 @@ async function callAliyunImage(
   console.log('[AI Service] 阿里云图像URL:', imageUrl);
 
   // 下载图像 - 使用带重试的下载函数
-  return await downloadImageWithRetry(imageUrl);
+  return await downloadImageWithRetry(imageUrl, signal);
 }
 
 /**
  * 阿里云图像编辑 (qwen-image-edit-plus)
  * 用于修改已生成的图片
  */
-async function callAliyunImageEdit(
+export async function callAliyunImageEdit(
   baseUrl: string,
   apiKey: string,
   prompt: string,
   imagePath: string,
-  model = 'qwen-image-edit-plus'
+  model = 'qwen-image-edit-plus',
+  negativePrompt?: string
 ): Promise<Buffer> {
   const url = `${baseUrl}/services/aigc/multimodal-generation/generation`;
 
@@ -1006,6 +1653,7 @@ async function callAliyunImageEdit(
           // 但根据文档可能需要 size 参数，这里暂时省略，让其自适应或使用默认
           n: 1,
           watermark: false,
+          ...(negativePrompt ? { negative_prompt: negativePrompt } : {}),
         },
       }),
       timeout: 180000,
@@ -1019,7 +1667,7 @@ async function callAliyunImageEdit(
   if (!response.ok) {
     const error = await response.text();
     console.error('[AI Service] 阿里云图像编辑错误响应:', error);
-    throw new Error(parseApiError(`阿里云图像编辑错误: ${response.status} - ${error}`));
+    throw createApiError(response.status, `阿里云图像编辑错误: ${response.status} - ${error}`, parseApiError);
   }
 
   const data = await response.json();
@@ -1032,61 +1680,139 @@ async function callAliyunImageEdit(
   return await downloadImageWithRetry(imageUrl);
 }
 
+/** 已读取的参考图 */
+interface LoadedReference extends ImageReference {
+  mimeType: string;
+  data: string; // Base64
+}
+
+const REFERENCE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.bmp': 'image/bmp',
+  '.tiff': 'image/tiff',
+  '.webp': 'image/webp',
+};
+
 /**
- * 使用多张参考图生成图像（支持多角色）
- * @param prompt 提示词
- * @param characterReferences 角色参考信息数组，包含名字和图片路径
- * @param styleId 风格ID
+ * 按顺序读取参考图（跳过不存在的文件），最多读取 maxImages 张
  */
-async function generateImageWithMultipleReferences(
-  prompt: string,
-  characterReferences: Array<{ name: string; avatarPath: string }>,
-  styleId?: string
-): Promise<Buffer> {
-  const config = await getImageApiConfig();
+async function loadReferenceImages(references: ImageReference[], maxImages: number): Promise<LoadedReference[]> {
+  const fs = await import('fs');
+  const path = await import('path');
 
-  if (config.provider !== 'aliyun') {
-    // 非阿里云，回退到普通生成
-    return await generateImage(prompt, styleId);
+  const loaded: LoadedReference[] = [];
+  for (const ref of references) {
+    if (loaded.length >= maxImages) break;
+    if (!fs.existsSync(ref.imagePath)) {
+      console.warn('[AI Service] 参考图不存在，跳过:', ref.name, ref.imagePath);
+      continue;
+    }
+    loaded.push({
+      ...ref,
+      mimeType: REFERENCE_MIME_TYPES[path.extname(ref.imagePath).toLowerCase()] || 'image/png',
+      data: fs.readFileSync(ref.imagePath).toString('base64'),
+    });
   }
 
-  const fs = await import('fs');
-  const path = await import('path');
+  if (loaded.length < references.length) {
+    console.log(`[AI Service] 参考图 ${references.length} 张，实际使用 ${loaded.length} 张`);
+  }
+  return loaded;
+}
 
-  // 准备所有参考图的 Base64 数据
-  const imageContents: Array<{ image: string }> = [];
-  const validReferences: Array<{ name: string; path: string }> = [];
+const CHARACTER_VIEW_LABELS: Record<CharacterView, string> = {
+  avatar: '头像',
+  front: '正面',
+  side: '侧面',
+  back: '背面',
+};
 
-  for (const ref of characterReferences) {
-    if (!fs.existsSync(ref.avatarPath)) {
-      console.warn('[AI Service] 参考图不存在，跳过:', ref.name, ref.avatarPath);
-      continue;
+/**
+ * 构建参考图提示词，指明每张参考图对应的角色（及视角）和场景
+ */
+function buildReferencePrompt(prompt: string, references: ImageReference[]): string {
+  // 同一角色可能有多张参考图（头像、三视图）
+  const characterIndexes = new Map<string, string[]>();
+  const refParts: string[] = [];
+  references.forEach((ref, i) => {
+    if (ref.role === 'character') {
+      const label = ref.view ? `${i + 1}（${CHARACTER_VIEW_LABELS[ref.view]}）` : `${i + 1}`;
+      characterIndexes.set(ref.name, [...(characterIndexes.get(ref.name) || []), label]);
+    } else {
+      refParts.push(`参考图${i + 1}是场景【${ref.name}】的环境参考`);
     }
+  });
+  const characterParts = Array.from(characterIndexes, ([name, indexes]) =>
+    `参考图${indexes.join('、')}中的角色是【${name}】`
+  );
+  const refDescription = [...characterParts, ...refParts].join('，');
+
+  const characterNames = Array.from(characterIndexes.keys());
+  const hasScene = refParts.length > 0;
+
+  const requirements: string[] = [];
+  let enhancedPrompt: string;
+  if (characterNames.length > 0) {
+    // 构建增强的提示词，更明确地要求包含所有角色
+    requirements.push(
+      '每个角色的外貌必须严格按照对应参考图中的形象',
+      `所有角色（${characterNames.join('、')}）都必须出现在生成的画面中`,
+      '保持各角色的外貌特征、发型、服装等与参考图一致'
+    );
+    enhancedPrompt = `${refDescription}。
 
-    const imageBuffer = fs.readFileSync(ref.avatarPath);
-    const ext = path.extname(ref.avatarPath).toLowerCase();
+请根据以下场景描述生成图像，画面中必须同时出现${characterNames.map(name => `【${name}】`).join('和')}：
 
-    const mimeTypes: Record<string, string> = {
-      '.jpg': 'image/jpeg',
-      '.jpeg': 'image/jpeg',
-      '.png': 'image/png',
-      '.bmp': 'image/bmp',
-      '.tiff': 'image/tiff',
-      '.webp': 'image/webp',
-    };
-    const mimeType = mimeTypes[ext] || 'image/png';
-    const base64Image = `data:${mimeType};base64,${imageBuffer.toString('base64')}`;
+${prompt}`;
+  } else {
+    enhancedPrompt = `${refDescription}。
 
-    imageContents.push({ image: base64Image });
-    validReferences.push({ name: ref.name, path: ref.avatarPath });
+请根据以下场景描述生成图像：
+
+${prompt}`;
+  }
+  if (hasScene) {
+    requirements.push('场景的空间布局、主要陈设、光线和色调与场景参考图保持一致');
   }
 
+  return `${enhancedPrompt}
+
+重要要求：
+${requirements.map((r, i) => `${i + 1}. ${r}`).join('\n')}`;
+}
+
+/**
+ * 转换为 Gemini 格式的内联图片
+ */
+function toGeminiInlineParts(references: LoadedReference[]): GeminiInlinePart[] {
+  return references.map(ref => ({ inlineData: { mimeType: ref.mimeType, data: ref.data } }));
+}
+
+/**
+ * 阿里云使用多张参考图生成图像（支持多角色和场景参考图）
+ * @param prompt 提示词
+ * @param references 参考图列表（按优先级排序，超出上限的部分不使用）
+ * @param negativePrompt 负面提示词
+ */
+export async function callAliyunImageWithReferences(
+  config: ImageProviderConfig,
+  prompt: string,
+  references: ImageReference[],
+  negativePrompt?: string,
+  signal?: AbortSignal
+): Promise<Buffer> {
+  const loaded = await loadReferenceImages(references, ALIYUN_MAX_REFERENCE_IMAGES);
+
   // 如果没有有效的参考图，回退到普通生成
-  if (imageContents.length === 0) {
+  if (loaded.length === 0) {
     console.warn('[AI Service] 没有有效的参考图，回退到普通生成');
-    return await generateImage(prompt, styleId);
+    return await generateImage(prompt, negativePrompt, signal);
   }
 
+  const imageContents = loaded.map(ref => ({ image: `data:${ref.mimeType};base64,${ref.data}` }));
+
   // 转换宽高比为阿里云支持的尺寸
   const aspectRatio = config.imageAspectRatio || '16:9';
   const sizeMap: Record<string, string> = {
@@ -1102,40 +1828,14 @@ async function generateImageWithMultipleReferences(
 
   console.log('[AI Service] 阿里云多参考图编辑请求:', url);
   console.log('[AI Service] 使用模型: qwen-image-edit-plus');
-  console.log('[AI Service] 参考图数量:', imageContents.length);
-  console.log('[AI Service] 参考角色:', validReferences.map(r => r.name).join(', '));
-  console.log('[AI Service] 风格:', styleId);
-
-  // 构建更明确的提示词，指明每个参考图对应的角色
-  let refDescription = '';
-  if (validReferences.length === 1) {
-    refDescription = `参考图1中的角色是【${validReferences[0].name}】`;
-  } else {
-    const refParts = validReferences.map((ref, i) =>
-      `参考图${i + 1}中的角色是【${ref.name}】`
-    );
-    refDescription = refParts.join('，');
-  }
-
-  // 构建增强的提示词，更明确地要求包含所有角色
-  const characterNames = validReferences.map(r => `【${r.name}】`).join('和');
-  const enhancedPrompt = `${refDescription}。
-
-请根据以下场景描述生成图像，画面中必须同时出现${characterNames}：
-
-${prompt}
-
-重要要求：
-1. 每个角色的外貌必须严格按照对应参考图中的形象
-2. 所有角色（${validReferences.map(r => r.name).join('、')}）都必须出现在生成的画面中
-3. 保持各角色的外貌特征、发型、服装等与参考图一致`;
+  console.log('[AI Service] 参考图:', loaded.map(r => `${r.name}(${r.role})`).join(', '));
 
-  console.log('[AI Service] 增强提示词长度:', enhancedPrompt.length);
+  console.log('[AI Service] 提示词长度:', prompt.length);
 
   // 构建 content 数组：先放所有图片，最后放文本
   const contentArray: Array<{ image: string } | { text: string }> = [
     ...imageContents,
-    { text: enhancedPrompt }
+    { text: prompt }
   ];
 
   let response: { ok: boolean; status: number; text: () => Promise<string>; json: () => Promise<any> };
@@ -1161,11 +1861,14 @@ ${prompt}
           n: 1,
           prompt_extend: true,
           watermark: false,
+          ...(negativePrompt ? { negative_prompt: negativePrompt } : {}),
         },
       }),
       timeout: 180000, // 3分钟超时
+      signal,
     });
   } catch (error) {
+    throwIfAborted(signal);
     const message = error instanceof Error ? error.message : '未知错误';
     console.error('[AI Service] 阿里云多参考图编辑请求失败:', message);
     throw new Error(`阿里云多参考图编辑请求失败: ${message}`);
@@ -1174,7 +1877,7 @@ ${prompt}
   if (!response.ok) {
     const error = await response.text();
     console.error('[AI Service] 阿里云多参考图编辑错误响应:', error);
-    throw new Error(parseApiError(`阿里云多参考图编辑错误: ${response.status} - ${error}`));
+    throw createApiError(response.status, `阿里云多参考图编辑错误: ${response.status} - ${error}`, parseApiError);
   }
 
   const data = await response.json();
@@ -1190,14 +1893,15 @@ ${prompt}
   console.log('[AI Service] 阿里云生成图像URL:', imageUrl);
 
   // 下载图像
-  return await downloadImageWithRetry(imageUrl);
+  return await downloadImageWithRetry(imageUrl, signal);
 }
 
 /**
  * 通用聚合 API 图像生成 (DALL-E 格式)
  */
-async function callAggregatorImage(baseUrl: string, apiKey: string, prompt: string): Promise<Buffer> {
+export async function callAggregatorImage(baseUrl: string, apiKey: string, prompt: string, signal?: AbortSignal): Promise<Buffer> {
   const response = await fetch(`${baseUrl}/v1/images/generations`, {
+    signal,
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -1215,7 +1919,7 @@ async function callAggregatorImage(baseUrl: string, apiKey: string, prompt: stri
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`图像生成 API 错误: ${response.status} - ${error}`);
+    throw createApiError(response.status, `图像生成 API 错误: ${response.status} - ${error}`);
   }
 
   const data = await response.json();
@@ -1228,86 +1932,282 @@ async function callAggregatorImage(baseUrl: string, apiKey: string, prompt: stri
   return Buffer.from(b64, 'base64');
 }
 
-// ==================== 视频生成 ====================
+// gpt-image-1 支持的输出尺寸
+const OPENAI_EDIT_SIZES: Record<string, string> = {
+  '16:9': '1536x1024',
+  '4:3': '1536x1024',
+  '1:1': '1024x1024',
+  '3:4': '1024x1536',
+  '9:16': '1024x1536',
+};
 
 /**
- * 生成分镜视频
- * 使用完整的场景信息、角色外貌和项目风格来生成视频
+ * 通用聚合 API 使用参考图生成图像 (OpenAI images/edits 格式，gpt-image-1 支持多张输入图)
  */
-export async function generateShotVideo(
-  shotId: string,
-  onProgress?: ProgressCallback
-): Promise<string> {
-  const shot = await getShot(shotId);
-  if (!shot) throw new Error('分镜不存在');
+export async function callAggregatorImageWithReferences(
+  config: ImageProviderConfig,
+  prompt: string,
+  references: ImageReference[],
+  signal?: AbortSignal
+): Promise<Buffer> {
+  const loaded = await loadReferenceImages(references, OPENAI_EDIT_MAX_REFERENCE_IMAGES);
+  if (loaded.length === 0) {
+    console.warn('[AI Service] 没有有效的参考图，回退到普通生成');
+    return await callAggregatorImage(config.baseUrl!, config.apiKey!, prompt, signal);
+  }
 
-  onProgress?.(10);
+  const form = new FormData();
+  form.append('model', 'gpt-image-1');
+  form.append('prompt', prompt);
+  form.append('size', OPENAI_EDIT_SIZES[config.imageAspectRatio] || '1536x1024');
+  form.append('n', '1');
+  loaded.forEach((ref, i) => {
+    const ext = ref.mimeType.split('/')[1] || 'png';
+    form.append('image[]', new Blob([Buffer.from(ref.data, 'base64')], { type: ref.mimeType }), `reference_${i + 1}.${ext}`);
+  });
 
-  // 获取项目风格
-  const project = await getProject(shot.projectId);
-  const styleId = project?.styleId || 'animation_anime_2d';
+  const response = await fetch(`${config.baseUrl}/v1/images/edits`, {
+    signal,
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${config.apiKey}`,
+    },
+    body: form,
+  });
 
-  // 构建完整的视频提示词
-  let prompt = '';
+  if (!response.ok) {
+    const error = await response.text();
+    throw createApiError(response.status, `图像编辑 API 错误: ${response.status} - ${error}`, parseApiError);
+  }
 
-  // 1. 场景信息
-  if (shot.sceneId) {
-    const scene = await getScene(shot.sceneId);
-    if (scene && scene.description) {
-      prompt += `场景描述: ${scene.description}\n`;
-    }
+  const data = await response.json();
+  const b64 = data.data?.[0]?.b64_json;
+  if (b64) {
+    return Buffer.from(b64, 'base64');
   }
 
-  if (shot.sceneInfo || shot.location || shot.timeOfDay) {
-    prompt += '地点: ';
-    if (shot.location) {
-      prompt += shot.location;
-    }
-    if (shot.timeOfDay) {
-      prompt += `，时间: ${shot.timeOfDay}`;
-    }
-    prompt += '\n';
+  // 部分兼容服务返回图片地址
+  const imageUrl = data.data?.[0]?.url;
+  if (!imageUrl) {
+    throw new Error('未能生成图像');
   }
+  return await downloadImageWithRetry(imageUrl, signal);
+}
+
+// 本地 SD 各分辨率档位对应的长边像素
+const LOCAL_SD_LONG_EDGE: Record<string, number> = {
+  '1K': 1024,
+  '2K': 1536,
+  '4K': 2048,
+};
+
+/**
+ * 根据宽高比和分辨率档位计算本地 SD 出图尺寸（对齐到 64 像素）
+ */
+function getLocalSdSize(aspectRatio = '16:9', imageSize = '1K'): { width: number; height: number } {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const longEdge = LOCAL_SD_LONG_EDGE[imageSize] || 1024;
+  const ratio = w && h ? w / h : 16 / 9;
+  const align = (value: number) => Math.max(64, Math.round(value / 64) * 64);
+
+  return ratio >= 1
+    ? { width: align(longEdge), height: align(longEdge / ratio) }
+    : { width: align(longEdge * ratio), height: align(longEdge) };
+}
+
+/**
+ * 调用本地 Stable Diffusion WebUI (Automatic1111) 接口
+ */
+async function callLocalSdApi(
+  baseUrl: string,
+  endpoint: 'txt2img' | 'img2img',
+  payload: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<{ buffer: Buffer; seed: number | null }> {
+  const url = `${baseUrl.replace(/\/+$/, '')}/sdapi/v1/${endpoint}`;
+
+  console.log('[AI Service] 本地 SD 请求:', url);
 
-  // 2. 道具和布景
-  if (shot.props) {
-    prompt += `环境布置: ${shot.props}\n`;
+  let response: { ok: boolean; status: number; text: () => Promise<string>; json: () => Promise<any> };
+  try {
+    response = await electronFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      timeout: 600000, // 本地显卡出图较慢，放宽超时
+      signal,
+    });
+  } catch (error) {
+    throwIfAborted(signal);
+    const message = error instanceof Error ? error.message : '未知错误';
+    if (message.includes('fetch failed') || message.includes('ECONNREFUSED') || message.includes('net::')) {
+      throw new Error(`无法连接到本地 Stable Diffusion，请确认 WebUI 已使用 --api 参数启动。服务地址: ${baseUrl}`);
+    }
+    throw new Error(`本地 SD 请求失败: ${message}`);
   }
 
-  // 3. 画面描述
-  prompt += `\n当前画面内容: ${shot.description}`;
+  if (!response.ok) {
+    const error = await response.text();
+    throw createApiError(response.status, `本地 SD 错误: ${response.status} - ${error}`);
+  }
 
-  // 4. 动作描述
-  if (shot.action) {
-    prompt += `\n动作: ${shot.action}`;
+  const data = await response.json();
+  const b64 = data.images?.[0];
+  if (!b64) {
+    throw new Error('本地 SD 未返回图像');
   }
 
-  // 5. 角色信息和外貌（应用风格）
-  if (shot.characterId) {
-    const character = await getCharacter(shot.characterId);
-    if (character) {
-      if (character.appearance) {
-        const styledAppearance = applyStyleToCharacterDescription(character.appearance, styleId);
-        prompt += `\n\n角色【${character.name}】: ${styledAppearance}`;
-      }
+  // 请求种子为 -1（随机）时，info 中为实际使用的种子
+  let seed: number | null = null;
+  try {
+    const info = JSON.parse(data.info || '{}');
+    if (typeof info.seed === 'number') {
+      seed = info.seed;
+      console.log('[AI Service] 本地 SD 出图种子:', seed);
     }
+  } catch {
+    // info 解析失败时不记录种子
   }
 
-  // 6. 镜头和情绪信息
-  if (shot.cameraType) {
-    prompt += `\n\n镜头类型: ${shot.cameraType}`;
-  }
-  if (shot.mood) {
-    prompt += `\n情绪氛围: ${shot.mood}`;
+  return { buffer: Buffer.from(b64, 'base64'), seed };
+}
+
+/**
+ * 本地 SD 出图结果：记录实际种子和采样参数，便于复现
+ */
+async function requestLocalSdImage(
+  baseUrl: string,
+  endpoint: 'txt2img' | 'img2img',
+  payload: Record<string, unknown>,
+  sampling: ImageSampling,
+  signal?: AbortSignal
+): Promise<ImageGenerationResult> {
+  const { buffer, seed } = await callLocalSdApi(baseUrl, endpoint, payload, signal);
+  const actualSeed = seed ?? sampling.seed;
+  return { buffer, seed: actualSeed, sampling: { ...sampling, seed: actualSeed } };
+}
+
+/**
+ * 本地 SD 通用参数（模型为空时使用 WebUI 当前加载的模型）
+ */
+function buildLocalSdPayload(
+  prompt: string,
+  negativePrompt: string | undefined,
+  model: string,
+  sampling: ImageSampling,
+  aspectRatio?: string,
+  imageSize?: string
+): Record<string, unknown> {
+  return {
+    prompt,
+    negative_prompt: negativePrompt || '',
+    seed: sampling.seed,
+    sampler_name: sampling.sampler,
+    steps: sampling.steps,
+    cfg_scale: sampling.cfgScale,
+    ...getLocalSdSize(aspectRatio, imageSize),
+    batch_size: 1,
+    n_iter: 1,
+    ...(model ? { override_settings: { sd_model_checkpoint: model } } : {}),
+  };
+}
+
+/**
+ * 本地 Stable Diffusion 文生图 (/sdapi/v1/txt2img)
+ */
+export async function callLocalSdImage(
+  baseUrl: string,
+  prompt: string,
+  negativePrompt: string | undefined,
+  model: string,
+  sampling: ImageSampling,
+  aspectRatio?: string,
+  imageSize?: string,
+  signal?: AbortSignal
+): Promise<ImageGenerationResult> {
+  const payload = buildLocalSdPayload(prompt, negativePrompt, model, sampling, aspectRatio, imageSize);
+  return await requestLocalSdImage(baseUrl, 'txt2img', payload, sampling, signal);
+}
+
+/**
+ * 本地 Stable Diffusion 图生图 (/sdapi/v1/img2img)
+ * 以原图为初始图像进行修改
+ */
+export async function callLocalSdImageEdit(
+  baseUrl: string,
+  prompt: string,
+  negativePrompt: string | undefined,
+  imagePath: string,
+  model: string,
+  sampling: ImageSampling,
+  aspectRatio?: string,
+  imageSize?: string,
+  signal?: AbortSignal
+): Promise<ImageGenerationResult> {
+  const fs = await import('fs');
+  if (!fs.existsSync(imagePath)) {
+    throw new Error('原图不存在');
   }
 
-  // 7. 应用风格提示词
-  const styledPrompt = applyStyleToVideoPrompt(prompt, styleId);
+  const payload = {
+    ...buildLocalSdPayload(prompt, negativePrompt, model, sampling, aspectRatio, imageSize),
+    init_images: [fs.readFileSync(imagePath).toString('base64')],
+    denoising_strength: 0.6,
+  };
+  return await requestLocalSdImage(baseUrl, 'img2img', payload, sampling, signal);
+}
+
+// ==================== 视频生成 ====================
+
+/**
+ * 生成分镜视频
+ * 使用完整的场景信息、角色外貌和项目风格来生成视频
+ */
+export async function generateShotVideo(
+  shotId: string,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+  remoteJob?: RemoteVideoJobTracker
+): Promise<string> {
+  const shot = await getShot(shotId);
+  if (!shot) throw new Error('分镜不存在');
+
+  onProgress?.(10);
+
+  // 获取项目风格
+  const project = await getProject(shot.projectId);
+  const styleId = project?.styleId || 'animation_anime_2d';
+
+  // 使用提示词模板组装视频提示词并应用风格 - 支持多角色，包含说话角色、对话对象和台词
+  const { styledPrompt, characters: shotCharacters } = await assembleShotPrompt(shot, 'video', styleId);
+  const characterImages = collectCharacterImages(shotCharacters);
+  const negativePrompt = await resolveNegativePrompt(shot.projectId, styleId, shot.negativePrompt);
 
   onProgress?.(20);
 
   // 视频生成
-  const videoBuffer = await generateVideo(styledPrompt, shot.imagePath, onProgress);
+  const { buffer: videoBuffer, references } = await generateVideo(
+    styledPrompt,
+    negativePrompt,
+    shot.imagePath,
+    characterImages,
+    shot.cameraType,
+    onProgress,
+    signal,
+    remoteJob
+  );
+
+  // 记录用量
+  const videoUsage = await resolveVideoUsageModel();
+  await recordUsage({
+    kind: 'video',
+    ...videoUsage,
+    projectId: shot.projectId,
+    shotId,
+  });
+
+  // 取消后不再写入分镜
+  throwIfAborted(signal);
 
   onProgress?.(80);
 
@@ -1315,67 +2215,187 @@ export async function generateShotVideo(
   const filename = `shot_${shot.index}_${Date.now()}.mp4`;
   const videoPath = saveProjectFile(shot.projectId, 'videos', filename, videoBuffer);
 
-  // 更新分镜
+  // 更新分镜并保留本次生成的版本
   await updateShot(shotId, {
     videoPath,
     status: 'ready',
   });
+  await addShotAsset({
+    shotId,
+    projectId: shot.projectId,
+    kind: 'video',
+    path: videoPath,
+    prompt: styledPrompt,
+    model: videoUsage.model,
+    params: {
+      provider: videoUsage.provider,
+      styleId,
+      videoSeconds: videoUsage.videoSeconds,
+      sourceImage: shot.imagePath,
+      negativePrompt,
+      references: references.map(r => ({ name: r.name, role: r.role, view: r.view ?? null, imagePath: r.imagePath })),
+    },
+  });
 
   onProgress?.(100);
 
   return videoPath;
 }
 
+/**
+ * 远程视频任务状态（持久化在渲染任务上，应用重启或轮询超时后可继续轮询/下载）
+ */
+export interface RemoteVideoJob {
+  provider: string;
+  jobId: string | null; // 服务商任务 ID（流式接口没有）
+  videoUrl: string | null; // 已生成但尚未下载的视频地址
+  status: string; // 服务商返回的最近一次任务状态
+  pollCount: number;
+  lastPolledAt: string | null;
+}
+
+/**
+ * 远程视频任务跟踪器
+ * resume: 上次未完成的远程任务；onUpdate: 状态变化时回调，传 null 表示远程任务已失效
+ */
+export interface RemoteVideoJobTracker {
+  resume?: RemoteVideoJob | null;
+  onUpdate: (job: RemoteVideoJob | null) => Promise<void>;
+}
+
+/**
+ * 创建单个服务商的远程任务跟踪状态（服务商不一致时不恢复旧任务）
+ */
+function trackRemoteJob(provider: string, tracker?: RemoteVideoJobTracker) {
+  const resumed = tracker?.resume?.provider === provider ? tracker.resume : null;
+  let job: RemoteVideoJob = resumed
+    ? { ...resumed }
+    : { provider, jobId: null, videoUrl: null, status: 'submitting', pollCount: 0, lastPolledAt: null };
+
+  if (resumed) {
+    console.log(`[AI Service] 恢复远程视频任务: ${provider} ${resumed.jobId || resumed.videoUrl}`);
+  }
+
+  return {
+    get job() {
+      return job;
+    },
+    async update(changes: Partial<RemoteVideoJob>) {
+      job = { ...job, ...changes };
+      await tracker?.onUpdate(job);
+    },
+    async polled(status: string) {
+      await this.update({ status, pollCount: job.pollCount + 1, lastPolledAt: new Date().toISOString() });
+    },
+    async drop() {
+      await tracker?.onUpdate(null);
+    },
+  };
+}
+
+export type RemoteJobState = ReturnType<typeof trackRemoteJob>;
+
+/**
+ * 下载远程生成的视频，下载失败时视为远程结果失效（链接过期等），下次重新提交
+ */
+async function downloadRemoteVideo(remote: RemoteJobState, videoUrl: string, signal?: AbortSignal): Promise<Buffer> {
+  const videoResponse = await downloadBuffer(videoUrl, signal);
+  if (!videoResponse.ok) {
+    await remote.drop();
+    throw new Error(`视频下载失败: ${videoResponse.status}`);
+  }
+  return videoResponse.buffer;
+}
+
 /**
  * 调用视频生成 API
+ * @param characterImages 角色参考图，仅支持参考图的视频服务商使用
+ * @returns 视频数据和实际使用的角色参考图
  */
 async function generateVideo(
   prompt: string,
+  negativePrompt: string,
   imagePath: string | null,
-  onProgress?: ProgressCallback
-): Promise<Buffer> {
+  characterImages: Array<{ name: string; images: Partial<Record<CharacterView, string>> }>,
+  cameraType: string | null,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+  remoteJob?: RemoteVideoJobTracker
+): Promise<{ buffer: Buffer; references: ImageReference[] }> {
   const config = await getVideoApiConfig();
+  const adapter = getProvider('video', config.provider);
 
-  if (config.provider === 'aliyun') {
-    // 阿里云视频生成
-    return await callAliyunVideo(
-      config.baseUrl,
-      config.apiKey,
-      prompt,
-      imagePath,
-      config.videoModel,
-      onProgress
-    );
-  }
+  const capabilities = resolveCapabilities(adapter, config);
+  const references = selectShotVideoReferences(capabilities, characterImages, cameraType);
 
-  if (config.provider === 'apiyi') {
-    // API易 使用 Sora/VEO 视频生成
-    return await callApiyiVideo(
-      config.baseUrl,
-      config.apiKey,
-      prompt,
-      imagePath,
-      config.videoModel,
-      onProgress
-    );
-  }
+  const buffer = await adapter.generate(config, {
+    ...buildVideoProviderRequest(capabilities, prompt, negativePrompt, references, !!imagePath),
+    imagePath,
+    references,
+    onProgress,
+    signal,
+    remote: trackRemoteJob(adapter.id, remoteJob),
+  });
+  return { buffer, references };
+}
+
+/**
+ * 组装发送给视频服务商的最终提示词：有角色参考图时加入参考图说明，
+ * 服务商不支持负面提示词时并入提示词（生成和提示词预览共用）
+ */
+function buildVideoProviderRequest(
+  capabilities: ProviderCapabilities,
+  prompt: string,
+  negativePrompt: string | undefined,
+  references: ImageReference[],
+  hasFirstFrame: boolean
+): { prompt: string; negativePrompt?: string } {
+  const finalPrompt = references.length > 0 ? buildVideoReferencePrompt(prompt, references, hasFirstFrame) : prompt;
+  return withNegativePrompt(capabilities, finalPrompt, negativePrompt);
+}
+
+export const isVeoModel = (model: string) => model.toLowerCase().includes('veo');
+
+/**
+ * 构建视频角色参考图提示词（首帧图之后依次为角色参考图）
+ */
+function buildVideoReferencePrompt(prompt: string, references: ImageReference[], hasFirstFrame: boolean): string {
+  const offset = hasFirstFrame ? 2 : 1;
+  const parts = references.map((ref, i) =>
+    `参考图${i + offset}是角色【${ref.name}】${ref.view ? `的${CHARACTER_VIEW_LABELS[ref.view]}` : ''}`
+  );
+  const firstFrame = hasFirstFrame ? '第1张图片是视频首帧，' : '';
+  return `${firstFrame}${parts.join('，')}，视频中角色的外貌、发型和服装必须与对应参考图保持一致。
 
-  // 通用聚合 API
-  return await callAggregatorVideo(config.baseUrl!, config.apiKey!, prompt);
+${prompt}`;
 }
 
 /**
  * API易 视频生成 (Sora/VEO)
  * 使用 chat completions 端点，流式响应
  */
-async function callApiyiVideo(
+export async function callApiyiVideo(
   baseUrl: string,
   apiKey: string,
   prompt: string,
   imagePath: string | null,
   model = 'sora_video2',
-  onProgress?: ProgressCallback
+  onProgress: ProgressCallback | undefined,
+  signal: AbortSignal | undefined,
+  remote: RemoteJobState,
+  references: ImageReference[] = []
 ): Promise<Buffer> {
+  // 上次已拿到视频地址但未下载完成，直接下载
+  if (remote.job.videoUrl) {
+    onProgress?.(80);
+    return await downloadRemoteVideo(remote, remote.job.videoUrl, signal);
+  }
+
+  // Veo 系列支持角色参考图（首帧图之后附加），其他模型只使用首帧图
+  const loadedReferences = isVeoModel(model)
+    ? await loadReferenceImages(references, VEO_MAX_REFERENCE_IMAGES)
+    : [];
+
   // 构建消息内容
   const contentParts: Array<{ type: string; text?: string; image_url?: { url: string } }> = [
     { type: 'text', text: prompt }
@@ -1399,7 +2419,15 @@ async function callApiyiVideo(
     }
   }
 
+  for (const ref of loadedReferences) {
+    contentParts.push({
+      type: 'image_url',
+      image_url: { url: `data:${ref.mimeType};base64,${ref.data}` },
+    });
+  }
+
   const response = await fetch(`${baseUrl}/v1/chat/completions`, {
+    signal,
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -1417,7 +2445,7 @@ async function callApiyiVideo(
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(parseApiError(`API易 视频生成错误: ${response.status} - ${error}`));
+    throw createApiError(response.status, `API易 视频生成错误: ${response.status} - ${error}`, parseApiError);
   }
 
   // 处理流式响应
@@ -1465,37 +2493,117 @@ async function callApiyiVideo(
         }
       }
     }
-  } finally {
-    reader.releaseLock();
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (!videoUrl) {
+    throw new Error('视频生成失败: 未获取到视频 URL');
+  }
+
+  // 先记录视频地址，下载中断后可直接重新下载
+  await remote.update({ videoUrl, status: 'completed' });
+
+  // 下载视频
+  onProgress?.(80);
+  return await downloadRemoteVideo(remote, videoUrl, signal);
+}
+
+/**
+ * 阿里云通义万相图生视频
+ * 使用 DashScope 图生视频 API (video-synthesis)
+ * 文档: https://help.aliyun.com/zh/model-studio/wanx-image-to-video
+ */
+export async function callAliyunVideo(
+  baseUrl: string,
+  apiKey: string,
+  prompt: string,
+  imagePath: string | null,
+  model = 'wan2.1-i2v-turbo',
+  onProgress: ProgressCallback | undefined,
+  signal: AbortSignal | undefined,
+  remote: RemoteJobState,
+  negativePrompt?: string
+): Promise<Buffer> {
+  // 已有未完成的远程任务时继续轮询，不重复提交
+  let taskId = remote.job.jobId;
+  let videoUrl = remote.job.videoUrl;
+
+  if (!taskId) {
+    taskId = await submitAliyunVideoTask(baseUrl, apiKey, prompt, imagePath, model, signal, negativePrompt);
+    await remote.update({ jobId: taskId, status: 'PENDING' });
+  }
+
+  // 轮询获取结果 (视频生成通常需要1-5分钟)
+  const resultUrl = `${baseUrl}/tasks/${taskId}`;
+  let progress = 20;
+
+  // 最多等待10分钟 (200次 * 3秒)
+  for (let i = 0; i < 200 && !videoUrl; i++) {
+    await sleep(3000, signal);
+
+    const statusResponse = await electronFetch(resultUrl, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      signal,
+    });
+
+    if (!statusResponse.ok) continue;
+
+    const result = await statusResponse.json();
+    const taskStatus = result.output?.task_status;
+
+    console.log(`[AI Service] Task status: ${taskStatus} (${i + 1}/200)`);
+
+    if (taskStatus === 'SUCCEEDED') {
+      videoUrl = result.output?.video_url || null;
+      if (!videoUrl) {
+        await remote.drop();
+        throw new Error('Aliyun video generation failed: no video url');
+      }
+      await remote.update({ videoUrl, status: taskStatus });
+      break;
+    } else if (taskStatus === 'FAILED' || taskStatus === 'UNKNOWN') {
+      // 远程任务失败或已过期，下次重新提交
+      await remote.drop();
+      const errorMsg = result.output?.message || 'Unknown error';
+      throw new Error(`Aliyun video generation failed: ${errorMsg}`);
+    }
+
+    await remote.polled(taskStatus);
+
+    // 更新进度
+    if (taskStatus === 'RUNNING') {
+      progress = Math.min(progress + 1, 75);
+    }
+    onProgress?.(progress);
   }
 
   if (!videoUrl) {
-    throw new Error('视频生成失败: 未获取到视频 URL');
+    // 保留远程任务，重试时继续轮询
+    throw new Error('Aliyun video generation timeout');
   }
 
   // 下载视频
+  console.log('[AI Service] Downloading video:', videoUrl.substring(0, 100));
   onProgress?.(80);
-  const videoResponse = await fetch(videoUrl);
-  if (!videoResponse.ok) {
-    throw new Error(`视频下载失败: ${videoResponse.status}`);
-  }
-
-  return Buffer.from(await videoResponse.arrayBuffer());
+  return await downloadRemoteVideo(remote, videoUrl, signal);
 }
 
 /**
- * 阿里云通义万相图生视频
- * 使用 DashScope 图生视频 API (video-synthesis)
- * 文档: https://help.aliyun.com/zh/model-studio/wanx-image-to-video
+ * 提交阿里云图生视频异步任务，返回远程任务 ID
  */
-async function callAliyunVideo(
+async function submitAliyunVideoTask(
   baseUrl: string,
   apiKey: string,
   prompt: string,
   imagePath: string | null,
-  model = 'wan2.1-i2v-turbo',
-  onProgress?: ProgressCallback
-): Promise<Buffer> {
+  model: string,
+  signal?: AbortSignal,
+  negativePrompt?: string
+): Promise<string> {
   // 图生视频端点 (video-synthesis)
   const url = `${baseUrl}/services/aigc/video-generation/video-synthesis`;
 
@@ -1507,6 +2615,7 @@ async function callAliyunVideo(
     model,
     input: {
       prompt,
+      ...(negativePrompt ? { negative_prompt: negativePrompt } : {}),
     },
     parameters: {
       resolution: '720P',
@@ -1555,8 +2664,10 @@ async function callAliyunVideo(
       },
       body: JSON.stringify(requestBody),
       timeout: 300000,
+      signal,
     });
   } catch (error) {
+    throwIfAborted(signal);
     const message = error instanceof Error ? error.message : 'Unknown error';
     console.error('[AI Service] Aliyun video request failed:', message);
     throw new Error(`Aliyun video network error: ${message}`);
@@ -1565,7 +2676,7 @@ async function callAliyunVideo(
   if (!response.ok) {
     const error = await response.text();
     console.error('[AI Service] Aliyun video error response:', error);
-    throw new Error(`Aliyun video error: ${response.status} - ${error}`);
+    throw createApiError(response.status, `Aliyun video error: ${response.status} - ${error}`);
   }
 
   const data = await response.json();
@@ -1577,68 +2688,29 @@ async function callAliyunVideo(
     throw new Error('Aliyun video task creation failed');
   }
 
-  // 轮询获取结果 (视频生成通常需要1-5分钟)
-  const resultUrl = `${baseUrl}/tasks/${taskId}`;
-  let result: any;
-  let progress = 20;
-
-  // 最多等待10分钟 (200次 * 3秒)
-  for (let i = 0; i < 200; i++) {
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    const statusResponse = await electronFetch(resultUrl, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-      },
-    });
-
-    if (!statusResponse.ok) continue;
-
-    result = await statusResponse.json();
-    const taskStatus = result.output?.task_status;
-
-    console.log(`[AI Service] Task status: ${taskStatus} (${i + 1}/200)`);
-
-    if (taskStatus === 'SUCCEEDED') {
-      break;
-    } else if (taskStatus === 'FAILED') {
-      const errorMsg = result.output?.message || 'Unknown error';
-      throw new Error(`Aliyun video generation failed: ${errorMsg}`);
-    }
-
-    // 更新进度
-    if (taskStatus === 'RUNNING') {
-      progress = Math.min(progress + 1, 75);
-    }
-    onProgress?.(progress);
-  }
-
-  const videoUrl = result?.output?.video_url;
-  if (!videoUrl) {
-    throw new Error('Aliyun video generation timeout');
-  }
-
-  // 下载视频
-  console.log('[AI Service] Downloading video:', videoUrl.substring(0, 100));
-  onProgress?.(80);
-  const videoResponse = await fetch(videoUrl);
-  if (!videoResponse.ok) {
-    throw new Error(`Video download failed: ${videoResponse.status}`);
-  }
-
-  return Buffer.from(await videoResponse.arrayBuffer());
+  return taskId;
 }
 
 /**
  * 通用聚合 API 视频生成
  */
-async function callAggregatorVideo(
+export async function callAggregatorVideo(
   baseUrl: string,
   apiKey: string,
-  prompt: string
+  prompt: string,
+  signal: AbortSignal | undefined,
+  remote: RemoteJobState
 ): Promise<Buffer> {
+  // 已有未完成的远程任务时继续轮询，不重复提交
+  if (remote.job.videoUrl) {
+    return await downloadRemoteVideo(remote, remote.job.videoUrl, signal);
+  }
+  if (remote.job.jobId) {
+    return await pollVideoTask(baseUrl, apiKey, remote.job.jobId, signal, remote);
+  }
+
   const response = await fetch(`${baseUrl}/v1/videos/generations`, {
+    signal,
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -1653,14 +2725,15 @@ async function callAggregatorVideo(
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`视频生成 API 错误: ${response.status} - ${error}`);
+    throw createApiError(response.status, `视频生成 API 错误: ${response.status} - ${error}`);
   }
 
   const data = await response.json();
 
   // 如果是异步任务，需要轮询获取结果
   if (data.taskId) {
-    return await pollVideoTask(baseUrl, apiKey, data.taskId);
+    await remote.update({ jobId: data.taskId, status: 'submitted' });
+    return await pollVideoTask(baseUrl, apiKey, data.taskId, signal, remote);
   }
 
   const videoUrl = data.data?.[0]?.url;
@@ -1669,22 +2742,30 @@ async function callAggregatorVideo(
   }
 
   // 下载视频
-  const videoResponse = await fetch(videoUrl);
-  return Buffer.from(await videoResponse.arrayBuffer());
+  await remote.update({ videoUrl, status: 'completed' });
+  return await downloadRemoteVideo(remote, videoUrl, signal);
 }
 
 /**
  * 轮询视频任务
+ * 超时后保留远程任务，重试时继续轮询而不是重新提交
  */
-async function pollVideoTask(baseUrl: string, apiKey: string, taskId: string): Promise<Buffer> {
+async function pollVideoTask(
+  baseUrl: string,
+  apiKey: string,
+  taskId: string,
+  signal: AbortSignal | undefined,
+  remote: RemoteJobState
+): Promise<Buffer> {
   const maxAttempts = 60;
   const interval = 5000;
 
   for (let i = 0; i < maxAttempts; i++) {
-    await new Promise((resolve) => setTimeout(resolve, interval));
+    await sleep(interval, signal);
 
     const response = await fetch(`${baseUrl}/v1/videos/tasks/${taskId}`, {
       headers: { 'Authorization': `Bearer ${apiKey}` },
+      signal,
     });
 
     if (!response.ok) continue;
@@ -1692,13 +2773,16 @@ async function pollVideoTask(baseUrl: string, apiKey: string, taskId: string): P
     const data = await response.json();
 
     if (data.status === 'completed' && data.output?.url) {
-      const videoResponse = await fetch(data.output.url);
-      return Buffer.from(await videoResponse.arrayBuffer());
+      await remote.update({ videoUrl: data.output.url, status: data.status });
+      return await downloadRemoteVideo(remote, data.output.url, signal);
     }
 
     if (data.status === 'failed') {
+      await remote.drop();
       throw new Error(`视频生成失败: ${data.error || '未知错误'}`);
     }
+
+    await remote.polled(data.status || 'unknown');
   }
 
   throw new Error('视频生成超时');
@@ -1706,6 +2790,25 @@ async function pollVideoTask(baseUrl: string, apiKey: string, taskId: string): P
 
 // ==================== 角色头像生成 ====================
 
+// 三视图各视角的提示词（模板变量 {{view}}）
+const CHARACTER_VIEW_PROMPTS: Record<CharacterView, string> = {
+  avatar: '头像特写，角色面向镜头',
+  front: '正面视图，角色面向镜头，直视前方',
+  side: '侧面视图，角色侧身，展示侧面轮廓',
+  back: '背面视图，角色背对镜头，展示背部',
+};
+
+/**
+ * 构建角色提示词模板变量（外貌应用风格，未填写外貌时按普通人物生成）
+ */
+function buildCharacterPromptVariables(character: CharacterData, styleId: string): PromptTemplateVariables {
+  return {
+    'character.name': character.name,
+    'character.appearance': applyStyleToCharacterDescription(character.appearance || '普通人物', styleId),
+    'character.description': character.description,
+  };
+}
+
 /**
  * 生成角色头像
  * 会应用项目的视觉风格
@@ -1723,24 +2826,14 @@ export async function generateCharacterAvatar(
 
   onProgress?.(20);
 
-  // 应用风格到角色描述
-  const styledAppearance = applyStyleToCharacterDescription(
-    character.appearance || '普通人物',
-    styleId
-  );
-
-  const prompt = `人物肖像，高清头像，专业角色设计。
-
-人物描述: ${character.name}
-外貌特征: ${styledAppearance}
-角色性格: ${character.description || ''}
-
-要求: 角色设计图，简洁背景，突出人物特征`;
-
-  // 应用风格提示词
+  // 使用提示词模板（外貌应用风格）并应用风格提示词
+  const template = await getPromptTemplate('character_avatar', character.projectId);
+  const prompt = renderPromptTemplate(template, buildCharacterPromptVariables(character, styleId));
   const styledPrompt = applyStyleToImagePrompt(prompt, styleId);
 
-  const imageBuffer = await generateImage(styledPrompt, styleId);
+  const negativePrompt = await resolveNegativePrompt(character.projectId, styleId);
+  const imageBuffer = await generateImage(styledPrompt, negativePrompt);
+  await recordImageUsage(character.projectId, null);
 
   onProgress?.(80);
 
@@ -1844,7 +2937,10 @@ ${styleGuidance}
 
   onProgress?.(40);
 
-  const appearance = await generateText(prompt, systemPrompt);
+  const appearance = await runWithUsageContext(
+    { projectId: character.projectId },
+    () => generateText(prompt, systemPrompt)
+  );
 
   onProgress?.(100);
 
@@ -1867,16 +2963,12 @@ export async function generateCharacterViews(
   const project = await getProject(character.projectId);
   const styleId = project?.styleId || 'animation_anime_2d';
 
-  // 应用风格到角色描述
-  const styledAppearance = applyStyleToCharacterDescription(character.appearance, styleId);
-
-  const basePrompt = `角色设计参考图，白色简洁背景，全身像，高质量，专业角色设计。
-
-角色描述: ${character.name}
-外貌特征: ${styledAppearance}`;
-
-  // 应用风格提示词到基础提示
-  const styledBasePrompt = applyStyleToImagePrompt(basePrompt, styleId);
+  // 使用提示词模板（外貌应用风格），按视角渲染后应用风格提示词
+  const template = await getPromptTemplate('character_view', character.projectId);
+  const variables = buildCharacterPromptVariables(character, styleId);
+  const buildViewPrompt = (view: CharacterView) =>
+    applyStyleToImagePrompt(renderPromptTemplate(template, { ...variables, view: CHARACTER_VIEW_PROMPTS[view] }), styleId);
+  const negativePrompt = await resolveNegativePrompt(character.projectId, styleId);
 
   const views: { front: string; side: string; back: string } = {
     front: '',
@@ -1886,12 +2978,11 @@ export async function generateCharacterViews(
 
   // 生成正面图
   onProgress?.(10);
-  const frontPrompt = `${styledBasePrompt}
-
-视角: 正面视图，角色面向镜头，直视前方`;
+  const frontPrompt = buildViewPrompt('front');
 
   try {
-    const frontBuffer = await generateImage(frontPrompt, styleId);
+    const frontBuffer = await generateImage(frontPrompt, negativePrompt);
+    await recordImageUsage(character.projectId, null);
     const frontFilename = `view_front_${character.name}_${Date.now()}.png`;
     views.front = saveProjectFile(character.projectId, 'avatars', frontFilename, frontBuffer);
   } catch (error) {
@@ -1902,12 +2993,11 @@ export async function generateCharacterViews(
   onProgress?.(40);
 
   // 生成侧面图
-  const sidePrompt = `${styledBasePrompt}
-
-视角: 侧面视图，角色侧身，展示侧面轮廓`;
+  const sidePrompt = buildViewPrompt('side');
 
   try {
-    const sideBuffer = await generateImage(sidePrompt, styleId);
+    const sideBuffer = await generateImage(sidePrompt, negativePrompt);
+    await recordImageUsage(character.projectId, null);
     const sideFilename = `view_side_${character.name}_${Date.now()}.png`;
     views.side = saveProjectFile(character.projectId, 'avatars', sideFilename, sideBuffer);
   } catch (error) {
@@ -1918,12 +3008,11 @@ export async function generateCharacterViews(
   onProgress?.(70);
 
   // 生成背面图
-  const backPrompt = `${styledBasePrompt}
-
-视角: 背面视图，角色背对镜头，展示背部`;
+  const backPrompt = buildViewPrompt('back');
 
   try {
-    const backBuffer = await generateImage(backPrompt, styleId);
+    const backBuffer = await generateImage(backPrompt, negativePrompt);
+    await recordImageUsage(character.projectId, null);
     const backFilename = `view_back_${character.name}_${Date.now()}.png`;
     views.back = saveProjectFile(character.projectId, 'avatars', backFilename, backBuffer);
   } catch (error) {
@@ -2132,7 +3221,7 @@ ${content}
   // 发送进度更新 - 调用 AI
   sendParseProgress('phase1_calling_ai', 30, '正在调用 AI 分析角色和场景...');
 
-  const response = await generateText(prompt, systemPrompt);
+  const response = await generateText(prompt, systemPrompt, { json: true });
 
   // 发送进度更新 - 解析结果
   sendParseProgress('phase1_parsing', 70, '正在解析分析结果...');
@@ -2303,12 +3392,12 @@ description 字段是给 AI 绘画模型看的，必须包含：
 内容：
 ${content}
 
-请返回 JSON 数组格式的分镜列表。`;
+请返回 JSON 数组格式的分镜列表；如果只能返回 JSON 对象，请使用 {"shots": [...]} 格式。`;
 
   // 发送进度更新 - 调用 AI 生成分镜
   sendParseProgress('phase2_calling_ai', 30, '正在调用 AI 生成分镜...');
 
-  const response = await generateText(prompt, systemPrompt);
+  const response = await generateText(prompt, systemPrompt, { json: true });
 
   // 发送进度更新 - 解析分镜结果
   sendParseProgress('phase2_parsing', 70, '正在解析分镜结果...');
@@ -2321,8 +3410,23 @@ ${content}
       .replace(/```\s*/g, '')
       .trim();
 
+    // JSON 模式下整体就是合法 JSON（数组或 { "shots": [...] } 对象）
+    let jsonMatch: RegExpMatchArray | string[] | null = null;
+    try {
+      const parsed = JSON.parse(cleanedResponse);
+      if (Array.isArray(parsed)) {
+        jsonMatch = [cleanedResponse];
+      } else if (Array.isArray(parsed?.shots)) {
+        jsonMatch = [JSON.stringify(parsed.shots)];
+      }
+    } catch {
+      // 非纯 JSON，使用下方的宽松匹配
+    }
+
     // 尝试匹配数组格式
-    let jsonMatch = cleanedResponse.match(/\[[\s\S]*?\](?=\s*$|\s*[^,\]\}\d])/);
+    if (!jsonMatch) {
+      jsonMatch = cleanedResponse.match(/\[[\s\S]*?\](?=\s*$|\s*[^,\]\}\d])/);
+    }
     if (!jsonMatch) {
       // 更宽松的数组匹配
       jsonMatch = cleanedResponse.match(/\[[\s\S]*\]/);
@@ -2411,20 +3515,106 @@ export async function parseScriptWithAI(content: string): Promise<{
     estimatedAge?: number | null;
   }>;
 }> {
-  // Qwen-Turbo 支持超长上下文（最高100万tokens），大幅提高阈值
-  // 只有超过50000字符（约2.5万汉字）的超长剧本才分批
-  const MAX_CONTENT_LENGTH = 50000;
-  const isLongScript = content.length > MAX_CONTENT_LENGTH;
+  // 按当前模型的上下文长度决定单批剧本长度
+  const maxContentLength = getScriptBatchSize(await getTextContextLength());
+  const isLongScript = content.length > maxContentLength;
 
   if (isLongScript) {
-    console.log(`[AI Service] 剧本超长(${content.length}字符)，将分批处理...`);
-    return await parseScriptInBatches(content, MAX_CONTENT_LENGTH);
+    console.log(`[AI Service] 剧本超长(${content.length}字符，单批上限${maxContentLength}字符)，将分批处理...`);
+    return await parseScriptInBatches(content, maxContentLength);
   }
 
   console.log(`[AI Service] 剧本长度: ${content.length}字符，直接处理`);
   return await parseScriptSingle(content);
 }
 
+// 上下文长度未知时的单批剧本长度（云端模型普遍支持超长上下文，约2.5万汉字）
+const DEFAULT_SCRIPT_BATCH_SIZE = 50000;
+
+// 剧本解析输出预留的固定 token 数（JSON 结构、场景和角色描述）
+const SCRIPT_OUTPUT_RESERVE_TOKENS = 1024;
+// 单批剧本的最小字符数（上下文过小时仍按此长度分批）
+const MIN_SCRIPT_BATCH_SIZE = 500;
+
+/**
+ * 获取当前文本模型的上下文长度（tokens），未知时返回 null
+ */
+async function getTextContextLength(): Promise<number | null> {
+  const config = await getLlmApiConfig();
+  const adapter = getProvider('text', config.provider);
+  return adapter.getContextLength ? await adapter.getContextLength(config) : null;
+}
+
+/**
+ * 根据文本模型的上下文长度计算单批剧本的最大字符数
+ * 中文约 1 字符 1 token，上下文需容纳系统提示词、剧本原文和输出的 JSON；
+ * 输出约为原文的 1.5 倍再加固定预留，因此原文最多占扣除提示词和预留后的 40%
+ */
+export function getScriptBatchSize(contextLength: number | null): number {
+  if (!contextLength) return DEFAULT_SCRIPT_BATCH_SIZE;
+
+  const promptLength = buildScriptParseSystemPrompt('（第99/99批）').length + buildScriptParseUserPrompt('').length;
+  const available = contextLength - promptLength - SCRIPT_OUTPUT_RESERVE_TOKENS;
+  const batchSize = Math.floor(available * 0.4);
+  if (batchSize < MIN_SCRIPT_BATCH_SIZE) {
+    console.warn(`[AI Service] 模型上下文长度 ${contextLength} 过小，剧本解析结果可能被截断`);
+  }
+  return Math.min(DEFAULT_SCRIPT_BATCH_SIZE, Math.max(MIN_SCRIPT_BATCH_SIZE, batchSize));
+}
+
+/**
+ * 按分隔符将片段依次拼接为不超过 batchSize 字符的批次
+ */
+function packScriptSegments(segments: string[], batchSize: number, separator: string): string[] {
+  const batches: string[] = [];
+  let currentBatch = '';
+  for (const segment of segments) {
+    if (currentBatch && currentBatch.length + separator.length + segment.length > batchSize) {
+      batches.push(currentBatch);
+      currentBatch = segment;
+    } else {
+      currentBatch += (currentBatch ? separator : '') + segment;
+    }
+  }
+  if (currentBatch) batches.push(currentBatch);
+  return batches;
+}
+
+/**
+ * 切分超过单批上限的片段：先按行拼接，单行仍超长时按字数截断
+ */
+function splitOversizedSegment(segment: string, batchSize: number): string[] {
+  if (segment.length <= batchSize) return [segment];
+
+  const lines: string[] = [];
+  for (const line of segment.split('\n')) {
+    for (let i = 0; i < line.length; i += batchSize) {
+      lines.push(line.slice(i, i + batchSize));
+    }
+  }
+  return packScriptSegments(lines, batchSize, '\n');
+}
+
+/**
+ * 将剧本切分为不超过 batchSize 字符的批次：优先按场景行分割，无法分割时按段落分割
+ */
+export function splitScriptIntoBatches(content: string, batchSize: number): string[] {
+  // 按场景行分割剧本（通常场景行格式为：地点 时间 内/外）
+  const scenePattern = /\n\s*(?=[^\n]+\s+(?:日|夜|晨|昏|白天|夜晚|黄昏|清晨|傍晚|午后|深夜)\s+(?:内|外|内\/外))/g;
+  const scenes = content.split(scenePattern).filter(s => s.trim());
+
+  // 无法按场景分割时按段落分割
+  const [segments, separator] = scenes.length <= 1
+    ? [content.split(/\n\s*\n/), '\n\n']
+    : [scenes, '\n'];
+
+  return packScriptSegments(
+    segments.flatMap(segment => splitOversizedSegment(segment, batchSize)),
+    batchSize,
+    separator
+  );
+}
+
 /**
  * 分批处理长剧本
  */
@@ -2441,38 +3631,7 @@ async function parseScriptInBatches(content: string, batchSize: number): Promise
     estimatedAge?: number | null;
   }>;
 }> {
-  // 按场景行分割剧本（通常场景行格式为：地点 时间 内/外）
-  const scenePattern = /\n\s*(?=[^\n]+\s+(?:日|夜|晨|昏|白天|夜晚|黄昏|清晨|傍晚|午后|深夜)\s+(?:内|外|内\/外))/g;
-  const scenes = content.split(scenePattern).filter(s => s.trim());
-
-  // 如果无法按场景分割，则按字符数分割
-  let batches: string[] = [];
-  if (scenes.length <= 1) {
-    // 按段落分割
-    const paragraphs = content.split(/\n\s*\n/);
-    let currentBatch = '';
-    for (const para of paragraphs) {
-      if ((currentBatch + para).length > batchSize && currentBatch.length > 0) {
-        batches.push(currentBatch);
-        currentBatch = para;
-      } else {
-        currentBatch += (currentBatch ? '\n\n' : '') + para;
-      }
-    }
-    if (currentBatch) batches.push(currentBatch);
-  } else {
-    // 按场景分割
-    let currentBatch = '';
-    for (const scene of scenes) {
-      if ((currentBatch + scene).length > batchSize && currentBatch.length > 0) {
-        batches.push(currentBatch);
-        currentBatch = scene;
-      } else {
-        currentBatch += (currentBatch ? '\n' : '') + scene;
-      }
-    }
-    if (currentBatch) batches.push(currentBatch);
-  }
+  const batches = splitScriptIntoBatches(content, batchSize);
 
   console.log(`[AI Service] 剧本分为 ${batches.length} 批处理`);
 
@@ -2543,33 +3702,11 @@ async function parseScriptInBatches(content: string, batchSize: number): Promise
 }
 
 /**
- * 解析单个剧本片段
+ * 剧本解析系统提示词
+ * @param batchInfo 分批处理时的批次说明，如（第1/3批）
  */
-async function parseScriptSingle(content: string, batchIndex?: number, totalBatches?: number): Promise<{
-  sceneLocations?: SceneLocation[];
-  scenes: EnhancedShot[];
-  characters: Array<{
-    name: string;
-    role: 'protagonist' | 'antagonist' | 'supporting';
-    description: string;
-    appearance?: string;
-    gender?: string;
-    ageGroup?: string;
-    estimatedAge?: number | null;
-  }>;
-}> {
-  const batchInfo = batchIndex ? `（第${batchIndex}/${totalBatches}批）` : '';
-  const isBatchMode = batchIndex !== undefined && totalBatches !== undefined;
-
-  // 发送进度更新
-  if (isBatchMode) {
-    const batchProgress = Math.round(((batchIndex! - 1) / totalBatches!) * 100);
-    sendParseProgress('analyzing', batchProgress, `正在分析第 ${batchIndex}/${totalBatches} 批内容...`);
-  } else {
-    sendParseProgress('analyzing', 10, '正在分析剧本内容...');
-  }
-
-  const systemPrompt = `你是一个专业的影视剧本分析师和分镜师。请仔细分析用户提供的剧本内容${batchInfo}，将其拆解为可用于视频制作的分镜。
+function buildScriptParseSystemPrompt(batchInfo: string): string {
+  return `你是一个专业的影视剧本分析师和分镜师。请仔细分析用户提供的剧本内容${batchInfo}，将其拆解为可用于视频制作的分镜。
 
 ## 重要：你必须完整分析整个剧本，不要遗漏任何内容！
 
@@ -2715,12 +3852,48 @@ async function parseScriptSingle(content: string, batchIndex?: number, totalBatc
 - 场景开头的环境描述也要生成一个分镜（用于建立场景）
 - 同一场景的多个分镜应该关联到相同的 sceneId
 - 对话必须标注语气(tone)和情绪(emotion)`;
+}
 
-  const prompt = `请分析以下剧本，按要求拆解为分镜。注意：必须完整分析，不要遗漏任何内容！
+/**
+ * 剧本解析用户提示词
+ */
+function buildScriptParseUserPrompt(content: string): string {
+  return `请分析以下剧本，按要求拆解为分镜。注意：必须完整分析，不要遗漏任何内容！
 
 ${content}
 
 请严格按照 JSON 格式返回分析结果，确保包含 sceneLocations、shots、characters 三个数组。`;
+}
+
+/**
+ * 解析单个剧本片段
+ */
+async function parseScriptSingle(content: string, batchIndex?: number, totalBatches?: number): Promise<{
+  sceneLocations?: SceneLocation[];
+  scenes: EnhancedShot[];
+  characters: Array<{
+    name: string;
+    role: 'protagonist' | 'antagonist' | 'supporting';
+    description: string;
+    appearance?: string;
+    gender?: string;
+    ageGroup?: string;
+    estimatedAge?: number | null;
+  }>;
+}> {
+  const batchInfo = batchIndex ? `（第${batchIndex}/${totalBatches}批）` : '';
+  const isBatchMode = batchIndex !== undefined && totalBatches !== undefined;
+
+  // 发送进度更新
+  if (isBatchMode) {
+    const batchProgress = Math.round(((batchIndex! - 1) / totalBatches!) * 100);
+    sendParseProgress('analyzing', batchProgress, `正在分析第 ${batchIndex}/${totalBatches} 批内容...`);
+  } else {
+    sendParseProgress('analyzing', 10, '正在分析剧本内容...');
+  }
+
+  const systemPrompt = buildScriptParseSystemPrompt(batchInfo);
+  const prompt = buildScriptParseUserPrompt(content);
 
   // 发送进度更新 - 开始调用 AI
   if (isBatchMode) {
@@ -2729,7 +3902,7 @@ ${content}
     sendParseProgress('calling_ai', 30, '正在调用 AI 分析剧本...');
   }
 
-  const response = await generateText(prompt, systemPrompt);
+  const response = await generateText(prompt, systemPrompt, { json: true });
 
   // 发送进度更新 - AI 返回，开始解析
   if (isBatchMode) {
@@ -2838,6 +4011,32 @@ ${content}
 
 // ==================== 场景参考图生成 ====================
 
+/**
+ * 构建场景提示词模板变量（时间、光线、氛围未填写时使用默认描述）
+ */
+function buildScenePromptVariables(scene: {
+  name: string;
+  location: string | null;
+  timeOfDay: string | null;
+  interior: boolean | null;
+  description: string | null;
+  props: string | null;
+  lighting: string | null;
+  atmosphere: string | null;
+}): PromptTemplateVariables {
+  const timeOfDay = scene.timeOfDay || '白天';
+  return {
+    'scene.name': scene.name,
+    'scene.location': scene.location,
+    'scene.timeOfDay': timeOfDay,
+    'scene.lighting': scene.lighting || (timeOfDay.includes('夜') ? '温暖的室内灯光' : '明亮的自然光'),
+    'scene.atmosphere': scene.atmosphere || '日常氛围',
+    'scene.description': scene.description,
+    'scene.props': scene.props,
+    'scene.interior': scene.interior === false ? '室外' : '室内',
+  };
+}
+
 /**
  * 生成场景参考图
  * 根据场景描述生成场景环境图，用于保持分镜的场景一致性
@@ -2853,28 +4052,9 @@ export async function generateSceneImage(
 
   onProgress?.(10);
 
-  // 构建场景描述提示词
-  const timeDesc = sceneLocation.timeOfDay || '白天';
-  const lightingDesc = sceneLocation.lighting || (timeDesc.includes('夜') ? '温暖的室内灯光' : '明亮的自然光');
-  const atmosphereDesc = sceneLocation.atmosphere || '日常氛围';
-
-  let scenePrompt = `场景环境图，无人物，${sceneLocation.interior ? '室内' : '室外'}场景。
-
-场景名称：${sceneLocation.name}
-地点：${sceneLocation.location}
-时间：${timeDesc}
-光线：${lightingDesc}
-氛围：${atmosphereDesc}
-
-详细描述：${sceneLocation.description}
-
-道具布置：${sceneLocation.props}
-
-要求：
-- 这是一个场景参考图，用于展示环境
-- 画面中不要有人物
-- 清晰展示场景的空间布局和主要元素
-- 光线和氛围要与描述一致`;
+  // 使用提示词模板构建场景描述提示词
+  const template = await getPromptTemplate('scene_image', projectId);
+  const scenePrompt = renderPromptTemplate(template, buildScenePromptVariables(sceneLocation));
 
   onProgress?.(30);
 
@@ -2884,7 +4064,9 @@ export async function generateSceneImage(
   onProgress?.(50);
 
   // 生成图片
-  const imageBuffer = await generateImage(styledPrompt, effectiveStyleId);
+  const negativePrompt = await resolveNegativePrompt(projectId, effectiveStyleId);
+  const imageBuffer = await generateImage(styledPrompt, negativePrompt);
+  await recordImageUsage(projectId, null);
 
   onProgress?.(80);
 
@@ -2920,27 +4102,10 @@ export async function editSceneImage(
   onProgress?.(20);
 
   const config = await getImageApiConfig();
-  let imageBuffer: Buffer;
-
-  // 根据不同服务商选择编辑逻辑
-  if (config.provider === 'aliyun') {
-    imageBuffer = await callAliyunImageEdit(
-      config.baseUrl,
-      config.apiKey,
-      styledPrompt,
-      scene.imagePath,
-      config.imageEditModel
-    );
-  } else if (config.provider === 'apiyi') {
-    imageBuffer = await callApiyiImageEdit(
-      config.baseUrl,
-      config.apiKey,
-      styledPrompt,
-      scene.imagePath,
-      config.imageEditModel || config.imageModel
-    );
-  } else {
-    // 暂时不支持的服务商，回退到重新生成
+  const adapter = getProvider('image', config.provider);
+
+  if (!adapter.capabilities.edit || !adapter.edit) {
+    // 服务商不支持图片编辑，回退到重新生成
     console.warn('[AI Service] 该服务商暂不支持图片编辑，回退到重新生成');
     // 将 SceneData 转换为 SceneLocation 格式
     const sceneLocation: SceneLocation = {
@@ -2955,20 +4120,26 @@ export async function editSceneImage(
       lighting: scene.lighting || '',
       atmosphere: scene.atmosphere || '',
     };
-    return await generateSceneImage(scene.projectId, sceneLocation, styleId, onProgress);
+    const imagePath = await generateSceneImage(scene.projectId, sceneLocation, styleId, onProgress);
+    await addGeneratedSceneImage(sceneId, imagePath);
+    return imagePath;
   }
 
+  const negativePrompt = await resolveNegativePrompt(scene.projectId, styleId);
+  const { buffer: imageBuffer } = await adapter.edit(config, {
+    ...withNegativePrompt(adapter.capabilities, styledPrompt, negativePrompt),
+    imagePath: scene.imagePath,
+  });
+  await recordImageUsage(scene.projectId, null, adapter.usageModel(config, 'edit'));
+
   onProgress?.(80);
 
   // 保存图像
   const filename = `scene_${scene.id}_edit_${Date.now()}.png`;
   const imagePath = saveProjectFile(scene.projectId, 'scenes', filename, imageBuffer);
 
-  // 更新场景
-  const { updateScene } = await import('./scene.service');
-  await updateScene(sceneId, {
-    imagePath,
-  });
+  // 保存为新版本并设为当前参考图
+  await addGeneratedSceneImage(sceneId, imagePath);
 
   onProgress?.(100);
 
@@ -3006,6 +4177,100 @@ export async function generateAllSceneImages(
   return results;
 }
 
+// ==================== 提示词预览 ====================
+
+/** 分镜提示词预览：与实际生成时发送给服务商的内容一致 */
+export interface ShotPromptPreview {
+  kind: 'image' | 'video';
+  provider: string;
+  prompt: string; // 服务商不支持负面提示词时已并入
+  negativePrompt: string | null; // 单独传递的负面提示词
+  references: Array<{ name: string; role: ImageReference['role']; view: CharacterView | null; imagePath: string }>;
+  sourceImage: string | null; // 视频首帧图
+}
+
+/**
+ * 预览分镜生成时使用的最终提示词和参考图（不调用生成服务）
+ */
+export async function previewShotPrompt(shotId: string, kind: 'image' | 'video'): Promise<ShotPromptPreview> {
+  const shot = await getShot(shotId);
+  if (!shot) throw new Error('分镜不存在');
+
+  const project = await getProject(shot.projectId);
+  const styleId = project?.styleId || 'animation_anime_2d';
+
+  const { styledPrompt, scene, characters } = await assembleShotPrompt(shot, kind, styleId);
+  const negativePrompt = await resolveNegativePrompt(shot.projectId, styleId, shot.negativePrompt);
+  const characterImages = collectCharacterImages(characters);
+
+  let provider: string;
+  let references: ImageReference[];
+  let request: { prompt: string; negativePrompt?: string };
+  if (kind === 'image') {
+    const config = await getImageApiConfig();
+    const adapter = getProvider('image', config.provider);
+    const sceneReference = scene?.imagePath ? { name: scene.name, imagePath: scene.imagePath } : null;
+    provider = config.provider;
+    references = selectShotImageReferences(adapter, characterImages, sceneReference, shot.cameraType);
+    request = buildImageProviderRequest(adapter.capabilities, styledPrompt, negativePrompt, references);
+  } else {
+    const config = await getVideoApiConfig();
+    const adapter = getProvider('video', config.provider);
+    const capabilities = resolveCapabilities(adapter, config);
+    provider = config.provider;
+    references = selectShotVideoReferences(capabilities, characterImages, shot.cameraType);
+    request = buildVideoProviderRequest(capabilities, styledPrompt, negativePrompt, references, !!shot.imagePath);
+  }
+
+  return {
+    kind,
+    provider,
+    prompt: request.prompt,
+    negativePrompt: request.negativePrompt || null,
+    references: references.map(r => ({ name: r.name, role: r.role, view: r.view ?? null, imagePath: r.imagePath })),
+    sourceImage: kind === 'video' ? shot.imagePath : null,
+  };
+}
+
+// ==================== 提示词模板预览 ====================
+
+/**
+ * 使用项目中的实际数据预览模板渲染并应用风格后的最终提示词（不调用生成服务）
+ * 分镜模板使用指定分镜（默认第一个分镜），场景模板使用该分镜所属场景，角色模板使用该分镜的第一个角色
+ */
+export async function previewPromptTemplate(
+  projectId: string,
+  key: PromptTemplateKey,
+  content: string,
+  shotId?: string | null
+): Promise<string> {
+  const project = await getProject(projectId);
+  const styleId = project?.styleId || 'animation_anime_2d';
+
+  const shot = shotId ? await getShot(shotId) : null;
+
+  if (key === 'shot_image' || key === 'shot_video') {
+    const previewShot = shot ?? (await getShots(projectId))[0];
+    if (!previewShot) throw new Error('项目中还没有分镜，无法预览');
+    const { styledPrompt } = await assembleShotPrompt(previewShot, key === 'shot_image' ? 'image' : 'video', styleId, content);
+    return styledPrompt;
+  }
+
+  if (key === 'scene_image') {
+    const scene = (shot?.sceneId ? await getScene(shot.sceneId) : null) ?? (await getScenes(projectId))[0];
+    if (!scene) throw new Error('项目中还没有场景，无法预览');
+    return applyStyleToImagePrompt(renderPromptTemplate(content, buildScenePromptVariables(scene)), styleId);
+  }
+
+  const character = (shot ? (await getShotCharacters(shot))[0] : null) ?? (await getCharacters(projectId))[0];
+  if (!character) throw new Error('项目中还没有角色，无法预览');
+  const variables = buildCharacterPromptVariables(character, styleId);
+  if (key === 'character_view') {
+    variables.view = CHARACTER_VIEW_PROMPTS.front;
+  }
+  return applyStyleToImagePrompt(renderPromptTemplate(content, variables), styleId);
+}
+
 // ==================== 可用模型列表 ====================
 
 /**
@@ -3017,7 +4282,9 @@ export function getAvailableTextModels(): Array<{ id: string; name: string; prov
     { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro Preview', provider: 'Google' },
     { id: 'gpt-4o', name: 'GPT-4o', provider: 'OpenAI' },
     { id: 'gpt-5', name: 'GPT-5', provider: 'OpenAI' },
-    { id: 'claude-sonnet-4.5-20250514', name: 'Claude Sonnet 4.5', provider: 'Anthropic' },
+    { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5 (官方)', provider: 'Anthropic' },
+    { id: 'claude-opus-4-1', name: 'Claude Opus 4.1 (官方)', provider: 'Anthropic' },
+    { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5 (官方)', provider: 'Anthropic' },
     { id: 'grok-4', name: 'Grok 4', provider: 'xAI' },
     { id: 'deepseek-chat', name: 'DeepSeek Chat', provider: 'DeepSeek' },
   ];
@@ -7,6 +7,21 @@ const { characters } = schema;
 
 export type CharacterRole = 'protagonist' | 'antagonist' | 'supporting';
 
+/** 情绪预设：分镜情绪（或语气）与名称一致时，配音使用预设的语气指令 */
+export interface VoiceEmotionPreset {
+  emotion: string;
+  instruction: string;
+}
+
+/** 角色音色配置（同一角色在整个项目中的配音使用同一音色） */
+export interface CharacterVoiceProfile {
+  provider: string; // 音色所属的语音服务商（与当前服务商不一致时使用默认音色）
+  voiceId: string;
+  speed: number; // 语速（1 为正常）
+  pitch: number; // 音高倍率（1 为正常，仅支持的服务商生效）
+  emotionPresets: VoiceEmotionPreset[];
+}
+
 export interface CharacterData {
   id: string;
   projectId: string;
@@ -16,10 +31,32 @@ export interface CharacterData {
   appearance: string | null;
   avatarPath: string | null;
   generatedAvatars: string[];
+  voiceProfile: CharacterVoiceProfile | null;
+  voiceSamplePath: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * 解析音色配置 JSON
+ */
+function parseVoiceProfile(voiceProfileJson: string | null): CharacterVoiceProfile | null {
+  if (!voiceProfileJson) return null;
+  try {
+    const parsed = JSON.parse(voiceProfileJson);
+    if (!parsed?.voiceId) return null;
+    return {
+      provider: parsed.provider || '',
+      voiceId: parsed.voiceId,
+      speed: parsed.speed || 1,
+      pitch: parsed.pitch || 1,
+      emotionPresets: Array.isArray(parsed.emotionPresets) ? parsed.emotionPresets : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * 获取项目所有角色
  */
@@ -36,6 +73,7 @@ export async function getCharacters(projectId: string): Promise<CharacterData[]>
     ...char,
     role: char.role as CharacterRole,
     generatedAvatars: char.generatedAvatars ? JSON.parse(char.generatedAvatars) : [],
+    voiceProfile: parseVoiceProfile(char.voiceProfile),
   }));
 }
 
@@ -52,6 +90,7 @@ export async function getCharacter(id: string): Promise<CharacterData | null> {
     ...char,
     role: char.role as CharacterRole,
     generatedAvatars: char.generatedAvatars ? JSON.parse(char.generatedAvatars) : [],
+    voiceProfile: parseVoiceProfile(char.voiceProfile),
   };
 }
 
@@ -137,6 +176,8 @@ export async function updateCharacter(
     description: string;
     appearance: string;
     avatarPath: string;
+    voiceProfile: CharacterVoiceProfile | null;
+    voiceSamplePath: string | null;
   }>
 ): Promise<void> {
   const db = getDatabase();
@@ -144,10 +185,17 @@ export async function updateCharacter(
 
   if (!char) return;
 
+  // 音色配置以 JSON 字符串保存
+  const { voiceProfile, ...rest } = data;
+  const updateData: Record<string, any> = { ...rest };
+  if (voiceProfile !== undefined) {
+    updateData.voiceProfile = voiceProfile?.voiceId ? JSON.stringify(voiceProfile) : null;
+  }
+
   await db
     .update(characters)
     .set({
-      ...data,
+      ...updateData,
       updatedAt: new Date().toISOString(),
     })
     .where(eq(characters.id, id));
@@ -172,6 +220,9 @@ export async function deleteCharacter(id: string): Promise<void> {
     const avatars = JSON.parse(char.generatedAvatars);
     avatars.forEach((path: string) => deleteProjectFile(path));
   }
+  if (char.voiceSamplePath) {
+    deleteProjectFile(char.voiceSamplePath);
+  }
 
   await db.delete(characters).where(eq(characters.id, id));
   await touchProject(char.projectId);
@@ -258,6 +309,9 @@ export async function cleanupDuplicateCharacters(projectId: string): Promise<num
           const avatars = JSON.parse(charToDelete.generatedAvatars);
           avatars.forEach((path: string) => deleteProjectFile(path));
         }
+        if (charToDelete.voiceSamplePath) {
+          deleteProjectFile(charToDelete.voiceSamplePath);
+        }
         await db.delete(characters).where(eq(characters.id, charToDelete.id));
         deletedCount++;
       }
@@ -1,15 +1,26 @@
 import { app, dialog, shell } from 'electron';
-import { getShots } from './shot.service';
+import { getShots, type ShotData } from './shot.service';
 import { getProject } from './project.service';
+import { getCharacters } from './character.service';
+import {
+  DEFAULT_SUBTITLE_STYLE,
+  buildSubtitleCues,
+  formatSubtitles,
+  type SubtitleClip,
+  type SubtitleFormat,
+  type SubtitleStyle,
+} from './subtitle.service';
 import * as fs from 'fs';
 import * as path from 'path';
 import { spawn } from 'child_process';
 
 export interface ExportOptions {
-  resolution: '1920x1080' | '1280x720' | '3840x2160';
+  resolution: '1920x1080' | '1280x720' | '3840x2160' | '1080x1920' | '720x1280';
   fps: 24 | 30 | 60;
   format: 'mp4' | 'webm' | 'mov';
   quality: 'low' | 'medium' | 'high';
+  burnSubtitles: boolean; // 将台词字幕烧录进画面
+  subtitleStyle: SubtitleStyle;
 }
 
 export interface ExportProgress {
@@ -37,14 +48,18 @@ export async function getExportPreview(projectId: string) {
     duration: shot.duration || 5,
     hasImage: !!shot.imagePath,
     hasVideo: !!shot.videoPath,
+    hasAudio: !!shot.audioPath,
+    dialogue: shot.dialogue,
     imagePath: shot.imagePath,
     videoPath: shot.videoPath,
+    audioPath: shot.audioPath,
   }));
 
   const totalDuration = clips.reduce((sum, c) => sum + c.duration, 0);
   const readyCount = clips.filter((c) => c.hasVideo || c.hasImage).length;
   const videoCount = clips.filter((c) => c.hasVideo).length;
   const imageCount = clips.filter((c) => c.hasImage && !c.hasVideo).length;
+  const audioCount = clips.filter((c) => c.hasAudio).length;
 
   return {
     projectName: project?.name || '未命名项目',
@@ -53,6 +68,7 @@ export async function getExportPreview(projectId: string) {
     readyCount,
     videoCount,
     imageCount,
+    audioCount,
     totalClips: clips.length,
   };
 }
@@ -65,13 +81,100 @@ export async function selectExportPath(projectName: string, format: string): Pro
     title: '选择导出位置',
     defaultPath: path.join(app.getPath('videos'), `${projectName}_export.${format}`),
     filters: [
-      { name: 'Video', extensions: [format] },
+      { name: isSubtitleFormat(format) ? 'Subtitle' : 'Video', extensions: [format] },
     ],
   });
 
   return result.canceled ? null : result.filePath || null;
 }
 
+function isSubtitleFormat(format: string): format is SubtitleFormat {
+  return format === 'srt' || format === 'ass';
+}
+
+/**
+ * 获取分镜的导出素材，没有素材的分镜返回 null（导出时跳过）
+ */
+function getClipSource(shot: ShotData): ClipSource | null {
+  // 分镜音频（配音、音效等）与片段原声混合
+  const audioPath = shot.audioPath && fs.existsSync(shot.audioPath) ? shot.audioPath : null;
+
+  if (shot.videoPath && fs.existsSync(shot.videoPath)) {
+    return { videoPath: shot.videoPath, audioPath };
+  }
+  if (shot.imagePath && fs.existsSync(shot.imagePath)) {
+    return { imagePath: shot.imagePath, duration: shot.duration || 5, audioPath };
+  }
+  return null;
+}
+
+/**
+ * 计算字幕时间轴：与导出视频一致地跳过没有素材的分镜，视频片段使用视频实际时长
+ */
+async function getSubtitleClips(projectId: string, shots: ShotData[]): Promise<SubtitleClip[]> {
+  const characters = await getCharacters(projectId);
+  const characterNames = new Map(characters.map(c => [c.id, c.name]));
+
+  const clips: SubtitleClip[] = [];
+  let start = 0;
+  for (const shot of shots) {
+    const source = getClipSource(shot);
+    if (!source) continue;
+
+    const duration = 'videoPath' in source
+      ? (await getMediaDuration(source.videoPath)) ?? (shot.duration || 5)
+      : source.duration;
+
+    clips.push({
+      start,
+      duration,
+      dialogue: shot.dialogue,
+      speaker: shot.speakerId ? characterNames.get(shot.speakerId) ?? null : null,
+    });
+    start += duration;
+  }
+  return clips;
+}
+
+/**
+ * 生成项目字幕内容
+ */
+async function buildProjectSubtitles(
+  projectId: string,
+  shots: ShotData[],
+  format: SubtitleFormat,
+  options: Pick<ExportOptions, 'resolution' | 'subtitleStyle'>
+): Promise<string> {
+  const style = { ...DEFAULT_SUBTITLE_STYLE, ...options.subtitleStyle };
+  const clips = await getSubtitleClips(projectId, shots);
+  const cues = buildSubtitleCues(clips, style, options.resolution);
+  if (cues.length === 0) {
+    throw new Error('没有可导出的台词');
+  }
+  return formatSubtitles(format, cues, style, options.resolution);
+}
+
+/**
+ * 导出字幕文件（SRT / ASS）
+ */
+export async function exportSubtitles(
+  projectId: string,
+  outputPath: string,
+  format: SubtitleFormat,
+  options: Pick<ExportOptions, 'resolution' | 'subtitleStyle'>
+): Promise<string> {
+  if (!isSubtitleFormat(format)) {
+    throw new Error(`不支持的字幕格式: ${format}`);
+  }
+
+  const shots = await getShots(projectId);
+  const content = await buildProjectSubtitles(projectId, shots, format, options);
+  // SRT 加 BOM，避免部分播放器按本地编码识别中文
+  fs.writeFileSync(outputPath, (format === 'srt' ? '\uFEFF' : '') + content, 'utf-8');
+  console.log(`[ExportService] 字幕已导出: ${outputPath}`);
+  return outputPath;
+}
+
 /**
  * 导出视频
  */
@@ -104,7 +207,6 @@ export async function exportVideo(
   // 处理每个分镜
   for (let i = 0; i < shots.length; i++) {
     const shot = shots[i];
-    const duration = shot.duration || 5;
 
     onProgress?.({
       status: 'preparing',
@@ -114,14 +216,13 @@ export async function exportVideo(
       message: `处理分镜 ${i + 1}/${shots.length}...`,
     });
 
-    if (shot.videoPath && fs.existsSync(shot.videoPath)) {
-      // 使用视频文件
-      fileListContent.push(`file '${shot.videoPath.replace(/\\/g, '/')}'`);
-    } else if (shot.imagePath && fs.existsSync(shot.imagePath)) {
-      // 从图片生成视频片段
-      const tempVideoPath = path.join(tempDir, `shot_${i}.mp4`);
-      await imageToVideo(shot.imagePath, tempVideoPath, duration, options);
-      fileListContent.push(`file '${tempVideoPath.replace(/\\/g, '/')}'`);
+    // 优先使用视频文件（保留视频原声），否则从图片生成视频片段
+    const source = getClipSource(shot);
+    const tempClipPath = path.join(tempDir, `shot_${i}.mkv`);
+
+    if (source) {
+      await prepareClip(source, tempClipPath, options);
+      fileListContent.push(`file '${tempClipPath.replace(/\\/g, '/')}'`);
     } else {
       // 跳过没有素材的分镜
       console.warn(`分镜 ${i + 1} 没有素材，跳过`);
@@ -137,6 +238,18 @@ export async function exportVideo(
   // 写入文件列表
   fs.writeFileSync(fileListPath, fileListContent.join('\n'), 'utf-8');
 
+  // 烧录字幕时在临时目录生成 ASS 字幕
+  let subtitlesFile: string | null = null;
+  if (options.burnSubtitles) {
+    try {
+      const content = await buildProjectSubtitles(projectId, shots, 'ass', options);
+      subtitlesFile = 'subtitles.ass';
+      fs.writeFileSync(path.join(tempDir, subtitlesFile), content, 'utf-8');
+    } catch (error) {
+      console.warn('[ExportService] 跳过字幕烧录:', error instanceof Error ? error.message : error);
+    }
+  }
+
   onProgress?.({
     status: 'exporting',
     progress: 40,
@@ -144,7 +257,7 @@ export async function exportVideo(
   });
 
   // 使用 FFmpeg 合并视频
-  await concatVideos(fileListPath, outputPath, options, (progress) => {
+  await concatVideos(fileListPath, outputPath, options, tempDir, subtitlesFile, (progress) => {
     onProgress?.({
       status: 'exporting',
       progress: 40 + Math.round(progress * 0.55),
@@ -165,29 +278,20 @@ export async function exportVideo(
   return outputPath;
 }
 
+// 片段统一的音频格式（合并时各片段的音频流参数需一致）
+const CLIP_AUDIO_SAMPLE_RATE = 48000;
+
+/** 导出片段素材：视频文件或图片（图片需指定时长），以及可选的分镜音频 */
+type ClipSource =
+  | { videoPath: string; audioPath: string | null }
+  | { imagePath: string; duration: number; audioPath: string | null };
+
 /**
- * 将图片转换为视频
+ * 运行 FFmpeg 命令
  */
-async function imageToVideo(
-  imagePath: string,
-  outputPath: string,
-  duration: number,
-  options: ExportOptions
-): Promise<void> {
-  const [width, height] = options.resolution.split('x');
-
+function runFFmpeg(args: string[]): Promise<void> {
   return new Promise((resolve, reject) => {
-    const ffmpeg = spawn('ffmpeg', [
-      '-y',
-      '-loop', '1',
-      '-i', imagePath,
-      '-c:v', 'libx264',
-      '-t', String(duration),
-      '-pix_fmt', 'yuv420p',
-      '-vf', `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`,
-      '-r', String(options.fps),
-      outputPath,
-    ]);
+    const ffmpeg = spawn('ffmpeg', args);
 
     ffmpeg.on('close', (code) => {
       if (code === 0) {
@@ -204,37 +308,166 @@ async function imageToVideo(
 }
 
 /**
- * 合并视频文件
+ * 读取媒体文件信息（FFmpeg 输出），读取失败时返回空字符串
  */
-async function concatVideos(
-  fileListPath: string,
-  outputPath: string,
-  options: ExportOptions,
-  onProgress?: (progress: number) => void
-): Promise<void> {
+function readMediaInfo(filePath: string): Promise<string> {
+  return new Promise((resolve) => {
+    const ffmpeg = spawn('ffmpeg', ['-hide_banner', '-i', filePath]);
+    let output = '';
+
+    ffmpeg.stderr.on('data', (data) => {
+      output += data.toString();
+    });
+
+    // 只读取文件信息，FFmpeg 会因未指定输出而以非零码退出
+    ffmpeg.on('close', () => resolve(output));
+    ffmpeg.on('error', () => resolve(''));
+  });
+}
+
+/**
+ * 检查媒体文件是否包含音频流
+ */
+async function hasAudioStream(filePath: string): Promise<boolean> {
+  return /Stream #\d+:\d+.*: Audio:/.test(await readMediaInfo(filePath));
+}
+
+/**
+ * 获取媒体文件时长（秒），无法读取时返回 null
+ */
+async function getMediaDuration(filePath: string): Promise<number | null> {
+  const match = (await readMediaInfo(filePath)).match(/Duration: (\d{2}):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  if (!match) return null;
+  const [, hours, minutes, seconds] = match;
+  return parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseFloat(seconds);
+}
+
+/**
+ * 将分镜素材转换为统一格式的片段（相同分辨率、帧率和音频参数）
+ * 素材没有音频时生成静音音轨，保证合并时各片段的音视频流对齐；
+ * 有分镜音频时与原声混合，片段时长以画面为准
+ */
+async function prepareClip(source: ClipSource, outputPath: string, options: ExportOptions): Promise<void> {
   const [width, height] = options.resolution.split('x');
+  const args = ['-y'];
 
+  if ('videoPath' in source) {
+    args.push('-i', source.videoPath);
+  } else {
+    args.push('-loop', '1', '-t', String(source.duration), '-i', source.imagePath);
+  }
+
+  // 视频原声，没有时使用静音音源
+  const hasOriginalAudio = 'videoPath' in source && await hasAudioStream(source.videoPath);
+  if (!hasOriginalAudio) {
+    args.push('-f', 'lavfi', '-i', `anullsrc=r=${CLIP_AUDIO_SAMPLE_RATE}:cl=stereo`);
+  }
+  const baseAudioInput = hasOriginalAudio ? '0:a' : '1:a';
+
+  // 片段时长以画面为准，音频补齐静音到该时长（无法读取视频时长时由 -shortest 截断）
+  const duration = 'videoPath' in source ? await getMediaDuration(source.videoPath) : source.duration;
+
+  const audioFormat = `aresample=${CLIP_AUDIO_SAMPLE_RATE},aformat=sample_fmts=fltp:channel_layouts=stereo`;
+  const filters = [
+    `[0:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,fps=${options.fps},format=yuv420p[v]`,
+    `[${baseAudioInput}]${audioFormat},${duration ? `apad=whole_dur=${duration}` : 'apad'}[base]`,
+  ];
+
+  if (source.audioPath) {
+    args.push('-i', source.audioPath);
+    const shotAudioInput = hasOriginalAudio ? 1 : 2;
+    filters.push(
+      `[${shotAudioInput}:a]${audioFormat}[shot]`,
+      '[base][shot]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[a]'
+    );
+  } else {
+    filters.push('[base]anull[a]');
+  }
+
+  args.push(
+    '-filter_complex', filters.join(';'),
+    '-map', '[v]',
+    '-map', '[a]',
+    ...(duration ? ['-t', String(duration)] : ['-shortest']),
+    // 中间片段使用高质量编码，最终合并时再按导出格式编码
+    '-c:v', 'libx264',
+    '-crf', '16',
+    '-preset', 'veryfast',
+    '-c:a', 'pcm_s16le',
+    outputPath
+  );
+
+  await runFFmpeg(args);
+}
+
+/**
+ * 根据导出格式选择编码参数：mp4/mov 使用 H.264 + AAC，webm 使用 VP9 + Opus
+ */
+function getFormatCodecArgs(options: ExportOptions): string[] {
   // 根据质量设置 CRF 值
   const crfMap = {
     low: '28',
     medium: '23',
     high: '18',
   };
+  // VP9 的 CRF 取值范围与 H.264 不同
+  const vp9CrfMap = {
+    low: '40',
+    medium: '33',
+    high: '24',
+  };
+  const audioBitrateMap = {
+    low: '96k',
+    medium: '128k',
+    high: '192k',
+  };
 
+  if (options.format === 'webm') {
+    return [
+      '-c:v', 'libvpx-vp9',
+      '-crf', vp9CrfMap[options.quality],
+      '-b:v', '0',
+      '-c:a', 'libopus',
+      '-b:a', audioBitrateMap[options.quality],
+    ];
+  }
+
+  return [
+    '-c:v', 'libx264',
+    '-crf', crfMap[options.quality],
+    '-preset', 'medium',
+    '-c:a', 'aac',
+    '-b:a', audioBitrateMap[options.quality],
+    ...(options.format === 'mp4' ? ['-movflags', '+faststart'] : []),
+  ];
+}
+
+/**
+ * 合并视频文件，指定字幕文件时烧录字幕
+ * 字幕文件名相对于工作目录，避免在滤镜参数中转义 Windows 路径
+ */
+async function concatVideos(
+  fileListPath: string,
+  outputPath: string,
+  options: ExportOptions,
+  workDir: string,
+  subtitlesFile: string | null,
+  onProgress?: (progress: number) => void
+): Promise<void> {
   return new Promise((resolve, reject) => {
+    // 各片段已统一分辨率、帧率和音频参数，合并时按导出格式编码音视频
     const ffmpeg = spawn('ffmpeg', [
       '-y',
       '-f', 'concat',
       '-safe', '0',
       '-i', fileListPath,
-      '-c:v', 'libx264',
-      '-crf', crfMap[options.quality],
-      '-preset', 'medium',
-      '-vf', `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`,
-      '-r', String(options.fps),
+      '-map', '0:v',
+      '-map', '0:a',
+      ...(subtitlesFile ? ['-vf', `subtitles=${subtitlesFile}`] : []),
+      ...getFormatCodecArgs(options),
       '-pix_fmt', 'yuv420p',
       outputPath,
-    ]);
+    ], { cwd: workDir });
 
     let totalDuration = 0;
     let currentTime = 0;
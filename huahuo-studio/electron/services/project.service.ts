@@ -20,6 +20,23 @@ export interface ProjectWithStats {
   completedShotCount: number;
 }
 
+export type BudgetMode = 'block' | 'warn';
+
+/**
+ * 项目级设置（存储在 projects.settings JSON 中）
+ */
+export interface ProjectSettings {
+  budgetLimit: number | null; // 预算上限（元），null 表示不限制
+  budgetMode: BudgetMode; // block: 超出预算时阻止生成; warn: 仅提示
+  negativePrompt: string | null; // 负面提示词，null 表示使用风格默认值
+}
+
+const defaultProjectSettings: ProjectSettings = {
+  budgetLimit: null,
+  budgetMode: 'block',
+  negativePrompt: null,
+};
+
 /**
  * 获取所有项目（含统计信息）
  */
@@ -126,6 +143,40 @@ export async function updateProject(
     .where(eq(projects.id, id));
 }
 
+/**
+ * 获取项目设置
+ */
+export async function getProjectSettings(id: string): Promise<ProjectSettings> {
+  const db = getDatabase();
+  const [project] = await db.select({ settings: projects.settings }).from(projects).where(eq(projects.id, id));
+
+  if (!project?.settings) return { ...defaultProjectSettings };
+
+  try {
+    return { ...defaultProjectSettings, ...JSON.parse(project.settings) };
+  } catch {
+    return { ...defaultProjectSettings };
+  }
+}
+
+/**
+ * 更新项目设置（与已有设置合并）
+ */
+export async function updateProjectSettings(id: string, updates: Partial<ProjectSettings>): Promise<ProjectSettings> {
+  const db = getDatabase();
+  const settings = { ...(await getProjectSettings(id)), ...updates };
+
+  await db
+    .update(projects)
+    .set({
+      settings: JSON.stringify(settings),
+      updatedAt: new Date().toISOString(),
+    })
+    .where(eq(projects.id, id));
+
+  return settings;
+}
+
 /**
  * 删除项目
  */
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../database', () => ({ getDatabase: vi.fn(), schema: { promptTemplates: {} } }));
+vi.mock('./utils', () => ({ generateId: vi.fn() }));
+
+import { DEFAULT_PROMPT_TEMPLATES, renderPromptTemplate } from './prompt-template.service';
+
+describe('renderPromptTemplate', () => {
+  it('替换变量，缺失或空白的变量为空', () => {
+    const result = renderPromptTemplate('地点：{{ shot.location }}，时间：{{shot.timeOfDay}}，{{shot.mood}}', {
+      'shot.location': ' 咖啡馆 ',
+      'shot.timeOfDay': null,
+    });
+
+    expect(result).toBe('地点：咖啡馆，时间：，');
+  });
+
+  it('# 段落仅在变量非空时输出，^ 段落仅在变量为空时输出', () => {
+    const template = '{{#shot.action}}动作：{{shot.action}}{{/shot.action}}{{^shot.action}}静止画面{{/shot.action}}';
+
+    expect(renderPromptTemplate(template, { 'shot.action': '奔跑' })).toBe('动作：奔跑');
+    expect(renderPromptTemplate(template, { 'shot.action': '  ' })).toBe('静止画面');
+    expect(renderPromptTemplate(template, {})).toBe('静止画面');
+  });
+
+  it('支持嵌套段落', () => {
+    const template = '{{#speaker.name}}说话角色: {{speaker.name}}{{#target.name}}，对话对象: {{target.name}}{{/target.name}}{{/speaker.name}}';
+
+    expect(renderPromptTemplate(template, { 'speaker.name': '小明', 'target.name': '小红' }))
+      .toBe('说话角色: 小明，对话对象: 小红');
+    expect(renderPromptTemplate(template, { 'speaker.name': '小明' })).toBe('说话角色: 小明');
+    expect(renderPromptTemplate(template, { 'target.name': '小红' })).toBe('');
+  });
+
+  it('清理行尾空白、多余空行和首尾空白', () => {
+    const template = '\n第一行   \n{{#shot.props}}道具{{/shot.props}}\n\n\n\n第二行\n\n';
+
+    expect(renderPromptTemplate(template, {})).toBe('第一行\n\n第二行');
+  });
+
+  it('分镜视频模板：无说话角色时按对白/旁白输出台词', () => {
+    const template = DEFAULT_PROMPT_TEMPLATES.shot_video.content;
+
+    const narration = renderPromptTemplate(template, { 'shot.dialogue': '很久以前' });
+    expect(narration).toContain('对白/旁白: 很久以前');
+    expect(narration).not.toContain('说话角色');
+
+    const dialogue = renderPromptTemplate(template, { 'shot.dialogue': '你好', 'speaker.name': '小明' });
+    expect(dialogue).toContain('说话角色: 【小明】');
+    expect(dialogue).toContain('台词: 你好');
+    expect(dialogue).not.toContain('对白/旁白');
+    expect(dialogue).not.toMatch(/\{\{|\}\}/);
+  });
+});
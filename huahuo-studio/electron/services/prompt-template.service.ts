@@ -0,0 +1,297 @@
+import { and, eq, isNull } from 'drizzle-orm';
+import { getDatabase, schema } from '../database';
+import { generateId } from './utils';
+
+const { promptTemplates } = schema;
+
+/**
+ * 提示词模板
+ * 分镜、场景、角色生成的提示词由模板渲染（风格前后缀在渲染后再套用），
+ * 模板按 项目覆盖 > 全局模板 > 内置默认 的顺序生效
+ *
+ * 模板语法：
+ * - {{shot.description}}：插入变量，变量不存在时为空
+ * - {{#shot.action}}...{{/shot.action}}：变量非空时才输出其中内容
+ * - {{^speaker.name}}...{{/speaker.name}}：变量为空时才输出其中内容
+ */
+
+export type PromptTemplateKey =
+  | 'shot_image'
+  | 'shot_video'
+  | 'scene_image'
+  | 'character_avatar'
+  | 'character_view';
+
+export type PromptTemplateSource = 'default' | 'global' | 'project';
+
+/** 模板变量（键为 shot.description 这样的完整变量名） */
+export type PromptTemplateVariables = Record<string, string | null | undefined>;
+
+export interface PromptTemplateDefinition {
+  key: PromptTemplateKey;
+  name: string;
+  description: string;
+  variables: Array<{ name: string; description: string }>;
+  content: string;
+}
+
+export interface PromptTemplateData extends PromptTemplateDefinition {
+  source: PromptTemplateSource;
+  defaultContent: string;
+}
+
+const SHOT_VARIABLES = [
+  { name: 'shot.description', description: '画面描述' },
+  { name: 'shot.action', description: '动作描述' },
+  { name: 'shot.props', description: '道具和布景' },
+  { name: 'shot.location', description: '地点' },
+  { name: 'shot.timeOfDay', description: '时间' },
+  { name: 'shot.cameraType', description: '镜头类型' },
+  { name: 'shot.mood', description: '情绪氛围' },
+  { name: 'shot.dialogue', description: '对白/旁白' },
+  { name: 'scene.name', description: '所属场景名称' },
+  { name: 'scene.description', description: '所属场景描述' },
+  { name: 'characters', description: '所有角色及外貌（已应用风格）' },
+  { name: 'speaker.name', description: '说话角色' },
+  { name: 'target.name', description: '对话对象' },
+];
+
+const CHARACTER_VARIABLES = [
+  { name: 'character.name', description: '角色名' },
+  { name: 'character.appearance', description: '外貌特征（已应用风格）' },
+  { name: 'character.description', description: '角色性格/描述' },
+];
+
+const SHOT_SCENE_SECTION = `{{#scene.description}}场景描述: {{scene.description}}{{/scene.description}}
+{{#shot.location}}地点: {{shot.location}}{{/shot.location}}
+{{#shot.timeOfDay}}时间: {{shot.timeOfDay}}{{/shot.timeOfDay}}
+{{#shot.props}}环境布置: {{shot.props}}{{/shot.props}}
+
+当前画面内容: {{shot.description}}
+{{#shot.action}}动作: {{shot.action}}{{/shot.action}}
+
+{{characters}}`;
+
+const SHOT_CAMERA_SECTION = `{{#shot.cameraType}}镜头类型: {{shot.cameraType}}{{/shot.cameraType}}
+{{#shot.mood}}情绪氛围: {{shot.mood}}{{/shot.mood}}`;
+
+/** 内置默认模板 */
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateKey, PromptTemplateDefinition> = {
+  shot_image: {
+    key: 'shot_image',
+    name: '分镜图像',
+    description: '生成分镜画面，角色和场景参考图另外附带',
+    variables: SHOT_VARIABLES,
+    // 图像不包含台词，以免画面中出现文字
+    content: `${SHOT_SCENE_SECTION}
+
+{{#speaker.name}}说话角色: 【{{speaker.name}}】{{#target.name}}，对话对象: 【{{target.name}}】{{/target.name}}{{/speaker.name}}
+
+${SHOT_CAMERA_SECTION}`,
+  },
+  shot_video: {
+    key: 'shot_video',
+    name: '分镜视频',
+    description: '基于分镜图生成视频，台词用于口型和表演',
+    variables: SHOT_VARIABLES,
+    content: `${SHOT_SCENE_SECTION}
+
+{{#speaker.name}}说话角色: 【{{speaker.name}}】{{#target.name}}，对话对象: 【{{target.name}}】{{/target.name}}
+{{#shot.dialogue}}台词: {{shot.dialogue}}{{/shot.dialogue}}{{/speaker.name}}{{^speaker.name}}{{#shot.dialogue}}对白/旁白: {{shot.dialogue}}{{/shot.dialogue}}{{/speaker.name}}
+
+${SHOT_CAMERA_SECTION}`,
+  },
+  scene_image: {
+    key: 'scene_image',
+    name: '场景参考图',
+    description: '生成无人物的场景环境图，用于保持分镜的场景一致性',
+    variables: [
+      { name: 'scene.name', description: '场景名称' },
+      { name: 'scene.location', description: '地点' },
+      { name: 'scene.timeOfDay', description: '时间（默认白天）' },
+      { name: 'scene.lighting', description: '光线' },
+      { name: 'scene.atmosphere', description: '氛围' },
+      { name: 'scene.description', description: '详细描述' },
+      { name: 'scene.props', description: '道具布置' },
+      { name: 'scene.interior', description: '室内/室外' },
+    ],
+    content: `场景环境图，无人物，{{scene.interior}}场景。
+
+场景名称：{{scene.name}}
+地点：{{scene.location}}
+时间：{{scene.timeOfDay}}
+光线：{{scene.lighting}}
+氛围：{{scene.atmosphere}}
+
+详细描述：{{scene.description}}
+
+道具布置：{{scene.props}}
+
+要求：
+- 这是一个场景参考图，用于展示环境
+- 画面中不要有人物
+- 清晰展示场景的空间布局和主要元素
+- 光线和氛围要与描述一致`,
+  },
+  character_avatar: {
+    key: 'character_avatar',
+    name: '角色头像',
+    description: '生成角色肖像头像',
+    variables: CHARACTER_VARIABLES,
+    content: `人物肖像，高清头像，专业角色设计。
+
+人物描述: {{character.name}}
+外貌特征: {{character.appearance}}
+角色性格: {{character.description}}
+
+要求: 角色设计图，简洁背景，突出人物特征`,
+  },
+  character_view: {
+    key: 'character_view',
+    name: '角色三视图',
+    description: '分别生成角色的正面、侧面、背面全身图',
+    variables: [
+      ...CHARACTER_VARIABLES,
+      { name: 'view', description: '视角说明（正面/侧面/背面）' },
+    ],
+    content: `角色设计参考图，白色简洁背景，全身像，高质量，专业角色设计。
+
+角色描述: {{character.name}}
+外貌特征: {{character.appearance}}
+
+视角: {{view}}`,
+  },
+};
+
+export const PROMPT_TEMPLATE_KEYS = Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateKey[];
+
+function assertTemplateKey(key: string): asserts key is PromptTemplateKey {
+  if (!(key in DEFAULT_PROMPT_TEMPLATES)) {
+    throw new Error(`未知的提示词模板: ${key}`);
+  }
+}
+
+/**
+ * 查询已保存的模板（projectId 为 null 时查询全局模板）
+ */
+async function findTemplate(key: PromptTemplateKey, projectId: string | null) {
+  const db = getDatabase();
+  const [template] = await db
+    .select()
+    .from(promptTemplates)
+    .where(and(
+      eq(promptTemplates.key, key),
+      projectId ? eq(promptTemplates.projectId, projectId) : isNull(promptTemplates.projectId)
+    ));
+  return template ?? null;
+}
+
+/**
+ * 获取生效的模板内容及来源
+ */
+async function resolveTemplate(
+  key: PromptTemplateKey,
+  projectId?: string | null
+): Promise<{ content: string; source: PromptTemplateSource }> {
+  if (projectId) {
+    const projectTemplate = await findTemplate(key, projectId);
+    if (projectTemplate) return { content: projectTemplate.content, source: 'project' };
+  }
+  const globalTemplate = await findTemplate(key, null);
+  if (globalTemplate) return { content: globalTemplate.content, source: 'global' };
+  return { content: DEFAULT_PROMPT_TEMPLATES[key].content, source: 'default' };
+}
+
+/**
+ * 获取生效的模板内容（项目覆盖 > 全局模板 > 内置默认）
+ */
+export async function getPromptTemplate(key: PromptTemplateKey, projectId?: string | null): Promise<string> {
+  return (await resolveTemplate(key, projectId)).content;
+}
+
+/**
+ * 获取所有模板（含变量说明、生效来源和内置默认内容）
+ * 不传 projectId 时返回全局模板
+ */
+export async function listPromptTemplates(projectId?: string | null): Promise<PromptTemplateData[]> {
+  const result: PromptTemplateData[] = [];
+  for (const key of PROMPT_TEMPLATE_KEYS) {
+    const definition = DEFAULT_PROMPT_TEMPLATES[key];
+    const { content, source } = await resolveTemplate(key, projectId);
+    result.push({ ...definition, content, source, defaultContent: definition.content });
+  }
+  return result;
+}
+
+/**
+ * 保存模板（projectId 为空时保存为全局模板）
+ */
+export async function savePromptTemplate(
+  key: string,
+  content: string,
+  projectId?: string | null
+): Promise<void> {
+  assertTemplateKey(key);
+  if (!content.trim()) throw new Error('模板内容不能为空');
+
+  const db = getDatabase();
+  const now = new Date().toISOString();
+  const existing = await findTemplate(key, projectId || null);
+
+  if (existing) {
+    await db
+      .update(promptTemplates)
+      .set({ content, updatedAt: now })
+      .where(eq(promptTemplates.id, existing.id));
+  } else {
+    await db.insert(promptTemplates).values({
+      id: generateId(),
+      projectId: projectId || null,
+      key,
+      content,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+  console.log(`[PromptTemplate] 已保存${projectId ? '项目' : '全局'}模板: ${key}`);
+}
+
+/**
+ * 重置模板：删除项目覆盖（回退到全局模板）或全局模板（回退到内置默认）
+ */
+export async function resetPromptTemplate(key: string, projectId?: string | null): Promise<void> {
+  assertTemplateKey(key);
+  const existing = await findTemplate(key, projectId || null);
+  if (!existing) return;
+
+  const db = getDatabase();
+  await db.delete(promptTemplates).where(eq(promptTemplates.id, existing.id));
+  console.log(`[PromptTemplate] 已重置${projectId ? '项目' : '全局'}模板: ${key}`);
+}
+
+const SECTION_PATTERN = /\{\{([#^])\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * 渲染模板：先展开条件段落（由外向内，支持嵌套），再替换变量，最后清理多余空行
+ */
+export function renderPromptTemplate(template: string, variables: PromptTemplateVariables): string {
+  const hasValue = (name: string) => !!variables[name]?.trim();
+
+  let result = template;
+  let previous: string;
+  do {
+    previous = result;
+    result = result.replace(SECTION_PATTERN, (_, type: string, name: string, body: string) =>
+      (type === '#') === hasValue(name) ? body : ''
+    );
+  } while (result !== previous);
+
+  return result
+    .replace(VARIABLE_PATTERN, (_, name: string) => variables[name]?.trim() ?? '')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,258 @@
+import type { RemoteJobState } from './ai.service';
+
+/**
+ * 服务商适配器注册表
+ * 文本/图像/视频/语音服务按服务商 ID 注册适配器，AI 服务和设置服务统一通过注册表分发，
+ * 新增服务商（包括内部自建服务）只需实现适配器并调用 registerProvider
+ */
+
+export type ProviderKind = 'text' | 'image' | 'video' | 'tts';
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  provider: string;
+}
+
+export interface ConnectionTestResult {
+  success: boolean;
+  message: string;
+}
+
+/** 服务商能力声明 */
+export interface ProviderCapabilities {
+  edit?: boolean; // 支持基于原图修改
+  multiReference?: boolean; // 支持多张参考图生成（视频为角色参考图）
+  maxReferenceImages?: number; // 单次请求最多参考图数量
+  imageInput?: boolean; // 视频生成支持首帧图片
+  negativePrompt?: boolean; // 支持负面提示词（不支持时并入提示词）
+  jsonMode?: boolean; // 文本生成支持强制 JSON 输出
+  emotion?: boolean; // 语音合成支持情绪/语气指令
+  pitch?: boolean; // 语音合成支持调整音高
+}
+
+// ==================== 服务商配置 ====================
+
+export interface TextProviderConfig {
+  provider: string;
+  baseUrl?: string;
+  apiKey?: string;
+  geminiApiKey?: string;
+  claudeApiKey?: string;
+  textModel: string;
+  contextLength?: number; // 上下文长度（tokens），本地模型需显式指定
+}
+
+/** 扩散模型采样参数（本地 Stable Diffusion 等） */
+export interface ImageSampling {
+  sampler: string;
+  steps: number;
+  cfgScale: number;
+  seed: number; // -1 表示随机
+}
+
+export interface ImageProviderConfig {
+  provider: string;
+  baseUrl?: string;
+  apiKey?: string;
+  geminiApiKey?: string;
+  imageModel: string;
+  imageEditModel: string;
+  imageSize: string;
+  imageAspectRatio: string;
+  sampling?: ImageSampling;
+}
+
+export interface VideoProviderConfig {
+  provider: string;
+  baseUrl?: string;
+  apiKey?: string;
+  videoModel: string;
+  videoDuration: number;
+}
+
+export interface TtsProviderConfig {
+  provider: string;
+  baseUrl?: string;
+  apiKey?: string;
+  ttsModel: string;
+  ttsVoice: string; // 默认音色
+  ttsSpeed: number; // 默认语速（1 为正常）
+}
+
+// ==================== 适配器接口 ====================
+
+interface BaseProviderAdapter<TConfig> {
+  id: string; // 与设置中的服务商 ID 对应
+  name: string; // 显示名称
+  capabilities: ProviderCapabilities;
+  /** 按当前模型细化能力声明（同一服务商的模型能力不同时实现），与 capabilities 合并 */
+  modelCapabilities?(config: TConfig): ProviderCapabilities;
+  testConnection(config: TConfig): Promise<ConnectionTestResult>;
+  /** 获取可用模型列表（配置不完整时抛出错误） */
+  listModels?(config: TConfig): Promise<ModelInfo[]>;
+}
+
+export interface TextGenerationResult {
+  text: string;
+  model: string; // 实际使用的模型（用于用量统计）
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TextProviderAdapter extends BaseProviderAdapter<TextProviderConfig> {
+  /** json 为 true 时要求输出 JSON（仅 jsonMode 能力的服务商生效） */
+  generateText(
+    config: TextProviderConfig,
+    request: { prompt: string; systemPrompt?: string; json?: boolean }
+  ): Promise<TextGenerationResult>;
+  /** 当前模型的上下文长度（tokens），未知时返回 null */
+  getContextLength?(config: TextProviderConfig): Promise<number | null>;
+}
+
+/** 角色参考图视角：头像或三视图 */
+export type CharacterView = 'avatar' | 'front' | 'side' | 'back';
+
+/** 图像参考（角色头像、三视图、场景参考图等） */
+export interface ImageReference {
+  name: string;
+  imagePath: string;
+  role: 'character' | 'scene';
+  view?: CharacterView; // 仅角色参考图
+}
+
+/** 图像生成结果 */
+export interface ImageGenerationResult {
+  buffer: Buffer;
+  seed?: number; // 实际出图种子（仅扩散模型服务商返回）
+  sampling?: ImageSampling; // 实际使用的采样参数
+}
+
+/**
+ * 将图像数据包装为生成结果（不返回出图参数的服务商使用）
+ */
+export function toImageResult(buffer: Buffer): ImageGenerationResult {
+  return { buffer };
+}
+
+export interface ImageProviderAdapter extends BaseProviderAdapter<ImageProviderConfig> {
+  /** 用于计费的模型 */
+  usageModel(config: ImageProviderConfig, operation: 'generate' | 'edit' | 'reference'): string;
+  generate(
+    config: ImageProviderConfig,
+    request: { prompt: string; negativePrompt?: string; signal?: AbortSignal }
+  ): Promise<ImageGenerationResult>;
+  edit?(
+    config: ImageProviderConfig,
+    request: { prompt: string; negativePrompt?: string; imagePath: string; signal?: AbortSignal }
+  ): Promise<ImageGenerationResult>;
+  /** prompt 已包含各参考图的说明，参考图按说明中的顺序传递 */
+  generateWithReferences?(
+    config: ImageProviderConfig,
+    request: { prompt: string; negativePrompt?: string; references: ImageReference[]; signal?: AbortSignal }
+  ): Promise<ImageGenerationResult>;
+}
+
+export interface VideoProviderAdapter extends BaseProviderAdapter<VideoProviderConfig> {
+  /** 用于计费的模型和单个视频时长 */
+  usage(config: VideoProviderConfig): { model: string; videoSeconds: number };
+  generate(
+    config: VideoProviderConfig,
+    request: {
+      prompt: string;
+      negativePrompt?: string;
+      imagePath: string | null;
+      references?: ImageReference[]; // 角色参考图（仅 multiReference 能力的服务商，prompt 已包含说明）
+      onProgress?: (progress: number) => void;
+      signal?: AbortSignal;
+      remote: RemoteJobState;
+    }
+  ): Promise<Buffer>;
+}
+
+/** 语音合成音色 */
+export interface VoiceInfo {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+/** 语音合成结果 */
+export interface SpeechResult {
+  buffer: Buffer;
+  format: 'mp3' | 'wav';
+}
+
+export interface TtsProviderAdapter extends BaseProviderAdapter<TtsProviderConfig> {
+  /** 用于计费的模型 */
+  usageModel(config: TtsProviderConfig): string;
+  /** emotion 为情绪/语气指令（仅 emotion 能力的服务商生效），pitch 为音高倍率（1 为正常） */
+  synthesize(
+    config: TtsProviderConfig,
+    request: { text: string; voice: string; speed: number; pitch?: number; emotion?: string; signal?: AbortSignal }
+  ): Promise<SpeechResult>;
+  /** 获取可用音色列表 */
+  listVoices(config: TtsProviderConfig): Promise<VoiceInfo[]>;
+}
+
+interface ProviderAdapterMap {
+  text: TextProviderAdapter;
+  image: ImageProviderAdapter;
+  video: VideoProviderAdapter;
+  tts: TtsProviderAdapter;
+}
+
+// ==================== 注册表 ====================
+
+const kindLabels: Record<ProviderKind, string> = {
+  text: '文本',
+  image: '图像',
+  video: '视频',
+  tts: '语音',
+};
+
+const registry: { [K in ProviderKind]: Map<string, ProviderAdapterMap[K]> } = {
+  text: new Map(),
+  image: new Map(),
+  video: new Map(),
+  tts: new Map(),
+};
+
+/**
+ * 注册服务商适配器（相同 ID 会覆盖已注册的适配器）
+ */
+export function registerProvider<K extends ProviderKind>(kind: K, adapter: ProviderAdapterMap[K]): void {
+  const providers = registry[kind] as Map<string, ProviderAdapterMap[K]>;
+  if (providers.has(adapter.id)) {
+    console.warn(`[ProviderService] 覆盖已注册的${kindLabels[kind]}服务商: ${adapter.id}`);
+  }
+  providers.set(adapter.id, adapter);
+}
+
+/**
+ * 获取服务商适配器
+ */
+export function getProvider<K extends ProviderKind>(kind: K, id: string): ProviderAdapterMap[K] {
+  const adapter = (registry[kind] as Map<string, ProviderAdapterMap[K]>).get(id);
+  if (!adapter) {
+    throw new Error(`未注册的${kindLabels[kind]}服务商: ${id}`);
+  }
+  return adapter;
+}
+
+/**
+ * 获取服务商在当前配置（模型）下的能力
+ */
+export function resolveCapabilities<TConfig>(
+  adapter: BaseProviderAdapter<TConfig>,
+  config: TConfig
+): ProviderCapabilities {
+  return { ...adapter.capabilities, ...adapter.modelCapabilities?.(config) };
+}
+
+/**
+ * 获取已注册的服务商列表
+ */
+export function listProviders<K extends ProviderKind>(kind: K): Array<ProviderAdapterMap[K]> {
+  return Array.from((registry[kind] as Map<string, ProviderAdapterMap[K]>).values());
+}
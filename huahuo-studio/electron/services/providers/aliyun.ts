@@ -0,0 +1,140 @@
+import {
+  ALIYUN_MAX_REFERENCE_IMAGES,
+  callAliyunImage,
+  callAliyunImageEdit,
+  callAliyunImageWithReferences,
+  callAliyunVideo,
+} from '../ai.service';
+import { COSYVOICE_VOICES, QWEN_TTS_VOICES, callAliyunSpeech } from '../tts.service';
+import {
+  toImageResult,
+  type ImageProviderAdapter,
+  type TextProviderAdapter,
+  type TtsProviderAdapter,
+  type VideoProviderAdapter,
+} from '../provider.service';
+import { fetchOpenAICompatModels, generateOpenAICompatText, testModelsEndpoint } from './openai-compat';
+
+/**
+ * 阿里云服务商适配器（DashScope 兼容模式文本、通义千问图像、通义万相视频、CosyVoice 语音）
+ */
+
+export const aliyunTextProvider: TextProviderAdapter = {
+  id: 'aliyun',
+  name: '阿里云',
+  capabilities: {},
+  generateText: (config, request) =>
+    generateOpenAICompatText(config, request, '请先在设置中配置阿里云 API Key'),
+  testConnection: (config) => testModelsEndpoint(config, '阿里云 LLM 连接成功'),
+  listModels: async (config) => {
+    if (!config.apiKey) throw new Error('API Key 未配置');
+    // 只保留文本模型（qwen 系列）
+    return fetchOpenAICompatModels(config.baseUrl!, config.apiKey, '阿里云', (id) =>
+      id.includes('qwen') || id.includes('llama') || id.includes('baichuan')
+    );
+  },
+};
+
+export const aliyunImageProvider: ImageProviderAdapter = {
+  id: 'aliyun',
+  name: '阿里云',
+  capabilities: {
+    edit: true,
+    multiReference: true,
+    maxReferenceImages: ALIYUN_MAX_REFERENCE_IMAGES,
+    negativePrompt: true,
+  },
+  usageModel: (config, operation) =>
+    operation === 'reference'
+      ? 'qwen-image-edit-plus'
+      : operation === 'edit'
+      ? config.imageEditModel || config.imageModel
+      : config.imageModel,
+  generate: (config, { prompt, negativePrompt, signal }) =>
+    callAliyunImage(
+      config.baseUrl!,
+      config.apiKey!,
+      prompt,
+      config.imageModel,
+      config.imageAspectRatio,
+      config.imageSize,
+      signal,
+      negativePrompt
+    ).then(toImageResult),
+  edit: (config, { prompt, negativePrompt, imagePath }) =>
+    // 使用 qwen-image-edit-plus
+    callAliyunImageEdit(config.baseUrl!, config.apiKey!, prompt, imagePath, config.imageEditModel, negativePrompt)
+      .then(toImageResult),
+  generateWithReferences: (config, { prompt, negativePrompt, references, signal }) =>
+    callAliyunImageWithReferences(config, prompt, references, negativePrompt, signal).then(toImageResult),
+  testConnection: async (config) => {
+    if (!config.apiKey) {
+      return { success: false, message: 'API Key 未配置' };
+    }
+    // 阿里云 DashScope 不支持 /v1/models，直接返回成功
+    return { success: true, message: '阿里云图像服务配置完成' };
+  },
+  listModels: async () => [
+    { id: 'qwen-image-plus', name: '通义千问图像 Plus (生成)', provider: '阿里云' },
+    { id: 'qwen-image-edit-plus', name: '通义千问图像 Edit Plus (修改)', provider: '阿里云' },
+    { id: 'qwen-image', name: '通义千问图像 (基础)', provider: '阿里云' },
+  ],
+};
+
+export const aliyunVideoProvider: VideoProviderAdapter = {
+  id: 'aliyun',
+  name: '阿里云',
+  capabilities: { imageInput: true, negativePrompt: true },
+  // 阿里云固定生成 5 秒视频
+  usage: (config) => ({ model: config.videoModel, videoSeconds: 5 }),
+  generate: (config, { prompt, negativePrompt, imagePath, onProgress, signal, remote }) =>
+    callAliyunVideo(
+      config.baseUrl!,
+      config.apiKey!,
+      prompt,
+      imagePath,
+      config.videoModel,
+      onProgress,
+      signal,
+      remote,
+      negativePrompt
+    ),
+  testConnection: async (config) => {
+    if (!config.apiKey) {
+      return { success: false, message: 'API Key 未配置' };
+    }
+    return { success: true, message: '阿里云视频服务配置完成' };
+  },
+  // 通义万相图生视频模型
+  listModels: async () => [
+    { id: 'wan2.5-i2v-preview', name: '万相2.5 (有声视频)', provider: 'Aliyun' },
+    { id: 'wan2.2-i2v-flash', name: '万相2.2 极速版', provider: 'Aliyun' },
+    { id: 'wan2.2-i2v-plus', name: '万相2.2 专业版', provider: 'Aliyun' },
+    { id: 'wan2.1-i2v-turbo', name: '万相2.1 极速版', provider: 'Aliyun' },
+    { id: 'wan2.1-i2v-plus', name: '万相2.1 专业版', provider: 'Aliyun' },
+  ],
+};
+
+export const aliyunTtsProvider: TtsProviderAdapter = {
+  id: 'aliyun',
+  name: '阿里云',
+  capabilities: { pitch: true },
+  usageModel: (config) => config.ttsModel,
+  synthesize: (config, { text, voice, speed, pitch, signal }) => {
+    if (!config.apiKey) throw new Error('请先在设置中配置阿里云语音 API Key');
+    return callAliyunSpeech(config.baseUrl!, config.apiKey, { model: config.ttsModel, text, voice, speed, pitch }, signal);
+  },
+  // 音色与模型对应，切换模型后需重新选择音色
+  listVoices: async (config) => (config.ttsModel.startsWith('qwen') ? QWEN_TTS_VOICES : COSYVOICE_VOICES),
+  testConnection: async (config) => {
+    if (!config.apiKey) {
+      return { success: false, message: 'API Key 未配置' };
+    }
+    return { success: true, message: '阿里云语音服务配置完成' };
+  },
+  listModels: async () => [
+    { id: 'cosyvoice-v2', name: 'CosyVoice v2', provider: '阿里云' },
+    { id: 'cosyvoice-v1', name: 'CosyVoice v1', provider: '阿里云' },
+    { id: 'qwen-tts', name: '通义千问 TTS', provider: '阿里云' },
+  ],
+};
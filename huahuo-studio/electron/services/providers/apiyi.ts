@@ -0,0 +1,122 @@
+import {
+  GEMINI_MAX_REFERENCE_IMAGES,
+  VEO_MAX_REFERENCE_IMAGES,
+  callApiyiImage,
+  callApiyiImageEdit,
+  callApiyiImageWithReferences,
+  callApiyiVideo,
+  isVeoModel,
+} from '../ai.service';
+import { OPENAI_VOICES } from '../tts.service';
+import {
+  toImageResult,
+  type ImageProviderAdapter,
+  type TextProviderAdapter,
+  type TtsProviderAdapter,
+  type VideoProviderAdapter,
+} from '../provider.service';
+import {
+  OPENAI_TTS_MODELS,
+  fetchOpenAICompatModels,
+  generateOpenAICompatText,
+  synthesizeOpenAICompatSpeech,
+  testModelsEndpoint,
+} from './openai-compat';
+
+/**
+ * API易 服务商适配器（OpenAI 兼容文本、Google native 图像、Sora/VEO 视频、OpenAI 兼容语音）
+ */
+
+const APIYI_BASE_URL = 'https://api.apiyi.com';
+
+function requireApiKey(apiKey?: string): string {
+  if (!apiKey) throw new Error('API Key 未配置');
+  return apiKey;
+}
+
+const isImageModel = (id: string) =>
+  id.includes('image') || id.includes('dall') || id.includes('gpt-image') ||
+  id.includes('gemini') && (id.includes('image') || id.includes('flash-exp'));
+
+const isVideoModel = (id: string) =>
+  id.includes('video') || id.includes('sora') || id.includes('veo');
+
+export const apiyiTextProvider: TextProviderAdapter = {
+  id: 'apiyi',
+  name: 'API易',
+  capabilities: {},
+  generateText: (config, request) =>
+    generateOpenAICompatText(config, request, '请先在设置中配置 API易 API Key'),
+  testConnection: (config) => testModelsEndpoint(config, 'API易 LLM 连接成功'),
+  listModels: async (config) =>
+    // 过滤文本模型（排除图像和视频模型）
+    fetchOpenAICompatModels(APIYI_BASE_URL, requireApiKey(config.apiKey), 'API易', (id) =>
+      !id.includes('image') && !id.includes('dall') && !id.includes('wanx') && !isVideoModel(id)
+    ),
+};
+
+export const apiyiImageProvider: ImageProviderAdapter = {
+  id: 'apiyi',
+  name: 'API易',
+  capabilities: { edit: true, multiReference: true, maxReferenceImages: GEMINI_MAX_REFERENCE_IMAGES },
+  usageModel: (config, operation) =>
+    operation === 'edit' ? config.imageEditModel || config.imageModel : config.imageModel,
+  generate: (config, { prompt, signal }) =>
+    // Google native format 图像生成
+    callApiyiImage(
+      config.baseUrl!,
+      config.apiKey!,
+      prompt,
+      config.imageModel,
+      config.imageAspectRatio,
+      config.imageSize,
+      signal
+    ).then(toImageResult),
+  edit: (config, { prompt, imagePath }) =>
+    // Nano Banana Pro 支持图生图/编辑，优先使用编辑模型，否则使用生成模型
+    callApiyiImageEdit(config.baseUrl!, config.apiKey!, prompt, imagePath, config.imageEditModel || config.imageModel)
+      .then(toImageResult),
+  // 参考图作为内联图片传给 Gemini 图像模型
+  generateWithReferences: (config, { prompt, references, signal }) =>
+    callApiyiImageWithReferences(config, prompt, references, signal).then(toImageResult),
+  testConnection: (config) => testModelsEndpoint(config, 'API易 图像服务连接成功'),
+  listModels: async (config) =>
+    fetchOpenAICompatModels(APIYI_BASE_URL, requireApiKey(config.apiKey), 'API易', isImageModel),
+};
+
+export const apiyiVideoProvider: VideoProviderAdapter = {
+  id: 'apiyi',
+  name: 'API易',
+  capabilities: { imageInput: true },
+  // 角色参考图仅 Veo 系列模型使用
+  modelCapabilities: (config) =>
+    isVeoModel(config.videoModel) ? { multiReference: true, maxReferenceImages: VEO_MAX_REFERENCE_IMAGES } : {},
+  usage: (config) => ({ model: config.videoModel, videoSeconds: config.videoDuration || 5 }),
+  generate: (config, { prompt, imagePath, references, onProgress, signal, remote }) =>
+    callApiyiVideo(
+      config.baseUrl!,
+      config.apiKey!,
+      prompt,
+      imagePath,
+      config.videoModel,
+      onProgress,
+      signal,
+      remote,
+      references
+    ),
+  testConnection: (config) => testModelsEndpoint(config, 'API易 视频服务连接成功'),
+  listModels: async (config) =>
+    fetchOpenAICompatModels(APIYI_BASE_URL, requireApiKey(config.apiKey), 'API易', isVideoModel),
+};
+
+export const apiyiTtsProvider: TtsProviderAdapter = {
+  id: 'apiyi',
+  name: 'API易',
+  capabilities: { emotion: true },
+  usageModel: (config) => config.ttsModel,
+  synthesize: (config, request) =>
+    synthesizeOpenAICompatSpeech(config, request, '请先在设置中配置 API易 语音 API Key'),
+  listVoices: async () => OPENAI_VOICES,
+  testConnection: (config) => testModelsEndpoint(config, 'API易 语音服务连接成功'),
+  listModels: async () => OPENAI_TTS_MODELS.map(m => ({ ...m, provider: 'API易' })),
+};
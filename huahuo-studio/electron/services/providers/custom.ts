@@ -0,0 +1,81 @@
+import {
+  OPENAI_EDIT_MAX_REFERENCE_IMAGES,
+  callAggregatorImage,
+  callAggregatorImageWithReferences,
+  callAggregatorVideo,
+} from '../ai.service';
+import { OPENAI_VOICES } from '../tts.service';
+import {
+  toImageResult,
+  type ImageProviderAdapter,
+  type ModelInfo,
+  type TextProviderAdapter,
+  type TtsProviderAdapter,
+  type VideoProviderAdapter,
+} from '../provider.service';
+import {
+  fetchOpenAICompatModels,
+  generateOpenAICompatText,
+  synthesizeOpenAICompatSpeech,
+  testModelsEndpoint,
+} from './openai-compat';
+
+/**
+ * 自定义 OpenAI 兼容服务适配器（通用聚合 API）
+ */
+
+/**
+ * 从自定义服务获取模型列表
+ */
+async function listCustomModels(config: { baseUrl?: string; apiKey?: string }): Promise<ModelInfo[]> {
+  if (!config.baseUrl || !config.apiKey) throw new Error('自定义服务未配置完整');
+  return fetchOpenAICompatModels(config.baseUrl, config.apiKey, '自定义');
+}
+
+export const customTextProvider: TextProviderAdapter = {
+  id: 'custom',
+  name: '自定义服务',
+  capabilities: {},
+  generateText: (config, request) =>
+    generateOpenAICompatText(config, request, '请先在设置中配置 API Key'),
+  testConnection: (config) => testModelsEndpoint(config, '自定义服务 LLM 连接成功'),
+  listModels: listCustomModels,
+};
+
+export const customImageProvider: ImageProviderAdapter = {
+  id: 'custom',
+  name: '自定义服务',
+  capabilities: { multiReference: true, maxReferenceImages: OPENAI_EDIT_MAX_REFERENCE_IMAGES },
+  usageModel: (_config, operation) => (operation === 'reference' ? 'gpt-image-1' : 'dall-e-3'),
+  // 使用 DALL-E 格式
+  generate: (config, { prompt, signal }) =>
+    callAggregatorImage(config.baseUrl!, config.apiKey!, prompt, signal).then(toImageResult),
+  // 参考图使用 OpenAI images/edits 接口 (gpt-image-1)
+  generateWithReferences: (config, { prompt, references, signal }) =>
+    callAggregatorImageWithReferences(config, prompt, references, signal).then(toImageResult),
+  testConnection: (config) => testModelsEndpoint(config, '自定义服务 图像服务连接成功'),
+  listModels: listCustomModels,
+};
+
+export const customVideoProvider: VideoProviderAdapter = {
+  id: 'custom',
+  name: '自定义服务',
+  capabilities: {},
+  usage: (config) => ({ model: 'veo-2', videoSeconds: config.videoDuration || 5 }),
+  generate: (config, { prompt, signal, remote }) =>
+    callAggregatorVideo(config.baseUrl!, config.apiKey!, prompt, signal, remote),
+  testConnection: (config) => testModelsEndpoint(config, '自定义服务 视频服务连接成功'),
+  listModels: listCustomModels,
+};
+
+export const customTtsProvider: TtsProviderAdapter = {
+  id: 'custom',
+  name: '自定义服务',
+  capabilities: { emotion: true },
+  usageModel: (config) => config.ttsModel,
+  synthesize: (config, request) =>
+    synthesizeOpenAICompatSpeech(config, request, '请先在设置中配置自定义语音服务 API Key'),
+  listVoices: async () => OPENAI_VOICES,
+  testConnection: (config) => testModelsEndpoint(config, '自定义服务 语音服务连接成功'),
+  listModels: listCustomModels,
+};
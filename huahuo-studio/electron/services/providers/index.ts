@@ -0,0 +1,32 @@
+import { registerProvider } from '../provider.service';
+import { apiyiImageProvider, apiyiTextProvider, apiyiTtsProvider, apiyiVideoProvider } from './apiyi';
+import { aliyunImageProvider, aliyunTextProvider, aliyunTtsProvider, aliyunVideoProvider } from './aliyun';
+import { officialImageProvider, officialTextProvider } from './official';
+import { customImageProvider, customTextProvider, customTtsProvider, customVideoProvider } from './custom';
+import { localImageProvider, localTextProvider, localTtsProvider } from './local';
+
+/**
+ * 注册内置服务商适配器（应用启动时调用，需在 IPC 处理器注册之前）
+ */
+export function registerBuiltinProviders(): void {
+  registerProvider('text', apiyiTextProvider);
+  registerProvider('text', aliyunTextProvider);
+  registerProvider('text', officialTextProvider);
+  registerProvider('text', customTextProvider);
+  registerProvider('text', localTextProvider);
+
+  registerProvider('image', apiyiImageProvider);
+  registerProvider('image', aliyunImageProvider);
+  registerProvider('image', officialImageProvider);
+  registerProvider('image', customImageProvider);
+  registerProvider('image', localImageProvider);
+
+  registerProvider('video', apiyiVideoProvider);
+  registerProvider('video', aliyunVideoProvider);
+  registerProvider('video', customVideoProvider);
+
+  registerProvider('tts', apiyiTtsProvider);
+  registerProvider('tts', aliyunTtsProvider);
+  registerProvider('tts', customTtsProvider);
+  registerProvider('tts', localTtsProvider);
+}
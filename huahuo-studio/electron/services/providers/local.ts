@@ -0,0 +1,217 @@
+import { callLocalSdImage, callLocalSdImageEdit, callOllamaText } from '../ai.service';
+import { OPENAI_VOICES } from '../tts.service';
+import type {
+  ImageProviderAdapter,
+  ImageSampling,
+  ModelInfo,
+  TextProviderAdapter,
+  TtsProviderAdapter,
+  VoiceInfo,
+} from '../provider.service';
+import { synthesizeOpenAICompatSpeech } from './openai-compat';
+
+/**
+ * 本地部署服务商适配器（文本: Ollama；图像: Stable Diffusion WebUI / Automatic1111 API；
+ * 语音: OpenAI 兼容的本地语音服务，如 Kokoro-FastAPI）
+ */
+
+const DEFAULT_OLLAMA_CONTEXT_LENGTH = 8192;
+
+const DEFAULT_SAMPLING: ImageSampling = { sampler: 'Euler a', steps: 25, cfgScale: 7, seed: -1 };
+
+/**
+ * 获取本地 SD 已安装的模型（checkpoint）列表
+ */
+async function fetchLocalSdModels(baseUrl: string): Promise<ModelInfo[]> {
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/sdapi/v1/sd-models`);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+  const models = await response.json();
+  return (Array.isArray(models) ? models : []).map((m: any) => ({
+    id: m.title,
+    name: m.model_name || m.title,
+    provider: 'Stable Diffusion',
+  }));
+}
+
+/**
+ * 解析要使用的 checkpoint：设置中的模型不在本地模型列表时（如切换前的云端模型），使用 WebUI 当前加载的模型
+ */
+async function resolveCheckpoint(baseUrl: string, model: string): Promise<string> {
+  if (!model) return '';
+  try {
+    const models = await fetchLocalSdModels(baseUrl);
+    return models.some(m => m.id === model || m.name === model) ? model : '';
+  } catch {
+    return '';
+  }
+}
+
+function requireBaseUrl(baseUrl?: string): string {
+  if (!baseUrl) throw new Error('请先在设置中配置本地 Stable Diffusion 服务地址');
+  return baseUrl;
+}
+
+/**
+ * 获取 Ollama 已下载的模型列表 (/api/tags)
+ */
+async function fetchOllamaModels(baseUrl: string): Promise<ModelInfo[]> {
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/api/tags`);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+  const data = await response.json();
+  return (data.models || []).map((m: any) => ({
+    id: m.name,
+    name: m.details?.parameter_size ? `${m.name} (${m.details.parameter_size})` : m.name,
+    provider: 'Ollama',
+  }));
+}
+
+/**
+ * 获取 Ollama 模型支持的最大上下文长度 (/api/show)
+ */
+async function fetchOllamaModelContextLength(baseUrl: string, model: string): Promise<number | null> {
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/api/show`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model }),
+    });
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    const info: Record<string, unknown> = data.model_info || {};
+    const key = Object.keys(info).find(k => k.endsWith('.context_length'));
+    return key && typeof info[key] === 'number' ? info[key] as number : null;
+  } catch {
+    return null;
+  }
+}
+
+function requireOllamaBaseUrl(baseUrl?: string): string {
+  if (!baseUrl) throw new Error('请先在设置中配置 Ollama 服务地址');
+  return baseUrl;
+}
+
+export const localTextProvider: TextProviderAdapter = {
+  id: 'local',
+  name: '本地 Ollama',
+  capabilities: { jsonMode: true },
+  generateText: async (config, { prompt, systemPrompt, json }) => {
+    const baseUrl = requireOllamaBaseUrl(config.baseUrl);
+    if (!config.textModel) {
+      throw new Error('请先在设置中选择 Ollama 模型');
+    }
+    const result = await callOllamaText(
+      baseUrl,
+      prompt,
+      systemPrompt,
+      config.textModel,
+      config.contextLength || DEFAULT_OLLAMA_CONTEXT_LENGTH,
+      json
+    );
+    return { ...result, model: config.textModel };
+  },
+  // 实际生效的上下文长度为设置值，但不超过模型本身支持的长度
+  getContextLength: async (config) => {
+    const configured = config.contextLength || DEFAULT_OLLAMA_CONTEXT_LENGTH;
+    if (!config.baseUrl || !config.textModel) return configured;
+    const modelMax = await fetchOllamaModelContextLength(config.baseUrl, config.textModel);
+    return modelMax ? Math.min(configured, modelMax) : configured;
+  },
+  testConnection: async (config) => {
+    if (!config.baseUrl) {
+      return { success: false, message: '服务地址未配置' };
+    }
+    const models = await fetchOllamaModels(config.baseUrl);
+    return { success: true, message: `Ollama 连接成功（${models.length} 个模型）` };
+  },
+  listModels: async (config) => fetchOllamaModels(requireOllamaBaseUrl(config.baseUrl)),
+};
+
+export const localImageProvider: ImageProviderAdapter = {
+  id: 'local',
+  name: '本地 Stable Diffusion',
+  capabilities: { edit: true, negativePrompt: true },
+  // 本地出图不产生费用
+  usageModel: () => 'stable-diffusion-local',
+  generate: async (config, { prompt, negativePrompt, signal }) => {
+    const baseUrl = requireBaseUrl(config.baseUrl);
+    return await callLocalSdImage(
+      baseUrl,
+      prompt,
+      negativePrompt,
+      await resolveCheckpoint(baseUrl, config.imageModel),
+      config.sampling || DEFAULT_SAMPLING,
+      config.imageAspectRatio,
+      config.imageSize,
+      signal
+    );
+  },
+  edit: async (config, { prompt, negativePrompt, imagePath, signal }) => {
+    const baseUrl = requireBaseUrl(config.baseUrl);
+    return await callLocalSdImageEdit(
+      baseUrl,
+      prompt,
+      negativePrompt,
+      imagePath,
+      await resolveCheckpoint(baseUrl, config.imageEditModel || config.imageModel),
+      config.sampling || DEFAULT_SAMPLING,
+      config.imageAspectRatio,
+      config.imageSize,
+      signal
+    );
+  },
+  testConnection: async (config) => {
+    if (!config.baseUrl) {
+      return { success: false, message: '服务地址未配置' };
+    }
+    const models = await fetchLocalSdModels(config.baseUrl);
+    return { success: true, message: `本地 Stable Diffusion 连接成功（${models.length} 个模型）` };
+  },
+  listModels: async (config) => fetchLocalSdModels(requireBaseUrl(config.baseUrl)),
+};
+
+/**
+ * 获取本地语音服务的音色列表（Kokoro-FastAPI 提供 /v1/audio/voices，不支持时使用 OpenAI 内置音色）
+ */
+async function fetchLocalVoices(baseUrl: string): Promise<VoiceInfo[]> {
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/v1/audio/voices`);
+    if (!response.ok) return OPENAI_VOICES;
+
+    const data = await response.json();
+    const voices: unknown[] = Array.isArray(data.voices) ? data.voices : [];
+    return voices.length > 0
+      ? voices.map((v: any) => {
+          const id = typeof v === 'string' ? v : v.id || v.name;
+          return { id, name: typeof v === 'string' ? v : v.name || id };
+        })
+      : OPENAI_VOICES;
+  } catch {
+    return OPENAI_VOICES;
+  }
+}
+
+export const localTtsProvider: TtsProviderAdapter = {
+  id: 'local',
+  name: '本地语音服务',
+  capabilities: {},
+  // 本地合成不产生费用
+  usageModel: () => 'tts-local',
+  synthesize: (config, request) => synthesizeOpenAICompatSpeech(config, request),
+  listVoices: async (config) => {
+    if (!config.baseUrl) throw new Error('请先在设置中配置本地语音服务地址');
+    return fetchLocalVoices(config.baseUrl);
+  },
+  testConnection: async (config) => {
+    if (!config.baseUrl) {
+      return { success: false, message: '服务地址未配置' };
+    }
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/v1/models`);
+    if (!response.ok) {
+      return { success: false, message: `本地语音服务错误: ${response.status}` };
+    }
+    return { success: true, message: '本地语音服务连接成功' };
+  },
+};
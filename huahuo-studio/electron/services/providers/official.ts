@@ -0,0 +1,170 @@
+import {
+  ANTHROPIC_VERSION,
+  DEFAULT_CLAUDE_MODEL,
+  GEMINI_FLASH_MAX_REFERENCE_IMAGES,
+  callClaudeText,
+  callGeminiImage,
+  callGeminiImageWithReferences,
+  callGeminiText,
+  isClaudeModel,
+} from '../ai.service';
+import { toImageResult, type ImageProviderAdapter, type ModelInfo, type TextProviderAdapter } from '../provider.service';
+
+/**
+ * 官方服务商适配器（Google Gemini、Anthropic Claude）
+ */
+
+const GEMINI_MODELS_URL = 'https://generativelanguage.googleapis.com/v1/models';
+const ANTHROPIC_MODELS_URL = 'https://api.anthropic.com/v1/models';
+
+/**
+ * Anthropic API 请求头
+ */
+function anthropicHeaders(apiKey: string): Record<string, string> {
+  return { 'x-api-key': apiKey, 'anthropic-version': ANTHROPIC_VERSION };
+}
+
+/**
+ * 测试 Gemini API Key，失败时返回错误信息
+ */
+async function testGeminiKey(apiKey: string): Promise<string | null> {
+  const response = await fetch(`${GEMINI_MODELS_URL}?key=${apiKey}`);
+  return response.ok ? null : `Gemini API 错误: ${response.status}`;
+}
+
+/**
+ * 从 Gemini 获取模型列表
+ */
+async function fetchGeminiModels(apiKey: string): Promise<ModelInfo[]> {
+  try {
+    const response = await fetch(`${GEMINI_MODELS_URL}?key=${apiKey}`);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const data = await response.json();
+    const models = data.models || [];
+
+    return models
+      .filter((m: any) => m.supportedGenerationMethods?.includes('generateContent'))
+      .map((m: any) => ({
+        id: m.name?.replace('models/', '') || m.name,
+        name: m.displayName || m.name,
+        provider: 'Google',
+      }));
+  } catch (error) {
+    console.error('获取 Gemini 模型列表失败:', error);
+    return [];
+  }
+}
+
+/**
+ * 从 Anthropic 获取 Claude 模型列表
+ */
+async function fetchClaudeModels(apiKey: string): Promise<ModelInfo[]> {
+  try {
+    const response = await fetch(`${ANTHROPIC_MODELS_URL}?limit=100`, {
+      headers: anthropicHeaders(apiKey),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const data = await response.json();
+    const models = data.data || [];
+
+    return models.map((m: any) => ({
+      id: m.id,
+      name: m.display_name || m.id,
+      provider: 'Anthropic',
+    }));
+  } catch (error) {
+    console.error('获取 Claude 模型列表失败:', error);
+    return [];
+  }
+}
+
+export const officialTextProvider: TextProviderAdapter = {
+  id: 'official',
+  name: '官方 API',
+  capabilities: {},
+  generateText: async (config, { prompt, systemPrompt }) => {
+    let model = config.textModel || 'gemini-2.0-flash';
+
+    // 选择 Claude 模型，或只配置了 Claude Key 时走 Anthropic Messages API
+    const useClaude = isClaudeModel(model) || (!config.geminiApiKey && !!config.claudeApiKey);
+    if (useClaude) {
+      if (!config.claudeApiKey) {
+        throw new Error('请先在设置中配置 Anthropic Claude API Key');
+      }
+      if (!isClaudeModel(model)) {
+        model = DEFAULT_CLAUDE_MODEL;
+      }
+      return { ...await callClaudeText(config.claudeApiKey, prompt, systemPrompt, model), model };
+    }
+
+    if (!config.geminiApiKey) {
+      throw new Error('请先在设置中配置 Gemini API Key');
+    }
+    return { ...await callGeminiText(config.geminiApiKey, prompt, systemPrompt, model), model };
+  },
+  testConnection: async (config) => {
+    if (!config.geminiApiKey && !config.claudeApiKey) {
+      return { success: false, message: 'Gemini 或 Claude API Key 未配置' };
+    }
+
+    // 分别测试已配置的 Gemini / Claude Key
+    const results: string[] = [];
+    if (config.geminiApiKey) {
+      const error = await testGeminiKey(config.geminiApiKey);
+      if (error) return { success: false, message: error };
+      results.push('Gemini');
+    }
+    if (config.claudeApiKey) {
+      const response = await fetch(ANTHROPIC_MODELS_URL, {
+        headers: anthropicHeaders(config.claudeApiKey),
+      });
+      if (!response.ok) {
+        return { success: false, message: `Claude API 错误: ${response.status}` };
+      }
+      results.push('Claude');
+    }
+    return { success: true, message: `${results.join(' / ')} 连接成功` };
+  },
+  listModels: async (config) => {
+    if (!config.geminiApiKey && !config.claudeApiKey) {
+      throw new Error('Gemini 或 Claude API Key 未配置');
+    }
+
+    const models: ModelInfo[] = [];
+    if (config.geminiApiKey) {
+      models.push(...await fetchGeminiModels(config.geminiApiKey));
+    }
+    if (config.claudeApiKey) {
+      models.push(...await fetchClaudeModels(config.claudeApiKey));
+    }
+    return models;
+  },
+};
+
+export const officialImageProvider: ImageProviderAdapter = {
+  id: 'official',
+  name: '官方 API',
+  capabilities: { multiReference: true, maxReferenceImages: GEMINI_FLASH_MAX_REFERENCE_IMAGES },
+  usageModel: () => 'gemini-2.0-flash-exp',
+  generate: (config, { prompt, signal }) => callGeminiImage(config.geminiApiKey!, prompt, signal).then(toImageResult),
+  generateWithReferences: (config, { prompt, references, signal }) =>
+    callGeminiImageWithReferences(config.geminiApiKey!, prompt, references, signal).then(toImageResult),
+  testConnection: async (config) => {
+    if (!config.geminiApiKey) {
+      return { success: false, message: 'Gemini API Key 未配置' };
+    }
+    const error = await testGeminiKey(config.geminiApiKey);
+    if (error) return { success: false, message: error };
+    return { success: true, message: 'Gemini 图像服务连接成功' };
+  },
+  listModels: async (config) => {
+    if (!config.geminiApiKey) throw new Error('Gemini API Key 未配置');
+    // Gemini 图像生成模型
+    return [
+      { id: 'gemini-2.0-flash-exp', name: 'Gemini 2.0 Flash', provider: 'Google' },
+      { id: 'imagen-3.0-generate-001', name: 'Imagen 3', provider: 'Google' },
+    ];
+  },
+};
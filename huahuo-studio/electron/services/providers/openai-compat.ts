@@ -0,0 +1,132 @@
+import { callOpenAICompatText } from '../ai.service';
+import { callOpenAICompatSpeech } from '../tts.service';
+import type {
+  ConnectionTestResult,
+  ModelInfo,
+  SpeechResult,
+  TextGenerationResult,
+  TextProviderConfig,
+  TtsProviderAdapter,
+  TtsProviderConfig,
+} from '../provider.service';
+
+/**
+ * OpenAI 兼容服务的共用实现（API易、阿里云兼容模式、自定义服务、本地语音服务）
+ */
+
+/**
+ * OpenAI 兼容格式文本生成
+ * @param missingKeyMessage 未配置 API Key 时的提示
+ */
+export async function generateOpenAICompatText(
+  config: TextProviderConfig,
+  request: { prompt: string; systemPrompt?: string },
+  missingKeyMessage: string
+): Promise<TextGenerationResult> {
+  if (!config.apiKey) {
+    throw new Error(missingKeyMessage);
+  }
+  if (!config.baseUrl) {
+    throw new Error('请先在设置中配置 API 服务地址');
+  }
+
+  const result = await callOpenAICompatText(
+    config.baseUrl,
+    config.apiKey,
+    request.prompt,
+    request.systemPrompt,
+    config.textModel
+  );
+  return { ...result, model: config.textModel || 'gemini-2.0-flash' };
+}
+
+/**
+ * 通过 /v1/models 接口测试连接
+ */
+export async function testModelsEndpoint(
+  config: { baseUrl?: string; apiKey?: string },
+  successMessage: string
+): Promise<ConnectionTestResult> {
+  if (!config.apiKey) {
+    return { success: false, message: 'API Key 未配置' };
+  }
+
+  const response = await fetch(`${config.baseUrl}/v1/models`, {
+    headers: { Authorization: `Bearer ${config.apiKey}` },
+  });
+
+  if (!response.ok) {
+    return { success: false, message: `API 错误: ${response.status}` };
+  }
+
+  return { success: true, message: successMessage };
+}
+
+/**
+ * 从 /v1/models 接口获取模型列表
+ * @param filter 按模型 ID（小写）过滤
+ */
+export async function fetchOpenAICompatModels(
+  baseUrl: string,
+  apiKey: string,
+  providerName: string,
+  filter: (id: string) => boolean = () => true
+): Promise<ModelInfo[]> {
+  try {
+    const response = await fetch(`${baseUrl}/v1/models`, {
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const data = await response.json();
+    const models = data.data || [];
+
+    return models
+      .filter((m: any) => filter(m.id?.toLowerCase() || ''))
+      .map((m: any) => ({
+        id: m.id,
+        name: m.id,
+        provider: providerName,
+      }));
+  } catch (error) {
+    console.error(`获取 ${providerName} 模型列表失败:`, error);
+    return [];
+  }
+}
+
+/** OpenAI 兼容语音合成模型 */
+export const OPENAI_TTS_MODELS: Array<{ id: string; name: string }> = [
+  { id: 'tts-1', name: 'TTS-1 (标准)' },
+  { id: 'tts-1-hd', name: 'TTS-1 HD (高清)' },
+  { id: 'gpt-4o-mini-tts', name: 'GPT-4o mini TTS (支持情绪指令)' },
+];
+
+/**
+ * OpenAI 兼容格式语音合成
+ * @param missingKeyMessage 未配置 API Key 时的提示（不传表示服务不需要 Key）
+ */
+export async function synthesizeOpenAICompatSpeech(
+  config: TtsProviderConfig,
+  request: Parameters<TtsProviderAdapter['synthesize']>[1],
+  missingKeyMessage?: string
+): Promise<SpeechResult> {
+  if (missingKeyMessage && !config.apiKey) {
+    throw new Error(missingKeyMessage);
+  }
+  if (!config.baseUrl) {
+    throw new Error('请先在设置中配置语音服务地址');
+  }
+
+  return await callOpenAICompatSpeech(
+    config.baseUrl,
+    config.apiKey,
+    {
+      model: config.ttsModel,
+      text: request.text,
+      voice: request.voice,
+      speed: request.speed,
+      instructions: request.emotion,
+    },
+    request.signal
+  );
+}
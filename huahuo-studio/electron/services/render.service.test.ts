@@ -0,0 +1,317 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import initSqlJs from 'sql.js';
+import { drizzle } from 'drizzle-orm/sql-js';
+
+const testDatabase = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock('electron', () => ({ app: { getPath: vi.fn() }, net: {}, BrowserWindow: {} }));
+vi.mock('../database', async () => ({
+  getDatabase: () => testDatabase.current,
+  schema: await import('../database/schema'),
+}));
+vi.mock('./settings.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./settings.service')>()),
+  getImageApiConfig: vi.fn(async () => ({ provider: 'apiyi' })),
+  getVideoApiConfig: vi.fn(async () => ({ provider: 'apiyi' })),
+  // 每种任务同时只执行一个，任务启动顺序即调度顺序
+  getRenderRateLimits: vi.fn(async () => ({
+    apiyi: { image: { concurrency: 1, rpm: 0 }, video: { concurrency: 1, rpm: 0 } },
+  })),
+}));
+vi.mock('./usage.service', () => ({
+  isProjectBudgetReached: vi.fn(async () => false),
+  assertProjectBudgetAvailable: vi.fn(async () => {}),
+}));
+vi.mock('./ai.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./ai.service')>()),
+  generateShotImage: vi.fn(),
+  generateShotVideo: vi.fn(),
+}));
+
+import { ApiError, generateShotImage, generateShotVideo } from './ai.service';
+import { getRetryDelay, pauseRenderTask, recoverRenderQueue } from './render.service';
+
+const SQL = await initSqlJs();
+let sqlite: InstanceType<typeof SQL.Database>;
+
+/** 建表（与 database/index.ts 中的 render_tasks 一致，shots 只保留排序用到的字段） */
+function createTestDatabase() {
+  sqlite = new SQL.Database();
+  sqlite.run(`
+    CREATE TABLE shots (
+      id TEXT PRIMARY KEY,
+      "index" INTEGER NOT NULL
+    );
+    CREATE TABLE render_tasks (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      shot_id TEXT,
+      type TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued',
+      progress INTEGER NOT NULL DEFAULT 0,
+      error_message TEXT,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 3,
+      error_class TEXT,
+      attempt_history TEXT,
+      next_retry_at TEXT,
+      priority INTEGER NOT NULL DEFAULT 0,
+      depends_on_task_id TEXT,
+      remote_job_id TEXT,
+      remote_provider TEXT,
+      remote_job_state TEXT,
+      started_at TEXT,
+      completed_at TEXT,
+      created_at TEXT NOT NULL
+    );
+  `);
+  testDatabase.current = drizzle(sqlite);
+}
+
+function insertShot(id: string, index: number) {
+  sqlite.run('INSERT INTO shots (id, "index") VALUES (?, ?)', [id, index]);
+}
+
+function insertTask(task: {
+  id: string;
+  shotId: string;
+  type?: 'image' | 'video';
+  status?: string;
+  priority?: number;
+  maxAttempts?: number;
+  dependsOnTaskId?: string | null;
+  createdAt?: string;
+}) {
+  sqlite.run(
+    `INSERT INTO render_tasks (id, project_id, shot_id, type, status, priority, max_attempts, depends_on_task_id, created_at)
+     VALUES (?, 'project-1', ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      task.id,
+      task.shotId,
+      task.type ?? 'image',
+      task.status ?? 'queued',
+      task.priority ?? 0,
+      task.maxAttempts ?? 3,
+      task.dependsOnTaskId ?? null,
+      task.createdAt ?? '2026-01-01T00:00:00.000Z',
+    ]
+  );
+}
+
+function getTask(id: string) {
+  const result = sqlite.exec(
+    'SELECT status, attempts, error_class, error_message, next_retry_at FROM render_tasks WHERE id = ?',
+    [id]
+  );
+  if (result.length === 0) return null;
+  const [status, attempts, errorClass, errorMessage, nextRetryAt] = result[0].values[0];
+  return { status, attempts, errorClass, errorMessage, nextRetryAt };
+}
+
+/** 启动队列（恢复渲染队列会调度所有排队任务） */
+async function startQueue() {
+  await recoverRenderQueue();
+}
+
+beforeEach(() => {
+  createTestDatabase();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.mocked(generateShotImage).mockResolvedValue('image.png');
+  vi.mocked(generateShotVideo).mockResolvedValue('video.mp4');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.mocked(generateShotImage).mockReset();
+  vi.mocked(generateShotVideo).mockReset();
+});
+
+describe('getRetryDelay', () => {
+  it('首次重试约 10 秒，抖动范围为 ±20%', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay(1)).toBe(8000);
+    vi.spyOn(Math, 'random').mockReturnValue(0.9999);
+    expect(getRetryDelay(1)).toBeLessThanOrEqual(12000);
+    expect(getRetryDelay(1)).toBeGreaterThan(11990);
+  });
+
+  it('按指数增长', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(getRetryDelay(1)).toBe(10000);
+    expect(getRetryDelay(2)).toBe(20000);
+    expect(getRetryDelay(3)).toBe(40000);
+  });
+
+  it('不超过 10 分钟（含抖动）', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(getRetryDelay(20)).toBe(600000);
+    vi.spyOn(Math, 'random').mockReturnValue(0.9999);
+    expect(getRetryDelay(100)).toBeLessThanOrEqual(720000);
+  });
+});
+
+describe('handleTaskFailure', () => {
+  it('服务端 5xx 错误按退避重新排队', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    insertShot('shot-1', 1);
+    insertTask({ id: 'task-1', shotId: 'shot-1' });
+    vi.mocked(generateShotImage).mockRejectedValue(new ApiError('上游服务繁忙', 503, 'transient'));
+
+    const before = Date.now();
+    await startQueue();
+    await vi.waitFor(() => expect(getTask('task-1')?.errorClass).toBe('transient'));
+    await vi.waitFor(() => expect(getTask('task-1')?.status).toBe('queued'));
+
+    const task = getTask('task-1')!;
+    expect(task.attempts).toBe(1);
+    expect(task.errorMessage).toBe('上游服务繁忙');
+    expect(new Date(task.nextRetryAt as string).getTime()).toBeGreaterThanOrEqual(before + 10000);
+  });
+
+  it('未保留状态码的错误按错误信息分类（429 限流可重试）', async () => {
+    insertShot('shot-1', 1);
+    insertTask({ id: 'task-1', shotId: 'shot-1' });
+    vi.mocked(generateShotImage).mockRejectedValue(
+      new Error('Gemini Image API 错误: 429 - Resource has been exhausted (e.g. check quota).')
+    );
+
+    await startQueue();
+    await vi.waitFor(() => expect(getTask('task-1')?.nextRetryAt).not.toBeNull());
+    expect(getTask('task-1')).toMatchObject({ status: 'queued', errorClass: 'transient' });
+  });
+
+  it.each([
+    ['quota', new ApiError('账户余额不足，请充值后重试', 400, 'quota')],
+    ['content-policy', new ApiError('内容审核未通过，请修改描述后重试', 400, 'content-policy')],
+    ['auth', new ApiError('API 错误: 401 - {}', 401, 'auth')],
+    ['unknown', new Error('未能生成图像')],
+  ])('%s 错误不重试，直接标记为失败', async (errorClass, error) => {
+    insertShot('shot-1', 1);
+    insertTask({ id: 'task-1', shotId: 'shot-1' });
+    vi.mocked(generateShotImage).mockRejectedValue(error);
+
+    await startQueue();
+    await vi.waitFor(() => expect(getTask('task-1')?.status).toBe('error'));
+    expect(getTask('task-1')).toMatchObject({ errorClass, attempts: 1, nextRetryAt: null });
+  });
+
+  it('达到最大执行次数后不再重试', async () => {
+    insertShot('shot-1', 1);
+    insertTask({ id: 'task-1', shotId: 'shot-1', maxAttempts: 1 });
+    vi.mocked(generateShotImage).mockRejectedValue(new ApiError('Bad gateway', 502, 'transient'));
+
+    await startQueue();
+    await vi.waitFor(() => expect(getTask('task-1')?.status).toBe('error'));
+    expect(getTask('task-1')).toMatchObject({ errorClass: 'transient', attempts: 1 });
+  });
+
+  it('失败的前置任务会跳过依赖它的任务', async () => {
+    insertShot('shot-1', 1);
+    insertTask({ id: 'image-1', shotId: 'shot-1', type: 'image' });
+    insertTask({ id: 'video-1', shotId: 'shot-1', type: 'video', dependsOnTaskId: 'image-1' });
+    vi.mocked(generateShotImage).mockRejectedValue(new ApiError('内容审核未通过', 400, 'content-policy'));
+
+    await startQueue();
+    await vi.waitFor(() => expect(getTask('video-1')?.status).toBe('skipped'));
+    expect(getTask('image-1')?.status).toBe('error');
+    expect(generateShotVideo).not.toHaveBeenCalled();
+  });
+
+  it('执行期间被暂停的任务保持暂停，不重试也不标记完成', async () => {
+    insertShot('shot-1', 1);
+    insertShot('shot-2', 2);
+    insertTask({ id: 'task-1', shotId: 'shot-1' });
+    insertTask({ id: 'task-2', shotId: 'shot-2' });
+
+    let finishTask1!: () => void;
+    vi.mocked(generateShotImage).mockImplementation((shotId) =>
+      shotId === 'shot-1'
+        ? new Promise(resolve => { finishTask1 = () => resolve('image.png'); })
+        : Promise.resolve('image.png')
+    );
+
+    await startQueue();
+    await vi.waitFor(() => expect(finishTask1).toBeTypeOf('function'));
+
+    // 暂停与服务商返回同时发生
+    await pauseRenderTask('task-1');
+    finishTask1();
+
+    await vi.waitFor(() => expect(getTask('task-2')?.status).toBe('completed'));
+    expect(getTask('task-1')).toMatchObject({ status: 'paused', nextRetryAt: null });
+  });
+});
+
+describe('processQueue', () => {
+  /** 按启动顺序记录图像任务的分镜 */
+  function recordImageStarts(): string[] {
+    const started: string[] = [];
+    vi.mocked(generateShotImage).mockImplementation(async (shotId) => {
+      started.push(shotId);
+      return 'image.png';
+    });
+    return started;
+  }
+
+  it('按优先级、分镜顺序、创建时间调度', async () => {
+    insertShot('shot-1', 1);
+    insertShot('shot-2', 2);
+    insertShot('shot-3', 3);
+    insertShot('shot-4', 4);
+    insertTask({ id: 'task-4', shotId: 'shot-4', createdAt: '2026-01-01T00:00:00.000Z' });
+    insertTask({ id: 'task-3', shotId: 'shot-3', priority: 5 });
+    insertTask({ id: 'task-2', shotId: 'shot-2' });
+    insertTask({ id: 'task-1', shotId: 'shot-1', createdAt: '2026-01-02T00:00:00.000Z' });
+    const started = recordImageStarts();
+
+    await startQueue();
+    await vi.waitFor(() => expect(started).toHaveLength(4));
+
+    expect(started).toEqual(['shot-3', 'shot-1', 'shot-2', 'shot-4']);
+  });
+
+  it('前置任务完成后才执行依赖任务', async () => {
+    insertShot('shot-1', 1);
+    insertTask({ id: 'image-1', shotId: 'shot-1', type: 'image' });
+    // 优先级更高也要等待前置任务
+    insertTask({ id: 'video-1', shotId: 'shot-1', type: 'video', priority: 10, dependsOnTaskId: 'image-1' });
+
+    let finishImage!: () => void;
+    vi.mocked(generateShotImage).mockImplementation(() => new Promise(resolve => {
+      finishImage = () => resolve('image.png');
+    }));
+
+    await startQueue();
+    await vi.waitFor(() => expect(finishImage).toBeTypeOf('function'));
+    expect(generateShotVideo).not.toHaveBeenCalled();
+
+    finishImage();
+    await vi.waitFor(() => expect(getTask('video-1')?.status).toBe('completed'));
+    expect(getTask('image-1')?.status).toBe('completed');
+  });
+
+  it('前置任务已删除时视为完成', async () => {
+    insertShot('shot-1', 1);
+    insertTask({ id: 'video-1', shotId: 'shot-1', type: 'video', dependsOnTaskId: 'cleared-task' });
+
+    await startQueue();
+    await vi.waitFor(() => expect(getTask('video-1')?.status).toBe('completed'));
+  });
+
+  it('跳过退避等待中的任务', async () => {
+    insertShot('shot-1', 1);
+    insertShot('shot-2', 2);
+    insertTask({ id: 'task-1', shotId: 'shot-1' });
+    insertTask({ id: 'task-2', shotId: 'shot-2' });
+    sqlite.run('UPDATE render_tasks SET next_retry_at = ? WHERE id = ?', [
+      new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      'task-1',
+    ]);
+    const started = recordImageStarts();
+
+    await startQueue();
+    await vi.waitFor(() => expect(getTask('task-2')?.status).toBe('completed'));
+    expect(started).toEqual(['shot-2']);
+    expect(getTask('task-1')?.status).toBe('queued');
+  });
+});
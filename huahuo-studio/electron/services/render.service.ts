@@ -1,12 +1,34 @@
-import { eq, and, inArray } from 'drizzle-orm';
+import { eq, and, or, asc, desc, gt, inArray, isNull, lte, sql } from 'drizzle-orm';
 import { getDatabase, schema } from '../database';
 import { generateId } from './utils';
+import { getImageApiConfig, getRenderRateLimits, getVideoApiConfig, type ProviderType } from './settings.service';
 import { BrowserWindow } from 'electron';
+import type { RemoteVideoJob } from './ai.service';
 
 const { renderTasks, shots } = schema;
 
-export type RenderTaskStatus = 'queued' | 'rendering' | 'completed' | 'error' | 'paused';
+export type RenderTaskStatus = 'queued' | 'rendering' | 'completed' | 'error' | 'paused' | 'skipped';
 export type RenderTaskType = 'image' | 'video';
+/** 批量任务类型：pipeline 为每个分镜创建关联的图像 → 视频任务 */
+export type RenderBatchType = RenderTaskType | 'pipeline';
+export type RenderErrorClass = 'transient' | 'quota' | 'content-policy' | 'auth' | 'unknown';
+
+/** 单次执行记录 */
+export interface RenderAttempt {
+  attempt: number;
+  startedAt: string;
+  finishedAt: string;
+  errorClass: RenderErrorClass;
+  errorMessage: string;
+}
+
+/** 远程视频任务的轮询状态（任务 ID 和服务商单独存列） */
+export interface RemoteJobState {
+  status: string;
+  videoUrl: string | null;
+  pollCount: number;
+  lastPolledAt: string | null;
+}
 
 export interface RenderTaskData {
   id: string;
@@ -16,6 +38,16 @@ export interface RenderTaskData {
   status: RenderTaskStatus;
   progress: number;
   errorMessage: string | null;
+  attempts: number;
+  maxAttempts: number;
+  errorClass: RenderErrorClass | null;
+  attemptHistory: RenderAttempt[];
+  nextRetryAt: string | null;
+  priority: number;
+  dependsOnTaskId: string | null;
+  remoteJobId: string | null;
+  remoteProvider: string | null;
+  remoteJobState: RemoteJobState | null;
   startedAt: string | null;
   completedAt: string | null;
   createdAt: string;
@@ -24,12 +56,22 @@ export interface RenderTaskData {
   shotDescription?: string;
 }
 
-// 并发配置
-const MAX_CONCURRENT_TASKS = 5;
+// 重试策略：仅对可重试的错误类别按指数退避重新排队
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 10 * 1000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+const RETRYABLE_ERROR_CLASSES: RenderErrorClass[] = ['transient'];
 
 // 渲染队列状态
-let activeTaskIds: Set<string> = new Set();
+// 进行中的任务（任务ID -> 限流分组，如 aliyun:video）
+let activeTasks: Map<string, string> = new Map();
+// 进行中任务的取消控制器
+const taskControllers: Map<string, AbortController> = new Map();
+// 各限流分组最近一分钟内的任务启动时间（用于 RPM 限制）
+const recentStarts: Map<string, number[]> = new Map();
 let mainWindow: BrowserWindow | null = null;
+let queueWakeupTimer: ReturnType<typeof setTimeout> | null = null;
+let queueWakeupAt = 0;
 
 /**
  * 设置主窗口引用（用于发送进度更新）
@@ -62,6 +104,9 @@ export async function getRenderTasks(projectId: string): Promise<RenderTaskData[
       ...task,
       type: task.type as RenderTaskType,
       status: task.status as RenderTaskStatus,
+      errorClass: task.errorClass as RenderErrorClass | null,
+      attemptHistory: task.attemptHistory ? JSON.parse(task.attemptHistory) : [],
+      remoteJobState: task.remoteJobState ? JSON.parse(task.remoteJobState) : null,
       shotIndex: shotData?.index,
       shotDescription: shotData?.description,
     });
@@ -77,6 +122,7 @@ export async function createRenderTask(data: {
   projectId: string;
   shotId: string;
   type: RenderTaskType;
+  maxAttempts?: number;
 }): Promise<string> {
   const db = getDatabase();
   const id = generateId();
@@ -89,6 +135,7 @@ export async function createRenderTask(data: {
     type: data.type,
     status: 'queued',
     progress: 0,
+    maxAttempts: data.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
     createdAt: now,
   });
 
@@ -104,25 +151,41 @@ export async function createRenderTask(data: {
 export async function createBatchRenderTasks(data: {
   projectId: string;
   shotIds: string[];
-  type: RenderTaskType;
+  type: RenderBatchType;
+  maxAttempts?: number;
 }): Promise<string[]> {
   const db = getDatabase();
   const ids: string[] = [];
   const now = new Date().toISOString();
 
-  // 批量插入任务
-  for (const shotId of data.shotIds) {
+  const insertTask = async (shotId: string, type: RenderTaskType, dependsOnTaskId: string | null = null) => {
     const id = generateId();
     await db.insert(renderTasks).values({
       id,
       projectId: data.projectId,
       shotId,
-      type: data.type,
+      type,
       status: 'queued',
       progress: 0,
+      maxAttempts: data.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      dependsOnTaskId,
       createdAt: now,
     });
     ids.push(id);
+    return id;
+  };
+
+  // 批量插入任务
+  for (const shotId of data.shotIds) {
+    if (data.type !== 'pipeline') {
+      await insertTask(shotId, data.type);
+      continue;
+    }
+
+    // 流水线：已有图像的分镜直接生成视频，否则视频任务等待同分镜的图像任务完成
+    const [shot] = await db.select({ imagePath: shots.imagePath }).from(shots).where(eq(shots.id, shotId));
+    const imageTaskId = shot?.imagePath ? null : await insertTask(shotId, 'image');
+    await insertTask(shotId, 'video', imageTaskId);
   }
 
   // 开始处理队列
@@ -131,6 +194,29 @@ export async function createBatchRenderTasks(data: {
   return ids;
 }
 
+/**
+ * 统计批量任务将产生的图像/视频生成次数（用于预算估算）
+ */
+export async function countBatchGenerations(
+  shotIds: string[],
+  type: RenderBatchType
+): Promise<{ imageCount: number; videoCount: number }> {
+  if (type === 'image') return { imageCount: shotIds.length, videoCount: 0 };
+  if (type === 'video') return { imageCount: 0, videoCount: shotIds.length };
+
+  // 流水线：已有图像的分镜只生成视频
+  const db = getDatabase();
+  const withImage = shotIds.length > 0
+    ? await db
+        .select({ id: shots.id, imagePath: shots.imagePath })
+        .from(shots)
+        .where(inArray(shots.id, shotIds))
+    : [];
+  const imageCount = shotIds.length - withImage.filter(shot => shot.imagePath).length;
+
+  return { imageCount, videoCount: shotIds.length };
+}
+
 /**
  * 更新渲染任务状态
  */
@@ -149,7 +235,7 @@ export async function updateRenderTask(
   if (data.status === 'rendering' && !updates.startedAt) {
     updates.startedAt = new Date().toISOString();
   }
-  if (data.status === 'completed' || data.status === 'error') {
+  if (data.status === 'completed' || data.status === 'error' || data.status === 'skipped') {
     updates.completedAt = new Date().toISOString();
   }
 
@@ -168,107 +254,491 @@ export async function updateRenderTask(
 export async function cancelRenderTask(id: string): Promise<void> {
   const db = getDatabase();
 
-  if (activeTaskIds.has(id)) {
-    // TODO: 实际取消正在进行的 AI 请求
-    activeTaskIds.delete(id);
-  }
-
+  // 先删除任务记录，再中断正在进行的请求
   await db.delete(renderTasks).where(eq(renderTasks.id, id));
+  abortTask(id);
+
+  await skipDependentTasks(id, '前置任务已取消');
+}
+
+/**
+ * 前置任务失败或取消时，跳过所有依赖它的任务（递归）
+ */
+async function skipDependentTasks(taskId: string, reason: string): Promise<void> {
+  const db = getDatabase();
+
+  const dependents = await db
+    .select({ id: renderTasks.id })
+    .from(renderTasks)
+    .where(and(eq(renderTasks.dependsOnTaskId, taskId), inArray(renderTasks.status, ['queued', 'paused'])));
+
+  for (const dependent of dependents) {
+    await updateRenderTask(dependent.id, { status: 'skipped', errorMessage: reason });
+    await skipDependentTasks(dependent.id, reason);
+  }
 }
 
 /**
  * 暂停渲染任务
  */
 export async function pauseRenderTask(id: string): Promise<void> {
+  // 先标记暂停避免被重新调度，再中断正在进行的请求（恢复后重新生成）
   await updateRenderTask(id, { status: 'paused' });
+  abortTask(id);
+}
+
+/**
+ * 暂停项目中所有排队和正在生成的渲染任务（项目达到预算上限时调用）
+ * 正在生成的任务与手动暂停一样中断请求，恢复后重新生成（已提交的视频任务继续轮询）
+ */
+export async function pauseProjectRenderTasks(projectId: string): Promise<number> {
+  const db = getDatabase();
+
+  const pending = await db
+    .select({ id: renderTasks.id })
+    .from(renderTasks)
+    .where(and(eq(renderTasks.projectId, projectId), inArray(renderTasks.status, ['queued', 'rendering'])));
+
+  for (const task of pending) {
+    await pauseRenderTask(task.id);
+  }
+
+  return pending.length;
+}
+
+/**
+ * 中断正在进行的任务（网络请求和轮询）
+ */
+function abortTask(id: string): void {
+  const controller = taskControllers.get(id);
+  if (controller) {
+    console.log(`[RenderService] 中断任务 ${id}`);
+    controller.abort();
+  }
 }
 
 /**
  * 恢复渲染任务
  */
 export async function resumeRenderTask(id: string): Promise<void> {
+  const db = getDatabase();
+
+  const [task] = await db.select({ projectId: renderTasks.projectId }).from(renderTasks).where(eq(renderTasks.id, id));
+  if (!task) return;
+
+  // 动态导入以避免循环依赖
+  const { assertProjectBudgetAvailable } = await import('./usage.service');
+  await assertProjectBudgetAvailable(task.projectId);
+
+  await db.update(renderTasks).set({ nextRetryAt: null }).where(eq(renderTasks.id, id));
   await updateRenderTask(id, { status: 'queued' });
   processQueue();
 }
 
+/**
+ * 计算第 n 次失败后的退避等待时间（指数退避 + 随机抖动）
+ */
+export function getRetryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * 在指定时间后唤醒队列（退避重试到期、RPM 窗口释放）
+ */
+function scheduleQueueWakeup(delayMs: number): void {
+  const wakeupAt = Date.now() + Math.max(delayMs, 0);
+  // 已有更早的唤醒计划时无需重复设置
+  if (queueWakeupTimer && queueWakeupAt <= wakeupAt) {
+    return;
+  }
+  if (queueWakeupTimer) {
+    clearTimeout(queueWakeupTimer);
+  }
+  queueWakeupAt = wakeupAt;
+  queueWakeupTimer = setTimeout(() => {
+    queueWakeupTimer = null;
+    void processQueue();
+  }, Math.max(delayMs, 0));
+}
+
+/**
+ * 处理任务失败：可重试的错误按退避重新排队，否则标记为 error
+ * 接口错误使用请求时按 HTTP 状态码确定的类别，其他错误按错误信息判断
+ */
+async function handleTaskFailure(
+  task: typeof renderTasks.$inferSelect,
+  startedAt: string,
+  error: unknown
+): Promise<void> {
+  const db = getDatabase();
+  const { ApiError, classifyApiError } = await import('./ai.service');
+  const errorMessage = error instanceof Error ? error.message : '未知错误';
+  const errorClass = error instanceof ApiError ? error.errorClass : classifyApiError(errorMessage);
+
+  const [current] = await db.select().from(renderTasks).where(eq(renderTasks.id, task.id));
+  if (!current) {
+    // 任务已被取消删除
+    return;
+  }
+
+  const history: RenderAttempt[] = current.attemptHistory ? JSON.parse(current.attemptHistory) : [];
+  history.push({
+    attempt: current.attempts,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    errorClass,
+    errorMessage,
+  });
+
+  await db
+    .update(renderTasks)
+    .set({ errorClass, attemptHistory: JSON.stringify(history) })
+    .where(eq(renderTasks.id, task.id));
+
+  // 执行期间被暂停的任务不再自动重试
+  if (current.status === 'paused') {
+    return;
+  }
+
+  const canRetry = RETRYABLE_ERROR_CLASSES.includes(errorClass) && current.attempts < current.maxAttempts;
+  if (canRetry) {
+    const delay = getRetryDelay(current.attempts);
+    const nextRetryAt = new Date(Date.now() + delay).toISOString();
+    await db.update(renderTasks).set({ nextRetryAt }).where(eq(renderTasks.id, task.id));
+    await updateRenderTask(task.id, { status: 'queued', progress: 0, errorMessage });
+    console.log(`[RenderService] 任务 ${task.id} 第 ${current.attempts} 次执行失败（${errorClass}），${Math.round(delay / 1000)} 秒后重试`);
+    scheduleQueueWakeup(delay);
+    return;
+  }
+
+  await updateRenderTask(task.id, { status: 'error', errorMessage });
+  await skipDependentTasks(task.id, '前置任务失败，已跳过');
+}
+
 /**
  * 处理单个渲染任务
  */
-async function processTask(task: typeof renderTasks.$inferSelect): Promise<void> {
+async function processTask(task: typeof renderTasks.$inferSelect, bucket: string): Promise<void> {
+  const db = getDatabase();
   const taskId = task.id;
-  activeTaskIds.add(taskId);
+  const startedAt = new Date().toISOString();
+  const controller = new AbortController();
+  const { signal } = controller;
+  activeTasks.set(taskId, bucket);
+  taskControllers.set(taskId, controller);
 
   try {
+    // 先记录执行次数，即使进程在执行中崩溃也能保留
+    await db
+      .update(renderTasks)
+      .set({ attempts: sql`${renderTasks.attempts} + 1`, nextRetryAt: null })
+      .where(eq(renderTasks.id, taskId));
     await updateRenderTask(taskId, { status: 'rendering', progress: 0 });
 
     // 动态导入 AI 服务以避免循环依赖
     const aiService = await import('./ai.service');
 
-    if (task.type === 'image') {
-      await aiService.generateShotImage(task.shotId!, (progress) => {
+    const onProgress = (progress: number) => {
+      if (!signal.aborted) {
         updateRenderTask(taskId, { progress });
-      });
+      }
+    };
+
+    if (task.type === 'image') {
+      await aiService.generateShotImage(task.shotId!, onProgress, signal);
     } else {
-      await aiService.generateShotVideo(task.shotId!, (progress) => {
-        updateRenderTask(taskId, { progress });
+      // 记录远程任务，应用重启或轮询超时后继续轮询而不是重新提交
+      await aiService.generateShotVideo(task.shotId!, onProgress, signal, {
+        resume: parseRemoteVideoJob(task),
+        onUpdate: (job) => saveRemoteVideoJob(taskId, job),
       });
     }
 
+    // 生成结束时任务已被暂停或取消，不覆盖用户设置的状态
+    const [current] = await db.select({ status: renderTasks.status }).from(renderTasks).where(eq(renderTasks.id, taskId));
+    if (signal.aborted || !current || current.status === 'paused') {
+      console.log(`[RenderService] 任务 ${taskId} 已暂停或取消，不标记为完成`);
+      return;
+    }
+
+    await db
+      .update(renderTasks)
+      .set({ errorClass: null, remoteJobId: null, remoteProvider: null, remoteJobState: null })
+      .where(eq(renderTasks.id, taskId));
     await updateRenderTask(taskId, { status: 'completed', progress: 100 });
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : '未知错误';
-    await updateRenderTask(taskId, { status: 'error', errorMessage });
+    if (signal.aborted) {
+      // 任务被取消或暂停，状态已由调用方更新
+      console.log(`[RenderService] 任务 ${taskId} 已中断`);
+      return;
+    }
+    await handleTaskFailure(task, startedAt, error);
   } finally {
-    activeTaskIds.delete(taskId);
+    activeTasks.delete(taskId);
+    taskControllers.delete(taskId);
     // 继续处理队列中的下一个任务
     processQueue();
   }
 }
 
 /**
- * 处理渲染队列（支持并发）
+ * 读取任务上保存的远程视频任务
  */
-async function processQueue(): Promise<void> {
-  // 检查是否还有空闲槽位
-  if (activeTaskIds.size >= MAX_CONCURRENT_TASKS) {
-    return;
+function parseRemoteVideoJob(task: typeof renderTasks.$inferSelect): RemoteVideoJob | null {
+  if (!task.remoteProvider || !task.remoteJobState) return null;
+
+  try {
+    const state: RemoteJobState = JSON.parse(task.remoteJobState);
+    return { provider: task.remoteProvider, jobId: task.remoteJobId, ...state };
+  } catch {
+    return null;
   }
+}
 
+/**
+ * 保存远程视频任务状态（null 表示清除）
+ */
+async function saveRemoteVideoJob(taskId: string, job: RemoteVideoJob | null): Promise<void> {
   const db = getDatabase();
 
-  // 计算可以启动多少个新任务
-  const availableSlots = MAX_CONCURRENT_TASKS - activeTaskIds.size;
+  try {
+    if (!job) {
+      await db
+        .update(renderTasks)
+        .set({ remoteJobId: null, remoteProvider: null, remoteJobState: null })
+        .where(eq(renderTasks.id, taskId));
+      return;
+    }
 
-  // 获取待处理任务（排除已经在处理中的）
-  const queuedTasks = await db
-    .select()
+    const { provider, jobId, ...state } = job;
+    await db
+      .update(renderTasks)
+      .set({ remoteJobId: jobId, remoteProvider: provider, remoteJobState: JSON.stringify(state) })
+      .where(eq(renderTasks.id, taskId));
+  } catch (error) {
+    console.error(`[RenderService] 保存任务 ${taskId} 的远程任务状态失败:`, error);
+  }
+}
+
+/**
+ * 将任务提到队首（优先级设为项目内最高 + 1）
+ */
+export async function bumpRenderTask(id: string): Promise<void> {
+  const db = getDatabase();
+
+  const [task] = await db.select().from(renderTasks).where(eq(renderTasks.id, id));
+  if (!task) {
+    throw new Error('任务不存在');
+  }
+
+  const [top] = await db
+    .select({ maxPriority: sql<number>`max(${renderTasks.priority})` })
     .from(renderTasks)
-    .where(eq(renderTasks.status, 'queued'))
-    .limit(availableSlots);
+    .where(eq(renderTasks.projectId, task.projectId));
 
-  // 过滤掉已经在处理中的任务
-  const tasksToProcess = queuedTasks.filter(task => !activeTaskIds.has(task.id));
+  await db
+    .update(renderTasks)
+    .set({ priority: (top?.maxPriority ?? 0) + 1 })
+    .where(eq(renderTasks.id, id));
 
-  if (tasksToProcess.length === 0) {
-    return;
+  processQueue();
+}
+
+/**
+ * 按给定顺序重排项目的排队任务
+ * 列出的任务依次排在最前，未列出的任务恢复默认优先级（按分镜顺序）
+ */
+export async function reorderRenderTasks(projectId: string, taskIds: string[]): Promise<void> {
+  const db = getDatabase();
+
+  await db
+    .update(renderTasks)
+    .set({ priority: 0 })
+    .where(and(eq(renderTasks.projectId, projectId), inArray(renderTasks.status, ['queued', 'paused'])));
+
+  for (let i = 0; i < taskIds.length; i++) {
+    await db
+      .update(renderTasks)
+      .set({ priority: taskIds.length - i })
+      .where(and(eq(renderTasks.id, taskIds[i]), eq(renderTasks.projectId, projectId)));
+  }
+
+  processQueue();
+}
+
+/**
+ * 获取限流分组当前进行中的任务数
+ */
+function countActiveTasks(bucket: string): number {
+  let count = 0;
+  for (const taskBucket of activeTasks.values()) {
+    if (taskBucket === bucket) count++;
+  }
+  return count;
+}
+
+/**
+ * 获取各任务类型实际调用的服务商（与生成时解析的 API 配置一致，如视频 official 实际走 custom）
+ */
+async function resolveTaskProviders(): Promise<Record<RenderTaskType, string>> {
+  const [imageConfig, videoConfig] = await Promise.all([getImageApiConfig(), getVideoApiConfig()]);
+  return { image: imageConfig.provider, video: videoConfig.provider };
+}
+
+/**
+ * 处理渲染队列（按服务商和任务类型分别限制并发数和 RPM）
+ */
+async function processQueue(): Promise<void> {
+  const db = getDatabase();
+  const providers = await resolveTaskProviders();
+  const limits = await getRenderRateLimits();
+
+  // 获取待处理任务（跳过仍在退避等待中的任务），按优先级、分镜顺序排列
+  const nowIso = new Date().toISOString();
+  const queuedRows = await db
+    .select({ task: renderTasks })
+    .from(renderTasks)
+    .leftJoin(shots, eq(renderTasks.shotId, shots.id))
+    .where(
+      and(
+        eq(renderTasks.status, 'queued'),
+        or(isNull(renderTasks.nextRetryAt), lte(renderTasks.nextRetryAt, nowIso))
+      )
+    )
+    .orderBy(desc(renderTasks.priority), asc(shots.index), asc(renderTasks.createdAt));
+  const queuedTasks = queuedRows.map(row => row.task);
+
+  // 已达到预算上限的项目不再启动任务（如退避后重新排队的任务），并暂停其剩余任务
+  const { isProjectBudgetReached } = await import('./usage.service');
+  const budgetReachedProjects = new Set<string>();
+  for (const projectId of new Set(queuedTasks.map(task => task.projectId))) {
+    if (await isProjectBudgetReached(projectId)) {
+      budgetReachedProjects.add(projectId);
+      const paused = await pauseProjectRenderTasks(projectId);
+      console.log(`[RenderService] 项目 ${projectId} 已达到预算上限，暂停 ${paused} 个渲染任务`);
+    }
   }
 
-  // 并行启动任务（不等待完成）
-  for (const task of tasksToProcess) {
+  // 查询前置任务状态，未完成的任务继续等待
+  const dependencyIds = queuedTasks
+    .map(task => task.dependsOnTaskId)
+    .filter((id): id is string => !!id);
+  const dependencyStatus = new Map<string, string>();
+  if (dependencyIds.length > 0) {
+    const dependencies = await db
+      .select({ id: renderTasks.id, status: renderTasks.status })
+      .from(renderTasks)
+      .where(inArray(renderTasks.id, dependencyIds));
+    for (const dependency of dependencies) {
+      dependencyStatus.set(dependency.id, dependency.status);
+    }
+  }
+
+  // 仍在退避等待的任务，到期后再唤醒队列
+  const [nextRetry] = await db
+    .select({ nextRetryAt: renderTasks.nextRetryAt })
+    .from(renderTasks)
+    .where(and(eq(renderTasks.status, 'queued'), gt(renderTasks.nextRetryAt, nowIso)))
+    .orderBy(asc(renderTasks.nextRetryAt))
+    .limit(1);
+  if (nextRetry?.nextRetryAt) {
+    scheduleQueueWakeup(new Date(nextRetry.nextRetryAt).getTime() - Date.now());
+  }
+
+  // 以下为同步调度，避免多次并发调用 processQueue 时重复启动任务
+  const now = Date.now();
+  for (const task of queuedTasks) {
+    if (activeTasks.has(task.id) || budgetReachedProjects.has(task.projectId)) {
+      continue;
+    }
+
+    // 前置任务已删除（如已清理的已完成任务）视为完成
+    if (task.dependsOnTaskId && dependencyStatus.has(task.dependsOnTaskId) &&
+        dependencyStatus.get(task.dependsOnTaskId) !== 'completed') {
+      continue;
+    }
+
+    const type = task.type as RenderTaskType;
+    const provider = providers[type];
+    const bucket = `${provider}:${type}`;
+    const limit = limits[provider as ProviderType]?.[type] ?? { concurrency: 1, rpm: 0 };
+
+    // 并发数限制
+    if (countActiveTasks(bucket) >= Math.max(1, limit.concurrency)) {
+      continue;
+    }
+
+    // RPM 限制：统计最近一分钟内该分组启动的任务
+    const starts = (recentStarts.get(bucket) || []).filter(time => now - time < 60 * 1000);
+    recentStarts.set(bucket, starts);
+    if (limit.rpm > 0 && starts.length >= limit.rpm) {
+      scheduleQueueWakeup(starts[0] + 60 * 1000 - now);
+      continue;
+    }
+    starts.push(now);
+
     // 使用 void 表示我们故意不等待这个 Promise
-    void processTask(task);
+    void processTask(task, bucket);
   }
 }
 
+/**
+ * 启动时恢复渲染队列
+ * 上次运行崩溃或退出时仍处于 rendering 的任务已无进程在执行，重置为 queued 后重新调度
+ */
+export async function recoverRenderQueue(): Promise<{ recovered: number; queued: number }> {
+  const db = getDatabase();
+
+  const orphanedTasks = (await db
+    .select({ id: renderTasks.id, remoteJobState: renderTasks.remoteJobState })
+    .from(renderTasks)
+    .where(eq(renderTasks.status, 'rendering')))
+    .filter(task => !activeTasks.has(task.id));
+
+  const orphanedIds = orphanedTasks.map(task => task.id);
+
+  if (orphanedIds.length > 0) {
+    await db
+      .update(renderTasks)
+      .set({ status: 'queued', progress: 0, startedAt: null })
+      .where(inArray(renderTasks.id, orphanedIds));
+    console.log(`[RenderService] 已重置 ${orphanedIds.length} 个中断的渲染任务`);
+
+    // 已提交到服务商的视频任务会继续轮询/下载，不会重新提交
+    const remoteCount = orphanedTasks.filter(task => task.remoteJobState).length;
+    if (remoteCount > 0) {
+      console.log(`[RenderService] 其中 ${remoteCount} 个视频任务将继续轮询远程结果`);
+    }
+  }
+
+  const queuedTasks = await db
+    .select({ id: renderTasks.id })
+    .from(renderTasks)
+    .where(eq(renderTasks.status, 'queued'));
+
+  if (queuedTasks.length > 0) {
+    console.log(`[RenderService] 恢复渲染队列，待处理任务 ${queuedTasks.length} 个`);
+    void processQueue();
+  }
+
+  return { recovered: orphanedIds.length, queued: queuedTasks.length };
+}
+
 /**
  * 获取队列状态
  */
 export function getQueueStatus() {
+  const activeByBucket: Record<string, number> = {};
+  for (const bucket of activeTasks.values()) {
+    activeByBucket[bucket] = (activeByBucket[bucket] || 0) + 1;
+  }
+
   return {
-    isProcessing: activeTaskIds.size > 0,
-    activeTaskCount: activeTaskIds.size,
-    activeTaskIds: Array.from(activeTaskIds),
-    maxConcurrent: MAX_CONCURRENT_TASKS,
+    isProcessing: activeTasks.size > 0,
+    activeTaskCount: activeTasks.size,
+    activeTaskIds: Array.from(activeTasks.keys()),
+    activeByBucket,
   };
 }
 
@@ -283,7 +753,7 @@ export async function clearCompletedTasks(projectId: string): Promise<number> {
     .where(
       and(
         eq(renderTasks.projectId, projectId),
-        inArray(renderTasks.status, ['completed', 'error'])
+        inArray(renderTasks.status, ['completed', 'error', 'skipped'])
       )
     );
 
@@ -17,11 +17,27 @@ export interface SceneData {
   props: string | null;
   lighting: string | null;
   atmosphere: string | null;
-  imagePath: string | null;
+  imagePath: string | null; // 当前选中的场景参考图
+  generatedImages: string[]; // 所有生成过的场景参考图
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * 解析场景的历史参考图列表（旧数据只有 imagePath 时视为唯一版本）
+ */
+function parseGeneratedImages(scene: { generatedImages: string | null; imagePath: string | null }): string[] {
+  if (scene.generatedImages) {
+    try {
+      const parsed = JSON.parse(scene.generatedImages);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // JSON 解析失败，忽略
+    }
+  }
+  return scene.imagePath ? [scene.imagePath] : [];
+}
+
 /**
  * 获取项目所有场景
  */
@@ -37,6 +53,7 @@ export async function getScenes(projectId: string): Promise<SceneData[]> {
   return result.map((scene: any) => ({
     ...scene,
     interior: scene.interior ?? true,
+    generatedImages: parseGeneratedImages(scene),
   }));
 }
 
@@ -52,6 +69,7 @@ export async function getScene(id: string): Promise<SceneData | null> {
   return {
     ...scene,
     interior: scene.interior ?? true,
+    generatedImages: parseGeneratedImages(scene),
   };
 }
 
@@ -70,6 +88,7 @@ export async function findSceneByInfo(projectId: string, sceneInfo: string): Pro
   return {
     ...scene,
     interior: scene.interior ?? true,
+    generatedImages: parseGeneratedImages(scene),
   };
 }
 
@@ -260,15 +279,61 @@ export async function deleteScene(id: string): Promise<void> {
 
   if (!scene) return;
 
-  // 删除关联的图片文件
-  if (scene.imagePath) {
-    deleteProjectFile(scene.imagePath);
-  }
+  // 删除关联的图片文件（包括所有历史版本）
+  new Set([scene.imagePath, ...parseGeneratedImages(scene)]).forEach(path => path && deleteProjectFile(path));
 
   await db.delete(scenes).where(eq(scenes.id, id));
   await touchProject(scene.projectId);
 }
 
+/**
+ * 添加生成的场景参考图，并设为当前选中
+ */
+export async function addGeneratedSceneImage(id: string, imagePath: string): Promise<void> {
+  const db = getDatabase();
+  const [scene] = await db.select().from(scenes).where(eq(scenes.id, id));
+
+  if (!scene) return;
+
+  const images = parseGeneratedImages(scene);
+  images.push(imagePath);
+
+  await db
+    .update(scenes)
+    .set({
+      imagePath,
+      generatedImages: JSON.stringify(images),
+      updatedAt: new Date().toISOString(),
+    })
+    .where(eq(scenes.id, id));
+
+  await touchProject(scene.projectId);
+}
+
+/**
+ * 设置选中的场景参考图
+ */
+export async function setSelectedSceneImage(id: string, imagePath: string): Promise<void> {
+  const db = getDatabase();
+  const [scene] = await db.select().from(scenes).where(eq(scenes.id, id));
+
+  if (!scene) return;
+
+  if (!parseGeneratedImages(scene).includes(imagePath)) {
+    throw new Error('该参考图不属于此场景');
+  }
+
+  await db
+    .update(scenes)
+    .set({
+      imagePath,
+      updatedAt: new Date().toISOString(),
+    })
+    .where(eq(scenes.id, id));
+
+  await touchProject(scene.projectId);
+}
+
 /**
  * 清理项目中的重复场景
  * 保留最早创建的场景，删除后续重复的
@@ -301,10 +366,9 @@ export async function cleanupDuplicateScenes(projectId: string): Promise<number>
       // 保留第一个（最早创建的），删除其余的
       for (let i = 1; i < sceneList.length; i++) {
         const sceneToDelete = sceneList[i];
-        // 删除关联的图片文件
-        if (sceneToDelete.imagePath) {
-          deleteProjectFile(sceneToDelete.imagePath);
-        }
+        // 删除关联的图片文件（包括所有历史版本）
+        new Set([sceneToDelete.imagePath, ...parseGeneratedImages(sceneToDelete)])
+          .forEach(path => path && deleteProjectFile(path));
         await db.delete(scenes).where(eq(scenes.id, sceneToDelete.id));
         deletedCount++;
       }
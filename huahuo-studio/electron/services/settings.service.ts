@@ -4,11 +4,29 @@ import { existsSync, copyFileSync, mkdirSync } from 'fs';
 import { dirname, join } from 'path';
 import { app, dialog } from 'electron';
 import { setStoragePath as setUtilsStoragePath } from './utils';
+import { getProvider, type ConnectionTestResult, type ModelInfo, type VoiceInfo } from './provider.service';
 
 const { settings } = schema;
 
 // 服务商类型
-export type ProviderType = 'apiyi' | 'aliyun' | 'official' | 'custom';
+export type ProviderType = 'apiyi' | 'aliyun' | 'official' | 'custom' | 'local';
+
+/** 渲染任务限流配置（concurrency: 最大并发数，rpm: 每分钟最多发起任务数，0 表示不限制） */
+export interface RenderRateLimit {
+  concurrency: number;
+  rpm: number;
+}
+
+/** 按服务商和任务类型区分的限流配置 */
+export type RenderRateLimits = Record<ProviderType, Record<'image' | 'video', RenderRateLimit>>;
+
+export const defaultRenderRateLimits: RenderRateLimits = {
+  apiyi: { image: { concurrency: 5, rpm: 0 }, video: { concurrency: 3, rpm: 0 } },
+  aliyun: { image: { concurrency: 5, rpm: 0 }, video: { concurrency: 2, rpm: 0 } },
+  official: { image: { concurrency: 5, rpm: 0 }, video: { concurrency: 2, rpm: 0 } },
+  custom: { image: { concurrency: 5, rpm: 0 }, video: { concurrency: 2, rpm: 0 } },
+  local: { image: { concurrency: 1, rpm: 0 }, video: { concurrency: 1, rpm: 0 } },
+};
 
 export interface AppSettings {
   // ============ LLM 服务商配置 ============
@@ -19,6 +37,8 @@ export interface AppSettings {
   llmOfficialClaudeKey: string;
   llmCustomBaseUrl: string;
   llmCustomApiKey: string;
+  llmLocalBaseUrl: string; // 本地 Ollama 服务地址
+  llmLocalContextLength: number; // 本地模型上下文长度（num_ctx）
   defaultTextModel: string;
 
   // ============ 图像服务商配置 ============
@@ -28,6 +48,11 @@ export interface AppSettings {
   imageOfficialGeminiKey: string;
   imageCustomBaseUrl: string;
   imageCustomApiKey: string;
+  imageLocalBaseUrl: string; // 本地 Stable Diffusion WebUI 地址
+  imageLocalSampler: string;
+  imageLocalSteps: number;
+  imageLocalCfgScale: number;
+  imageLocalSeed: number; // -1 表示随机
   defaultImageModel: string;
   defaultImageEditModel: string; // 图片修改模型
   defaultImageSize: string;
@@ -42,6 +67,20 @@ export interface AppSettings {
   defaultVideoModel: string;
   defaultVideoDuration: number;
 
+  // ============ 语音服务商配置 ============
+  ttsProvider: ProviderType;
+  ttsApiyiApiKey: string;
+  ttsAliyunApiKey: string;
+  ttsCustomBaseUrl: string;
+  ttsCustomApiKey: string;
+  ttsLocalBaseUrl: string; // 本地 OpenAI 兼容语音服务地址（如 Kokoro-FastAPI）
+  defaultTtsModel: string;
+  defaultTtsVoice: string;
+  defaultTtsSpeed: number;
+
+  // ============ 渲染队列配置 ============
+  renderRateLimits: string; // RenderRateLimits（JSON格式）
+
   // ============ 旧版兼容字段（迁移用） ============
   apiMode?: 'official' | 'apiyi' | 'aggregator';
   geminiApiKey?: string;
@@ -63,6 +102,8 @@ const defaultSettings: AppSettings = {
   llmOfficialClaudeKey: '',
   llmCustomBaseUrl: '',
   llmCustomApiKey: '',
+  llmLocalBaseUrl: 'http://127.0.0.1:11434',
+  llmLocalContextLength: 8192,
   defaultTextModel: 'gemini-2.0-flash',
 
   // 图像服务商配置
@@ -72,6 +113,11 @@ const defaultSettings: AppSettings = {
   imageOfficialGeminiKey: '',
   imageCustomBaseUrl: '',
   imageCustomApiKey: '',
+  imageLocalBaseUrl: 'http://127.0.0.1:7860',
+  imageLocalSampler: 'Euler a',
+  imageLocalSteps: 25,
+  imageLocalCfgScale: 7,
+  imageLocalSeed: -1,
   defaultImageModel: 'gemini-3-pro-image-preview',
   defaultImageEditModel: 'gemini-3-pro-image-preview',
   defaultImageSize: '2K',
@@ -86,6 +132,20 @@ const defaultSettings: AppSettings = {
   defaultVideoModel: 'sora_video2',
   defaultVideoDuration: 5,
 
+  // 语音服务商配置（模型和音色为空时使用服务商默认值）
+  ttsProvider: 'apiyi',
+  ttsApiyiApiKey: '',
+  ttsAliyunApiKey: '',
+  ttsCustomBaseUrl: '',
+  ttsCustomApiKey: '',
+  ttsLocalBaseUrl: 'http://127.0.0.1:8880',
+  defaultTtsModel: '',
+  defaultTtsVoice: '',
+  defaultTtsSpeed: 1,
+
+  // 渲染队列配置
+  renderRateLimits: JSON.stringify(defaultRenderRateLimits),
+
   // 存储
   storagePath: '',
 };
@@ -185,6 +245,29 @@ export async function updateSettings(updates: Partial<AppSettings>): Promise<voi
   }
 }
 
+/**
+ * 获取渲染任务限流配置（与默认值合并，缺失项使用默认值）
+ */
+export async function getRenderRateLimits(): Promise<RenderRateLimits> {
+  const settings = await getAllSettings();
+
+  let saved: Partial<RenderRateLimits> = {};
+  try {
+    saved = JSON.parse(settings.renderRateLimits || '{}');
+  } catch {
+    console.warn('[Settings] renderRateLimits 解析失败，使用默认限流配置');
+  }
+
+  const result = {} as RenderRateLimits;
+  for (const provider of Object.keys(defaultRenderRateLimits) as ProviderType[]) {
+    result[provider] = {
+      image: { ...defaultRenderRateLimits[provider].image, ...saved[provider]?.image },
+      video: { ...defaultRenderRateLimits[provider].video, ...saved[provider]?.video },
+    };
+  }
+  return result;
+}
+
 /**
  * 获取 LLM API 配置
  */
@@ -214,10 +297,18 @@ export async function getLlmApiConfig() {
         claudeApiKey: settings.llmOfficialClaudeKey,
         textModel: settings.defaultTextModel,
       };
+    case 'local':
+      return {
+        provider: 'local' as const,
+        baseUrl: settings.llmLocalBaseUrl,
+        textModel: settings.defaultTextModel,
+        contextLength: settings.llmLocalContextLength,
+      };
     case 'custom':
     default:
+      // 自定义服务及扩展注册的服务商使用自定义服务地址和 Key
       return {
-        provider: 'custom' as const,
+        provider: provider as string,
         baseUrl: settings.llmCustomBaseUrl,
         apiKey: settings.llmCustomApiKey,
         textModel: settings.defaultTextModel,
@@ -262,10 +353,26 @@ export async function getImageApiConfig() {
         imageSize: settings.defaultImageSize,
         imageAspectRatio: settings.imageAspectRatio,
       };
+    case 'local':
+      return {
+        provider: 'local' as const,
+        baseUrl: settings.imageLocalBaseUrl,
+        imageModel: settings.defaultImageModel,
+        imageEditModel: settings.defaultImageEditModel,
+        imageSize: settings.defaultImageSize,
+        imageAspectRatio: settings.imageAspectRatio,
+        sampling: {
+          sampler: settings.imageLocalSampler || 'Euler a',
+          steps: settings.imageLocalSteps || 25,
+          cfgScale: settings.imageLocalCfgScale || 7,
+          seed: Number.isFinite(settings.imageLocalSeed) ? settings.imageLocalSeed : -1,
+        },
+      };
     case 'custom':
     default:
+      // 自定义服务及扩展注册的服务商使用自定义服务地址和 Key
       return {
-        provider: 'custom' as const,
+        provider: provider as string,
         baseUrl: settings.imageCustomBaseUrl,
         apiKey: settings.imageCustomApiKey,
         imageModel: settings.defaultImageModel,
@@ -302,8 +409,9 @@ export async function getVideoApiConfig() {
       };
     case 'custom':
     default:
+      // 自定义服务及扩展注册的服务商使用自定义服务地址和 Key（官方服务商没有视频服务，按自定义服务处理）
       return {
-        provider: 'custom' as const,
+        provider: provider === 'official' ? 'custom' : provider as string,
         baseUrl: settings.videoCustomBaseUrl,
         apiKey: settings.videoCustomApiKey,
         videoModel: settings.defaultVideoModel,
@@ -312,6 +420,55 @@ export async function getVideoApiConfig() {
   }
 }
 
+/**
+ * 获取语音合成 API 配置
+ */
+export async function getTtsApiConfig() {
+  const settings = await getAllSettings();
+  const provider = settings.ttsProvider || 'apiyi';
+  const ttsSpeed = settings.defaultTtsSpeed || 1;
+
+  switch (provider) {
+    case 'apiyi':
+      return {
+        provider: 'apiyi' as const,
+        baseUrl: 'https://api.apiyi.com',
+        apiKey: settings.ttsApiyiApiKey,
+        ttsModel: settings.defaultTtsModel || 'tts-1',
+        ttsVoice: settings.defaultTtsVoice || 'alloy',
+        ttsSpeed,
+      };
+    case 'aliyun':
+      return {
+        provider: 'aliyun' as const,
+        baseUrl: 'https://dashscope.aliyuncs.com/api/v1',
+        apiKey: settings.ttsAliyunApiKey,
+        ttsModel: settings.defaultTtsModel || 'cosyvoice-v2',
+        ttsVoice: settings.defaultTtsVoice || 'longxiaochun_v2',
+        ttsSpeed,
+      };
+    case 'local':
+      return {
+        provider: 'local' as const,
+        baseUrl: settings.ttsLocalBaseUrl,
+        ttsModel: settings.defaultTtsModel || 'tts-1',
+        ttsVoice: settings.defaultTtsVoice || 'alloy',
+        ttsSpeed,
+      };
+    case 'custom':
+    default:
+      // 自定义服务及扩展注册的服务商使用自定义服务地址和 Key（官方服务商没有语音服务，按自定义服务处理）
+      return {
+        provider: provider === 'official' ? 'custom' : provider as string,
+        baseUrl: settings.ttsCustomBaseUrl,
+        apiKey: settings.ttsCustomApiKey,
+        ttsModel: settings.defaultTtsModel || 'tts-1',
+        ttsVoice: settings.defaultTtsVoice || 'alloy',
+        ttsSpeed,
+      };
+  }
+}
+
 /**
  * 获取 API 配置（兼容旧版调用）
  * @deprecated 请使用 getLlmApiConfig, getImageApiConfig, getVideoApiConfig
@@ -387,40 +544,7 @@ export async function getApiConfig() {
  */
 export async function testLlmConnection(): Promise<{ success: boolean; message: string }> {
   const config = await getLlmApiConfig();
-
-  try {
-    if (config.provider === 'official') {
-      if (!config.geminiApiKey) {
-        return { success: false, message: 'Gemini API Key 未配置' };
-      }
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1/models?key=${config.geminiApiKey}`
-      );
-      if (!response.ok) {
-        return { success: false, message: `Gemini API 错误: ${response.status}` };
-      }
-      return { success: true, message: 'Gemini 连接成功' };
-    }
-
-    if (!config.apiKey) {
-      return { success: false, message: 'API Key 未配置' };
-    }
-
-    const response = await fetch(`${config.baseUrl}/v1/models`, {
-      headers: { Authorization: `Bearer ${config.apiKey}` },
-    });
-
-    if (!response.ok) {
-      return { success: false, message: `API 错误: ${response.status}` };
-    }
-
-    const providerName = config.provider === 'apiyi' ? 'API易' :
-                        config.provider === 'aliyun' ? '阿里云' : '自定义服务';
-    return { success: true, message: `${providerName} LLM 连接成功` };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : '网络错误';
-    return { success: false, message };
-  }
+  return await testProviderConnection(() => getProvider('text', config.provider).testConnection(config));
 }
 
 /**
@@ -428,45 +552,7 @@ export async function testLlmConnection(): Promise<{ success: boolean; message:
  */
 export async function testImageConnection(): Promise<{ success: boolean; message: string }> {
   const config = await getImageApiConfig();
-
-  try {
-    if (config.provider === 'official') {
-      if (!config.geminiApiKey) {
-        return { success: false, message: 'Gemini API Key 未配置' };
-      }
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1/models?key=${config.geminiApiKey}`
-      );
-      if (!response.ok) {
-        return { success: false, message: `Gemini API 错误: ${response.status}` };
-      }
-      return { success: true, message: 'Gemini 图像服务连接成功' };
-    }
-
-    if (!config.apiKey) {
-      return { success: false, message: 'API Key 未配置' };
-    }
-
-    // 阿里云图像服务使用不同的测试接口
-    if (config.provider === 'aliyun') {
-      // 阿里云 DashScope 不支持 /v1/models，直接返回成功
-      return { success: true, message: '阿里云图像服务配置完成' };
-    }
-
-    const response = await fetch(`${config.baseUrl}/v1/models`, {
-      headers: { Authorization: `Bearer ${config.apiKey}` },
-    });
-
-    if (!response.ok) {
-      return { success: false, message: `API 错误: ${response.status}` };
-    }
-
-    const providerName = config.provider === 'apiyi' ? 'API易' : '自定义服务';
-    return { success: true, message: `${providerName} 图像服务连接成功` };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : '网络错误';
-    return { success: false, message };
-  }
+  return await testProviderConnection(() => getProvider('image', config.provider).testConnection(config));
 }
 
 /**
@@ -474,27 +560,25 @@ export async function testImageConnection(): Promise<{ success: boolean; message
  */
 export async function testVideoConnection(): Promise<{ success: boolean; message: string }> {
   const config = await getVideoApiConfig();
+  return await testProviderConnection(() => getProvider('video', config.provider).testConnection(config));
+}
 
-  try {
-    if (!config.apiKey) {
-      return { success: false, message: 'API Key 未配置' };
-    }
-
-    // 阿里云视频服务使用不同的测试接口
-    if (config.provider === 'aliyun') {
-      return { success: true, message: '阿里云视频服务配置完成' };
-    }
-
-    const response = await fetch(`${config.baseUrl}/v1/models`, {
-      headers: { Authorization: `Bearer ${config.apiKey}` },
-    });
-
-    if (!response.ok) {
-      return { success: false, message: `API 错误: ${response.status}` };
-    }
+/**
+ * 测试语音 API 连接
+ */
+export async function testTtsConnection(): Promise<{ success: boolean; message: string }> {
+  const config = await getTtsApiConfig();
+  return await testProviderConnection(() => getProvider('tts', config.provider).testConnection(config));
+}
 
-    const providerName = config.provider === 'apiyi' ? 'API易' : '自定义服务';
-    return { success: true, message: `${providerName} 视频服务连接成功` };
+/**
+ * 执行服务商连接测试，网络错误转为失败结果
+ */
+async function testProviderConnection(
+  test: () => Promise<ConnectionTestResult>
+): Promise<ConnectionTestResult> {
+  try {
+    return await test();
   } catch (error) {
     const message = error instanceof Error ? error.message : '网络错误';
     return { success: false, message };
@@ -680,311 +764,60 @@ export async function getStoragePath(): Promise<string> {
 
 // ==================== 动态获取模型列表 ====================
 
-interface ModelInfo {
-  id: string;
-  name: string;
-  provider: string;
-}
-
 /**
- * 从 API易 获取 LLM 模型列表
- */
-async function fetchApiyiTextModels(apiKey: string): Promise<ModelInfo[]> {
-  try {
-    const response = await fetch('https://api.apiyi.com/v1/models', {
-      headers: { 'Authorization': `Bearer ${apiKey}` },
-    });
-    if (!response.ok) throw new Error(`HTTP ${response.status}`);
-
-    const data = await response.json();
-    const models = data.data || [];
-
-    // 过滤文本模型（排除图像和视频模型）
-    return models
-      .filter((m: any) => {
-        const id = m.id?.toLowerCase() || '';
-        // 排除图像模型
-        if (id.includes('image') || id.includes('dall') || id.includes('wanx')) return false;
-        // 排除视频模型
-        if (id.includes('video') || id.includes('sora') || id.includes('veo')) return false;
-        return true;
-      })
-      .map((m: any) => ({
-        id: m.id,
-        name: m.id,
-        provider: 'API易',
-      }));
-  } catch (error) {
-    console.error('获取 API易 文本模型列表失败:', error);
-    return [];
-  }
-}
-
-/**
- * 从阿里云 DashScope 获取 LLM 模型列表
- */
-async function fetchAliyunTextModels(apiKey: string): Promise<ModelInfo[]> {
-  try {
-    const response = await fetch('https://dashscope.aliyuncs.com/compatible-mode/v1/models', {
-      headers: { 'Authorization': `Bearer ${apiKey}` },
-    });
-    if (!response.ok) throw new Error(`HTTP ${response.status}`);
-
-    const data = await response.json();
-    const models = data.data || [];
-
-    return models
-      .filter((m: any) => {
-        const id = m.id?.toLowerCase() || '';
-        // 只保留文本模型（qwen 系列）
-        if (id.includes('qwen') || id.includes('llama') || id.includes('baichuan')) return true;
-        return false;
-      })
-      .map((m: any) => ({
-        id: m.id,
-        name: m.id,
-        provider: '阿里云',
-      }));
-  } catch (error) {
-    console.error('获取阿里云文本模型列表失败:', error);
-    return [];
-  }
-}
-
-/**
- * 从 Gemini 获取模型列表
- */
-async function fetchGeminiModels(apiKey: string): Promise<ModelInfo[]> {
-  try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1/models?key=${apiKey}`
-    );
-    if (!response.ok) throw new Error(`HTTP ${response.status}`);
-
-    const data = await response.json();
-    const models = data.models || [];
-
-    return models
-      .filter((m: any) => m.supportedGenerationMethods?.includes('generateContent'))
-      .map((m: any) => ({
-        id: m.name?.replace('models/', '') || m.name,
-        name: m.displayName || m.name,
-        provider: 'Google',
-      }));
-  } catch (error) {
-    console.error('获取 Gemini 模型列表失败:', error);
-    return [];
-  }
-}
-
-/**
- * 从自定义 OpenAI 兼容服务获取模型列表
+ * 获取当前 LLM 服务商的可用文本模型
  */
-async function fetchCustomModels(baseUrl: string, apiKey: string): Promise<ModelInfo[]> {
-  try {
-    const response = await fetch(`${baseUrl}/v1/models`, {
-      headers: { 'Authorization': `Bearer ${apiKey}` },
-    });
-    if (!response.ok) throw new Error(`HTTP ${response.status}`);
-
-    const data = await response.json();
-    const models = data.data || [];
-
-    return models.map((m: any) => ({
-      id: m.id,
-      name: m.id,
-      provider: '自定义',
-    }));
-  } catch (error) {
-    console.error('获取自定义服务模型列表失败:', error);
-    return [];
-  }
+export async function fetchLlmModels(): Promise<{ success: boolean; models: ModelInfo[]; message: string }> {
+  const config = await getLlmApiConfig();
+  return await fetchProviderModels(getProvider('text', config.provider), config);
 }
 
 /**
- * 从 API易 获取图像模型列表
+ * 获取当前图像服务商的可用图像模型
  */
-async function fetchApiyiImageModels(apiKey: string): Promise<ModelInfo[]> {
-  try {
-    const response = await fetch('https://api.apiyi.com/v1/models', {
-      headers: { 'Authorization': `Bearer ${apiKey}` },
-    });
-    if (!response.ok) throw new Error(`HTTP ${response.status}`);
-
-    const data = await response.json();
-    const models = data.data || [];
-
-    // 过滤图像模型
-    return models
-      .filter((m: any) => {
-        const id = m.id?.toLowerCase() || '';
-        return id.includes('image') || id.includes('dall') || id.includes('gpt-image') ||
-               id.includes('gemini') && (id.includes('image') || id.includes('flash-exp'));
-      })
-      .map((m: any) => ({
-        id: m.id,
-        name: m.id,
-        provider: 'API易',
-      }));
-  } catch (error) {
-    console.error('获取 API易 图像模型列表失败:', error);
-    return [];
-  }
+export async function fetchImageModels(): Promise<{ success: boolean; models: ModelInfo[]; message: string }> {
+  const config = await getImageApiConfig();
+  return await fetchProviderModels(getProvider('image', config.provider), config);
 }
 
 /**
- * 从 API易 获取视频模型列表
+ * 获取当前视频服务商的可用视频模型
  */
-async function fetchApiyiVideoModels(apiKey: string): Promise<ModelInfo[]> {
-  try {
-    const response = await fetch('https://api.apiyi.com/v1/models', {
-      headers: { 'Authorization': `Bearer ${apiKey}` },
-    });
-    if (!response.ok) throw new Error(`HTTP ${response.status}`);
-
-    const data = await response.json();
-    const models = data.data || [];
-
-    // 过滤视频模型
-    return models
-      .filter((m: any) => {
-        const id = m.id?.toLowerCase() || '';
-        return id.includes('video') || id.includes('sora') || id.includes('veo');
-      })
-      .map((m: any) => ({
-        id: m.id,
-        name: m.id,
-        provider: 'API易',
-      }));
-  } catch (error) {
-    console.error('获取 API易 视频模型列表失败:', error);
-    return [];
-  }
+export async function fetchVideoModels(): Promise<{ success: boolean; models: ModelInfo[]; message: string }> {
+  const config = await getVideoApiConfig();
+  return await fetchProviderModels(getProvider('video', config.provider), config);
 }
 
 /**
- * 获取当前 LLM 服务商的可用文本模型
+ * 获取当前语音服务商的可用音色
  */
-export async function fetchLlmModels(): Promise<{ success: boolean; models: ModelInfo[]; message: string }> {
-  const config = await getLlmApiConfig();
-
+export async function fetchTtsVoices(): Promise<{ success: boolean; voices: VoiceInfo[]; message: string }> {
+  const config = await getTtsApiConfig();
   try {
-    let models: ModelInfo[] = [];
-
-    switch (config.provider) {
-      case 'apiyi':
-        if (!config.apiKey) return { success: false, models: [], message: 'API Key 未配置' };
-        models = await fetchApiyiTextModels(config.apiKey);
-        break;
-
-      case 'aliyun':
-        if (!config.apiKey) return { success: false, models: [], message: 'API Key 未配置' };
-        models = await fetchAliyunTextModels(config.apiKey);
-        break;
-
-      case 'official':
-        if (!config.geminiApiKey) return { success: false, models: [], message: 'Gemini API Key 未配置' };
-        models = await fetchGeminiModels(config.geminiApiKey);
-        break;
-
-      case 'custom':
-        if (!config.baseUrl || !config.apiKey) return { success: false, models: [], message: '自定义服务未配置完整' };
-        models = await fetchCustomModels(config.baseUrl, config.apiKey);
-        break;
+    const voices = await getProvider('tts', config.provider).listVoices(config);
+    if (voices.length === 0) {
+      return { success: false, voices: [], message: '未获取到音色列表' };
     }
-
-    if (models.length === 0) {
-      return { success: false, models: [], message: '未获取到模型列表' };
-    }
-
-    return { success: true, models, message: `获取到 ${models.length} 个模型` };
+    return { success: true, voices, message: `获取到 ${voices.length} 个音色` };
   } catch (error) {
-    const message = error instanceof Error ? error.message : '获取模型列表失败';
-    return { success: false, models: [], message };
+    const message = error instanceof Error ? error.message : '获取音色列表失败';
+    return { success: false, voices: [], message };
   }
 }
 
 /**
- * 获取当前图像服务商的可用图像模型
+ * 通过服务商适配器获取模型列表
  */
-export async function fetchImageModels(): Promise<{ success: boolean; models: ModelInfo[]; message: string }> {
-  const config = await getImageApiConfig();
-
-  try {
-    let models: ModelInfo[] = [];
-
-    switch (config.provider) {
-      case 'apiyi':
-        if (!config.apiKey) return { success: false, models: [], message: 'API Key 未配置' };
-        models = await fetchApiyiImageModels(config.apiKey);
-        break;
-
-      case 'aliyun':
-        // 阿里云通义千问图像模型 (Qwen-Image)
-        models = [
-          { id: 'qwen-image-plus', name: '通义千问图像 Plus (生成)', provider: '阿里云' },
-          { id: 'qwen-image-edit-plus', name: '通义千问图像 Edit Plus (修改)', provider: '阿里云' },
-          { id: 'qwen-image', name: '通义千问图像 (基础)', provider: '阿里云' },
-        ];
-        break;
-
-      case 'official':
-        if (!config.geminiApiKey) return { success: false, models: [], message: 'Gemini API Key 未配置' };
-        // Gemini 图像生成模型
-        models = [
-          { id: 'gemini-2.0-flash-exp', name: 'Gemini 2.0 Flash', provider: 'Google' },
-          { id: 'imagen-3.0-generate-001', name: 'Imagen 3', provider: 'Google' },
-        ];
-        break;
-
-      case 'custom':
-        if (!config.baseUrl || !config.apiKey) return { success: false, models: [], message: '自定义服务未配置完整' };
-        models = await fetchCustomModels(config.baseUrl, config.apiKey);
-        break;
-    }
-
-    if (models.length === 0) {
-      return { success: false, models: [], message: '未获取到模型列表' };
-    }
-
-    return { success: true, models, message: `获取到 ${models.length} 个模型` };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : '获取模型列表失败';
-    return { success: false, models: [], message };
+async function fetchProviderModels<TConfig>(
+  adapter: { name: string; listModels?: (config: TConfig) => Promise<ModelInfo[]> },
+  config: TConfig
+): Promise<{ success: boolean; models: ModelInfo[]; message: string }> {
+  if (!adapter.listModels) {
+    return { success: false, models: [], message: `${adapter.name} 不支持获取模型列表` };
   }
-}
-
-/**
- * 获取当前视频服务商的可用视频模型
- */
-export async function fetchVideoModels(): Promise<{ success: boolean; models: ModelInfo[]; message: string }> {
-  const config = await getVideoApiConfig();
 
   try {
-    let models: ModelInfo[] = [];
-
-    switch (config.provider) {
-      case 'apiyi':
-        if (!config.apiKey) return { success: false, models: [], message: 'API Key 未配置' };
-        models = await fetchApiyiVideoModels(config.apiKey);
-        break;
-
-      case 'aliyun':
-        // 阿里云通义万相图生视频模型
-        models = [
-          { id: 'wan2.5-i2v-preview', name: '万相2.5 (有声视频)', provider: 'Aliyun' },
-          { id: 'wan2.2-i2v-flash', name: '万相2.2 极速版', provider: 'Aliyun' },
-          { id: 'wan2.2-i2v-plus', name: '万相2.2 专业版', provider: 'Aliyun' },
-          { id: 'wan2.1-i2v-turbo', name: '万相2.1 极速版', provider: 'Aliyun' },
-          { id: 'wan2.1-i2v-plus', name: '万相2.1 专业版', provider: 'Aliyun' },
-        ];
-        break;
-
-      case 'custom':
-        if (!config.baseUrl || !config.apiKey) return { success: false, models: [], message: '自定义服务未配置完整' };
-        models = await fetchCustomModels(config.baseUrl, config.apiKey);
-        break;
-    }
+    const models = await adapter.listModels(config);
 
     if (models.length === 0) {
       return { success: false, models: [], message: '未获取到模型列表' };
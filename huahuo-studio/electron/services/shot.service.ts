@@ -1,12 +1,30 @@
-import { eq, asc } from 'drizzle-orm';
+import { eq, and, asc, desc } from 'drizzle-orm';
 import { getDatabase, schema } from '../database';
-import { generateId, deleteProjectFile } from './utils';
+import { extname } from 'path';
+import { generateId, deleteProjectFile, readProjectFile, saveProjectFile } from './utils';
 import { touchProject } from './project.service';
 
-const { shots } = schema;
+const { shots, shotAssets } = schema;
 
 export type ShotStatus = 'empty' | 'generating' | 'ready' | 'error';
 
+export type ShotAssetKind = 'image' | 'video' | 'audio';
+
+/** 分镜提示词覆盖方式：replace 替换模板组装的提示词，append 追加到其后 */
+export type PromptOverrideMode = 'replace' | 'append';
+
+export interface ShotAssetData {
+  id: string;
+  shotId: string;
+  projectId: string;
+  kind: ShotAssetKind;
+  path: string;
+  prompt: string | null;
+  model: string | null;
+  params: Record<string, unknown> | null;
+  createdAt: string;
+}
+
 export interface ShotData {
   id: string;
   projectId: string;
@@ -16,6 +34,8 @@ export interface ShotData {
   dialogue: string | null;
   characterId: string | null; // 向后兼容：单角色
   characterIds: string[] | null; // 新增：多角色ID数组
+  speakerId: string | null; // 说话角色
+  targetCharacterId: string | null; // 对话对象
   duration: number;
   cameraType: string | null;
   mood: string | null;
@@ -24,8 +44,15 @@ export interface ShotData {
   timeOfDay: string | null;
   props: string | null;
   action: string | null;
+  tone: string | null; // 台词语气
+  emotion: string | null; // 角色情绪
+  negativePrompt: string | null; // 为空时使用项目/风格的负面提示词
+  imagePromptOverride: string | null; // 为空时使用模板组装的图像提示词
+  videoPromptOverride: string | null; // 为空时使用模板组装的视频提示词
+  promptOverrideMode: PromptOverrideMode;
   imagePath: string | null;
   videoPath: string | null;
+  audioPath: string | null; // 分镜音频（配音、音效等），导出时混入
   status: ShotStatus;
   createdAt: string;
   updatedAt: string;
@@ -60,6 +87,7 @@ export async function getShots(projectId: string): Promise<ShotData[]> {
     ...shot,
     characterIds: parseCharacterIds(shot.characterIds),
     status: shot.status as ShotStatus,
+    promptOverrideMode: shot.promptOverrideMode as PromptOverrideMode,
   }));
 }
 
@@ -84,6 +112,7 @@ export async function getShot(id: string): Promise<ShotData | null> {
     ...shot,
     characterIds: parsedCharacterIds,
     status: shot.status as ShotStatus,
+    promptOverrideMode: shot.promptOverrideMode as PromptOverrideMode,
   };
 }
 
@@ -97,6 +126,8 @@ export async function createShot(data: {
   dialogue?: string;
   characterId?: string;
   characterIds?: string[]; // 新增：多角色ID数组
+  speakerId?: string; // 说话角色
+  targetCharacterId?: string; // 对话对象
   sceneId?: string; // 关联场景ID
   duration?: number;
   cameraType?: string;
@@ -106,6 +137,8 @@ export async function createShot(data: {
   timeOfDay?: string;
   props?: string;
   action?: string;
+  tone?: string;
+  emotion?: string;
 }): Promise<string> {
   const db = getDatabase();
   const id = generateId();
@@ -121,6 +154,8 @@ export async function createShot(data: {
     dialogue: data.dialogue ?? null,
     characterId: data.characterId ?? null,
     characterIds: data.characterIds ? JSON.stringify(data.characterIds) : null,
+    speakerId: data.speakerId ?? null,
+    targetCharacterId: data.targetCharacterId ?? null,
     duration: data.duration ?? 3,
     cameraType: data.cameraType ?? null,
     mood: data.mood ?? null,
@@ -129,6 +164,8 @@ export async function createShot(data: {
     timeOfDay: data.timeOfDay ?? null,
     props: data.props ?? null,
     action: data.action ?? null,
+    tone: data.tone ?? null,
+    emotion: data.emotion ?? null,
     status: 'empty' as const,
     createdAt: now,
     updatedAt: now,
@@ -158,8 +195,8 @@ export async function createShot(data: {
         const sqlite = getSqlite();
         if (sqlite) {
           const stmt = sqlite.prepare(`
-            INSERT INTO shots (id, project_id, scene_id, "index", description, dialogue, character_id, character_ids, duration, camera_type, mood, scene_info, location, time_of_day, props, action, status, created_at, updated_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            INSERT INTO shots (id, project_id, scene_id, "index", description, dialogue, character_id, character_ids, speaker_id, target_character_id, duration, camera_type, mood, scene_info, location, time_of_day, props, action, tone, emotion, status, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           `);
           stmt.run(
             insertData.id,
@@ -170,6 +207,8 @@ export async function createShot(data: {
             insertData.dialogue,
             insertData.characterId,
             insertData.characterIds,
+            insertData.speakerId,
+            insertData.targetCharacterId,
             insertData.duration,
             insertData.cameraType,
             insertData.mood,
@@ -178,6 +217,8 @@ export async function createShot(data: {
             insertData.timeOfDay,
             insertData.props,
             insertData.action,
+            insertData.tone,
+            insertData.emotion,
             insertData.status,
             insertData.createdAt,
             insertData.updatedAt
@@ -208,6 +249,8 @@ export async function createShots(
     dialogue?: string;
     characterId?: string;
     characterIds?: string[]; // 新增：多角色ID数组
+    speakerId?: string; // 说话角色
+    targetCharacterId?: string; // 对话对象
     duration?: number;
     cameraType?: string;
     mood?: string;
@@ -216,11 +259,11 @@ export async function createShots(
     timeOfDay?: string;
     props?: string | string[];
     action?: string;
-    sceneId?: string; // 场景ID
-    // 以下字段来自 AI 解析但数据库暂不支持，会被过滤
-    targetCharacter?: string;
     tone?: string;
     emotion?: string;
+    sceneId?: string; // 场景ID
+    // 以下字段来自 AI 解析但数据库暂不支持，会被过滤（说话角色和对话对象使用 speakerId / targetCharacterId）
+    targetCharacter?: string;
     character?: string;
     index?: number;
     status?: string;
@@ -267,6 +310,8 @@ export async function createShots(
       dialogue: data.dialogue || null,
       characterId: data.characterId || null,
       characterIds: data.characterIds ? JSON.stringify(data.characterIds) : null,
+      speakerId: data.speakerId || null,
+      targetCharacterId: data.targetCharacterId || null,
       duration: data.duration || 3,
       cameraType: data.cameraType || null,
       mood: data.mood || null,
@@ -275,6 +320,8 @@ export async function createShots(
       timeOfDay: data.timeOfDay || null,
       props: propsValue,
       action: data.action || null,
+      tone: data.tone || null,
+      emotion: data.emotion || null,
       status: 'empty' as const,
       createdAt: now,
       updatedAt: now,
@@ -306,6 +353,8 @@ export async function updateShot(
     dialogue: string;
     characterId: string;
     characterIds: string[]; // 新增：多角色ID数组
+    speakerId: string | null;
+    targetCharacterId: string | null;
     sceneId: string;
     duration: number;
     cameraType: string;
@@ -315,8 +364,15 @@ export async function updateShot(
     timeOfDay: string;
     props: string;
     action: string;
+    tone: string | null;
+    emotion: string | null;
+    negativePrompt: string | null;
+    imagePromptOverride: string | null;
+    videoPromptOverride: string | null;
+    promptOverrideMode: PromptOverrideMode;
     imagePath: string;
     videoPath: string;
+    audioPath: string | null;
     status: ShotStatus;
   }>
 ): Promise<void> {
@@ -357,9 +413,10 @@ export async function deleteShot(id: string): Promise<void> {
 
   if (!shot) return;
 
-  // 删除关联的文件
-  if (shot.imagePath) deleteProjectFile(shot.imagePath);
-  if (shot.videoPath) deleteProjectFile(shot.videoPath);
+  // 删除关联的文件（包括所有历史版本）
+  const assets = await db.select({ path: shotAssets.path }).from(shotAssets).where(eq(shotAssets.shotId, id));
+  const paths = new Set([shot.imagePath, shot.videoPath, shot.audioPath, ...assets.map(asset => asset.path)]);
+  paths.forEach(path => path && deleteProjectFile(path));
 
   await db.delete(shots).where(eq(shots.id, id));
 
@@ -425,3 +482,94 @@ export async function moveShot(id: string, newIndex: number): Promise<void> {
 
   await touchProject(shot.projectId);
 }
+
+/**
+ * 获取分镜的历史生成版本（最新在前）
+ */
+export async function getShotAssets(shotId: string, kind?: ShotAssetKind): Promise<ShotAssetData[]> {
+  const db = getDatabase();
+
+  const result = await db
+    .select()
+    .from(shotAssets)
+    .where(kind ? and(eq(shotAssets.shotId, shotId), eq(shotAssets.kind, kind)) : eq(shotAssets.shotId, shotId))
+    .orderBy(desc(shotAssets.createdAt));
+
+  return result.map((asset: any) => ({
+    ...asset,
+    kind: asset.kind as ShotAssetKind,
+    params: asset.params ? JSON.parse(asset.params) : null,
+  }));
+}
+
+/**
+ * 记录一次生成结果为分镜的新版本
+ */
+export async function addShotAsset(data: {
+  shotId: string;
+  projectId: string;
+  kind: ShotAssetKind;
+  path: string;
+  prompt?: string;
+  model?: string;
+  params?: Record<string, unknown>;
+}): Promise<string> {
+  const db = getDatabase();
+  const id = generateId();
+
+  await db.insert(shotAssets).values({
+    id,
+    shotId: data.shotId,
+    projectId: data.projectId,
+    kind: data.kind,
+    path: data.path,
+    prompt: data.prompt || null,
+    model: data.model || null,
+    params: data.params ? JSON.stringify(data.params) : null,
+    createdAt: new Date().toISOString(),
+  });
+
+  return id;
+}
+
+/**
+ * 将分镜的当前图像/视频/配音恢复为指定的历史版本
+ */
+export async function selectShotAsset(shotId: string, assetId: string): Promise<void> {
+  const db = getDatabase();
+  const [asset] = await db
+    .select()
+    .from(shotAssets)
+    .where(and(eq(shotAssets.id, assetId), eq(shotAssets.shotId, shotId)));
+
+  if (!asset) throw new Error('版本不存在');
+
+  if (asset.kind === 'audio') {
+    await updateShot(shotId, { audioPath: asset.path });
+  } else if (asset.kind === 'video') {
+    await updateShot(shotId, { videoPath: asset.path });
+  } else {
+    await updateShot(shotId, { imagePath: asset.path, status: 'ready' });
+  }
+}
+
+/**
+ * 设置分镜音频：将选择的音频文件复制到项目目录，传 null 时移除
+ */
+export async function setShotAudio(shotId: string, sourcePath: string | null): Promise<string | null> {
+  const shot = await getShot(shotId);
+  if (!shot) throw new Error('分镜不存在');
+
+  if (!sourcePath) {
+    await updateShot(shotId, { audioPath: null });
+    return null;
+  }
+
+  const data = readProjectFile(sourcePath);
+  if (!data) throw new Error('音频文件不存在');
+
+  const filename = `shot_${shot.index}_${Date.now()}${extname(sourcePath).toLowerCase()}`;
+  const audioPath = saveProjectFile(shot.projectId, 'audio', filename, data);
+  await updateShot(shotId, { audioPath });
+  return audioPath;
+}
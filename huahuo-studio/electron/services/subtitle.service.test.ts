@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildSubtitleCues,
+  DEFAULT_SUBTITLE_STYLE,
+  formatAss,
+  formatSrt,
+  formatSubtitles,
+  type SubtitleStyle,
+} from './subtitle.service';
+
+// 竖屏 1080p：字号 64，每行最多 15 字
+const RESOLUTION = '1080x1920';
+
+const noSpeaker: SubtitleStyle = { ...DEFAULT_SUBTITLE_STYLE, showSpeaker: false };
+
+describe('buildSubtitleCues', () => {
+  it('跳过没有台词的分镜，短台词整段作为一条字幕', () => {
+    const cues = buildSubtitleCues(
+      [
+        { start: 0, duration: 3, dialogue: null, speaker: null },
+        { start: 3, duration: 2, dialogue: '   ', speaker: '小明' },
+        { start: 5, duration: 4, dialogue: '你好。', speaker: '小明' },
+      ],
+      DEFAULT_SUBTITLE_STYLE,
+      RESOLUTION
+    );
+
+    expect(cues).toEqual([{ start: 5, end: 9, speaker: '小明', text: '你好' }]);
+  });
+
+  it('长台词按句拆分，并按字数比例分配分镜时长', () => {
+    const cues = buildSubtitleCues(
+      [{ start: 10, duration: 6, dialogue: '今天天气真好，我们一起去公园散步吧。然后再去吃饭！', speaker: null }],
+      noSpeaker,
+      RESOLUTION
+    );
+
+    expect(cues.map(cue => cue.text)).toEqual(['今天天气真好，我们一起去公园散步吧', '然后再去吃饭！']);
+    expect(cues[0].start).toBe(10);
+    expect(cues[cues.length - 1].end).toBeCloseTo(16);
+    expect(cues[0].end).toBeCloseTo(cues[1].start);
+    expect(cues[0].end - cues[0].start).toBeGreaterThan(cues[1].end - cues[1].start);
+  });
+
+  it('短句与上一句合并为一行', () => {
+    const cues = buildSubtitleCues(
+      [{ start: 0, duration: 2, dialogue: '走吧。快点！', speaker: null }],
+      noSpeaker,
+      RESOLUTION
+    );
+
+    expect(cues.map(cue => cue.text)).toEqual(['走吧。快点！']);
+  });
+
+  it('每条字幕连同角色名前缀不超过两行', () => {
+    const dialogue = '这是一句非常非常长的台词没有任何标点符号所以只能按照字数强行截断成多条字幕才能显示完整';
+    const cues = buildSubtitleCues(
+      [{ start: 0, duration: 10, dialogue, speaker: '旁白者' }],
+      DEFAULT_SUBTITLE_STYLE,
+      RESOLUTION
+    );
+
+    expect(cues.length).toBeGreaterThan(1);
+    expect(cues.map(cue => cue.text).join('')).toBe(dialogue);
+    for (const cue of cues) {
+      expect(Array.from('旁白者：' + cue.text).length).toBeLessThanOrEqual(30);
+    }
+  });
+});
+
+describe('formatSrt', () => {
+  it('生成编号、时间轴和带角色名的文本', () => {
+    const srt = formatSrt(
+      [
+        { start: 0, end: 1.5, speaker: '小明', text: '你好' },
+        { start: 3661.25, end: 3662, speaker: null, text: '旁白' },
+      ],
+      DEFAULT_SUBTITLE_STYLE,
+      RESOLUTION
+    );
+
+    expect(srt).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\n小明：你好\n\n' +
+      '2\n01:01:01,250 --> 01:01:02,000\n旁白\n'
+    );
+  });
+
+  it('超过一行字数时均匀折为两行，行首不出现标点', () => {
+    const srt = formatSrt(
+      [{ start: 0, end: 2, speaker: null, text: '一二三四五六七八，九十一二三四五' }],
+      noSpeaker,
+      RESOLUTION
+    );
+
+    const lines = srt.trim().split('\n').slice(2);
+    expect(lines).toEqual(['一二三四五六七八，', '九十一二三四五']);
+  });
+});
+
+describe('formatAss', () => {
+  const style: SubtitleStyle = {
+    ...DEFAULT_SUBTITLE_STYLE,
+    fontName: 'Noto, Sans',
+    primaryColor: '#FF8000',
+    speakerColor: '#00FF00',
+  };
+
+  it('画布与导出分辨率一致，颜色转换为 ASS 格式', () => {
+    const ass = formatAss([], style, RESOLUTION);
+
+    expect(ass).toContain('PlayResX: 1080\nPlayResY: 1920');
+    expect(ass).toContain('Style: Default,Noto Sans,64,&H000080FF,&H000080FF,&H00000000,&H80000000,-1,');
+  });
+
+  it('角色名使用单独颜色，转义特殊字符', () => {
+    const ass = formatAss(
+      [{ start: 1, end: 2.345, speaker: 'A,B', text: '{测试}' }],
+      style,
+      RESOLUTION
+    );
+
+    expect(ass).toContain(
+      'Dialogue: 0,0:00:01.00,0:00:02.35,Default,A，B,0,0,0,,{\\c&H00FF00&}A,B：{\\r}｛测试｝'
+    );
+  });
+
+  it('多行字幕使用 \\N 换行', () => {
+    const ass = formatAss(
+      [{ start: 0, end: 1, speaker: null, text: '一二三四五六七八九十一二三四五六' }],
+      noSpeaker,
+      RESOLUTION
+    );
+
+    expect(ass).toContain(',,一二三四五六七八\\N九十一二三四五六\n');
+  });
+});
+
+describe('formatSubtitles', () => {
+  it('按格式选择 SRT 或 ASS', () => {
+    const cues = [{ start: 0, end: 1, speaker: null, text: '你好' }];
+
+    expect(formatSubtitles('srt', cues, noSpeaker, RESOLUTION)).toBe(formatSrt(cues, noSpeaker, RESOLUTION));
+    expect(formatSubtitles('ass', cues, noSpeaker, RESOLUTION)).toBe(formatAss(cues, noSpeaker, RESOLUTION));
+  });
+});
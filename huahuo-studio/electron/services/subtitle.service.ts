@@ -0,0 +1,306 @@
+/**
+ * 字幕生成
+ * 根据导出时间轴上各分镜的台词生成 SRT / ASS 字幕，ASS 字幕同时用于 FFmpeg 烧录
+ */
+
+export type SubtitleFormat = 'srt' | 'ass';
+
+/** 字幕样式（字号、描边以 1080p 短边为基准，按导出分辨率缩放） */
+export interface SubtitleStyle {
+  showSpeaker: boolean; // 台词前显示说话角色名
+  fontName: string;
+  fontSize: number;
+  bold: boolean;
+  primaryColor: string; // 台词颜色 #RRGGBB
+  speakerColor: string; // 角色名颜色 #RRGGBB
+  outlineColor: string; // 描边颜色 #RRGGBB
+  outline: number; // 描边宽度
+  marginBottom: number; // 底部边距（占画面高度的百分比）
+}
+
+/** 默认样式：竖屏短剧常用的粗体白字黑边，位置避开平台底部的标题和按钮区域 */
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  showSpeaker: true,
+  fontName: 'Microsoft YaHei',
+  fontSize: 64,
+  bold: true,
+  primaryColor: '#FFFFFF',
+  speakerColor: '#FFD400',
+  outlineColor: '#000000',
+  outline: 4,
+  marginBottom: 20,
+};
+
+/** 时间轴片段：分镜在导出视频中的起始时间和时长（秒） */
+export interface SubtitleClip {
+  start: number;
+  duration: number;
+  dialogue: string | null;
+  speaker: string | null; // 说话角色名，旁白为空
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  speaker: string | null;
+  text: string;
+}
+
+/** 按句切分台词（句末标点随句保留） */
+const SENTENCE_PATTERN = /[^。！？!?；;…\n]+[。！？!?；;…]*/g;
+
+/** 按逗号切分长句 */
+const CLAUSE_PATTERN = /[^，、,]+[，、,]*/g;
+
+/** 不能出现在行首的标点 */
+const LEADING_PUNCTUATION = /^[，、。！？!?；;：:…）」』”,.]+/;
+
+/** 字幕不显示的句末标点 */
+const TRAILING_PUNCTUATION = /[。，、；;,.]+$/;
+
+/**
+ * 字幕排版参数：按导出分辨率换算字号、描边、边距和每行最多字数
+ */
+function getSubtitleLayout(style: SubtitleStyle, resolution: string) {
+  const [width, height] = resolution.split('x').map(Number);
+  const scale = Math.min(width, height) / 1080;
+  const fontSize = Math.max(12, Math.round(style.fontSize * scale));
+
+  return {
+    width,
+    height,
+    fontSize,
+    outline: Math.round(style.outline * scale * 10) / 10,
+    marginV: Math.round((height * style.marginBottom) / 100),
+    marginH: Math.round(width * 0.05),
+    // 左右各留 5% 边距
+    maxCharsPerLine: Math.max(6, Math.floor((width * 0.9) / fontSize)),
+  };
+}
+
+/**
+ * 将分句依次拼接为不超过 maxChars 字的片段，单个分句过长时按字数截断
+ */
+function packClauses(clauses: string[], maxChars: number): string[] {
+  const parts: string[] = [];
+  let current: string[] = [];
+
+  for (const clause of clauses) {
+    const chars = Array.from(clause);
+    if (current.length > 0 && current.length + chars.length > maxChars) {
+      parts.push(current.join(''));
+      current = [];
+    }
+    current.push(...chars);
+    while (current.length > maxChars) {
+      parts.push(current.slice(0, maxChars).join(''));
+      current = current.slice(maxChars);
+    }
+  }
+  if (current.length > 0) parts.push(current.join(''));
+
+  return parts;
+}
+
+/**
+ * 将一段台词切分为多条字幕，每条（含角色名前缀）不超过两行
+ */
+function splitDialogue(text: string, maxCharsPerLine: number, prefixLength: number): string[] {
+  const maxChars = Math.max(1, maxCharsPerLine * 2 - prefixLength);
+  const parts: string[] = [];
+
+  for (const match of text.match(SENTENCE_PATTERN) ?? []) {
+    const sentence = match.trim();
+    if (!sentence) continue;
+
+    // 短句与上一句合并为一行
+    const last = parts[parts.length - 1];
+    if (last && prefixLength + Array.from(last).length + Array.from(sentence).length <= maxCharsPerLine) {
+      parts[parts.length - 1] = last + sentence;
+      continue;
+    }
+
+    parts.push(...packClauses(sentence.match(CLAUSE_PATTERN) ?? [sentence], maxChars));
+  }
+
+  return parts
+    .map(part => part.replace(TRAILING_PUNCTUATION, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * 按每行最多字数均匀折行（中文没有空格，播放器无法自动换行）
+ */
+function wrapLines(text: string, maxCharsPerLine: number): string[] {
+  const chars = Array.from(text);
+  const lineCount = Math.ceil(chars.length / maxCharsPerLine);
+  const perLine = Math.ceil(chars.length / lineCount);
+  const lines: string[] = [];
+  for (let i = 0; i < chars.length; i += perLine) {
+    let line = chars.slice(i, i + perLine).join('');
+    // 行首标点移到上一行末尾
+    const punctuation = lines.length > 0 ? line.match(LEADING_PUNCTUATION)?.[0] : undefined;
+    if (punctuation) {
+      lines[lines.length - 1] += punctuation;
+      line = line.slice(punctuation.length);
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * 根据时间轴生成字幕条目
+ * 分镜台词较长时按句拆分为多条，按字数比例分配分镜时长
+ */
+export function buildSubtitleCues(
+  clips: SubtitleClip[],
+  style: SubtitleStyle,
+  resolution: string
+): SubtitleCue[] {
+  const { maxCharsPerLine } = getSubtitleLayout(style, resolution);
+  const cues: SubtitleCue[] = [];
+
+  for (const clip of clips) {
+    const dialogue = clip.dialogue?.trim();
+    if (!dialogue) continue;
+
+    const prefixLength = style.showSpeaker && clip.speaker ? Array.from(clip.speaker).length + 1 : 0;
+    const parts = splitDialogue(dialogue, maxCharsPerLine, prefixLength);
+    const totalChars = parts.reduce((sum, part) => sum + Array.from(part).length, 0);
+
+    let start = clip.start;
+    for (const part of parts) {
+      const duration = (clip.duration * Array.from(part).length) / totalChars;
+      cues.push({ start, end: start + duration, speaker: clip.speaker, text: part });
+      start += duration;
+    }
+  }
+
+  return cues;
+}
+
+/**
+ * 字幕文本行（显示角色名时加在首行行首）
+ */
+function getCueLines(cue: SubtitleCue, style: SubtitleStyle, maxCharsPerLine: number): string[] {
+  const prefix = style.showSpeaker && cue.speaker ? `${cue.speaker}：` : '';
+  return wrapLines(prefix + cue.text, maxCharsPerLine);
+}
+
+/**
+ * 格式化时间：SRT 为 00:00:01,500，ASS 为 0:00:01.50
+ */
+function formatTime(seconds: number, format: SubtitleFormat): string {
+  const centis = Math.round(seconds * 100);
+  const millis = format === 'srt' ? Math.round(seconds * 1000) : centis * 10;
+  const h = Math.floor(millis / 3600000);
+  const m = Math.floor((millis % 3600000) / 60000);
+  const s = Math.floor((millis % 60000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+  if (format === 'srt') {
+    return `${pad(h)}:${pad(m)}:${pad(s)},${pad(millis % 1000, 3)}`;
+  }
+  return `${h}:${pad(m)}:${pad(s)}.${pad(centis % 100)}`;
+}
+
+/**
+ * #RRGGBB 转换为 ASS 颜色：样式中为 &HAABBGGRR，行内标签（alpha 为 null）为 &HBBGGRR&
+ */
+function toAssColor(hex: string, alpha: string | null = '00'): string {
+  const value = /^#?([0-9a-f]{6})$/i.exec(hex.trim())?.[1] ?? 'FFFFFF';
+  const [r, g, b] = [value.slice(0, 2), value.slice(2, 4), value.slice(4, 6)];
+  return (alpha === null ? `&H${b}${g}${r}&` : `&H${alpha}${b}${g}${r}`).toUpperCase();
+}
+
+/**
+ * 转义 ASS 文本中的特殊字符
+ */
+function escapeAssText(text: string): string {
+  return text.replace(/\\/g, '＼').replace(/\{/g, '｛').replace(/\}/g, '｝');
+}
+
+/**
+ * 生成 SRT 字幕
+ */
+export function formatSrt(cues: SubtitleCue[], style: SubtitleStyle, resolution: string): string {
+  const { maxCharsPerLine } = getSubtitleLayout(style, resolution);
+
+  return cues
+    .map((cue, i) => [
+      String(i + 1),
+      `${formatTime(cue.start, 'srt')} --> ${formatTime(cue.end, 'srt')}`,
+      ...getCueLines(cue, style, maxCharsPerLine),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+/**
+ * 生成 ASS 字幕（画布与导出分辨率一致，角色名使用单独的颜色）
+ */
+export function formatAss(cues: SubtitleCue[], style: SubtitleStyle, resolution: string): string {
+  const layout = getSubtitleLayout(style, resolution);
+  const speakerColor = toAssColor(style.speakerColor, null);
+
+  const styleLine = [
+    'Default',
+    style.fontName.replace(/,/g, '') || DEFAULT_SUBTITLE_STYLE.fontName,
+    layout.fontSize,
+    toAssColor(style.primaryColor),
+    toAssColor(style.primaryColor),
+    toAssColor(style.outlineColor),
+    toAssColor(style.outlineColor, '80'),
+    style.bold ? -1 : 0,
+    0, 0, 0, // Italic, Underline, StrikeOut
+    100, 100, 0, 0, // ScaleX, ScaleY, Spacing, Angle
+    1, // BorderStyle: 描边 + 阴影
+    layout.outline,
+    0, // Shadow
+    2, // Alignment: 底部居中
+    layout.marginH,
+    layout.marginH,
+    layout.marginV,
+    1, // Encoding
+  ].join(',');
+
+  const events = cues.map((cue) => {
+    const lines = getCueLines(cue, style, layout.maxCharsPerLine).map(escapeAssText);
+    const prefix = style.showSpeaker && cue.speaker ? escapeAssText(`${cue.speaker}：`) : '';
+    if (prefix && lines[0].startsWith(prefix)) {
+      lines[0] = `{\\c${speakerColor}}${prefix}{\\r}${lines[0].slice(prefix.length)}`;
+    }
+    const name = (cue.speaker ?? '').replace(/,/g, '，');
+    return `Dialogue: 0,${formatTime(cue.start, 'ass')},${formatTime(cue.end, 'ass')},Default,${name},0,0,0,,${lines.join('\\N')}`;
+  });
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${layout.width}`,
+    `PlayResY: ${layout.height}`,
+    'WrapStyle: 2', // 已手动折行，不再自动换行
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: ${styleLine}`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+}
+
+/**
+ * 按格式生成字幕内容
+ */
+export function formatSubtitles(
+  format: SubtitleFormat,
+  cues: SubtitleCue[],
+  style: SubtitleStyle,
+  resolution: string
+): string {
+  return format === 'ass' ? formatAss(cues, style, resolution) : formatSrt(cues, style, resolution);
+}
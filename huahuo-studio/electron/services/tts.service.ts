@@ -0,0 +1,373 @@
+import { getTtsApiConfig } from './settings.service';
+import { getShot, updateShot, addShotAsset, type ShotData } from './shot.service';
+import { getCharacter, updateCharacter, type CharacterData } from './character.service';
+import { deleteProjectFile, saveProjectFile } from './utils';
+import { estimateUsageCost, recordUsage } from './usage.service';
+import {
+  getProvider,
+  type SpeechResult,
+  type TtsProviderAdapter,
+  type TtsProviderConfig,
+  type VoiceInfo,
+} from './provider.service';
+
+/**
+ * 语音合成服务
+ * 将分镜台词合成为配音，保存为分镜的音频版本（导出时与视频原声混合）；
+ * 说话角色配置了音色时使用角色音色，保证同一角色在整个项目中的声音一致
+ */
+
+type ProgressCallback = (progress: number) => void;
+
+// 单次语音合成请求超时（毫秒）
+const SPEECH_TIMEOUT_MS = 120000;
+
+/** OpenAI 兼容语音接口的内置音色 */
+export const OPENAI_VOICES: VoiceInfo[] = [
+  { id: 'alloy', name: 'Alloy', description: '中性、平稳' },
+  { id: 'ash', name: 'Ash', description: '男声、沉稳' },
+  { id: 'coral', name: 'Coral', description: '女声、温暖' },
+  { id: 'echo', name: 'Echo', description: '男声、清亮' },
+  { id: 'fable', name: 'Fable', description: '中性、叙事感' },
+  { id: 'onyx', name: 'Onyx', description: '男声、低沉' },
+  { id: 'nova', name: 'Nova', description: '女声、活泼' },
+  { id: 'sage', name: 'Sage', description: '女声、知性' },
+  { id: 'shimmer', name: 'Shimmer', description: '女声、柔和' },
+];
+
+/** 阿里云 CosyVoice 音色（cosyvoice-v2） */
+export const COSYVOICE_VOICES: VoiceInfo[] = [
+  { id: 'longxiaochun_v2', name: '龙小淳', description: '知性积极女' },
+  { id: 'longxiaoxia_v2', name: '龙小夏', description: '沉稳权威女' },
+  { id: 'longhua_v2', name: '龙华', description: '元气甜美女' },
+  { id: 'longwan_v2', name: '龙婉', description: '积极知性女' },
+  { id: 'loongbella_v2', name: 'Bella', description: '精准干练女' },
+  { id: 'longcheng_v2', name: '龙橙', description: '智慧青年男' },
+  { id: 'longshu_v2', name: '龙书', description: '沉稳青年男' },
+  { id: 'longshuo_v2', name: '龙硕', description: '博才干练男' },
+];
+
+/** 阿里云 Qwen-TTS 音色 */
+export const QWEN_TTS_VOICES: VoiceInfo[] = [
+  { id: 'Cherry', name: 'Cherry', description: '女声' },
+  { id: 'Serena', name: 'Serena', description: '女声' },
+  { id: 'Chelsie', name: 'Chelsie', description: '女声' },
+  { id: 'Ethan', name: 'Ethan', description: '男声' },
+  { id: 'Dylan', name: 'Dylan', description: '北京话男声' },
+  { id: 'Jada', name: 'Jada', description: '上海话女声' },
+  { id: 'Sunny', name: 'Sunny', description: '四川话女声' },
+];
+
+/**
+ * 发送 JSON POST 请求（带超时，支持外部取消）
+ */
+async function postJson(
+  url: string,
+  body: unknown,
+  apiKey?: string,
+  signal?: AbortSignal
+): Promise<Response> {
+  signal?.throwIfAborted();
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), SPEECH_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    signal?.throwIfAborted();
+    const message = error instanceof Error ? error.message : '未知错误';
+    throw new Error(`语音合成网络请求失败: ${message}`);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * 模型是否支持 instructions 参数（情绪/语气指令）
+ */
+function supportsSpeechInstructions(model: string): boolean {
+  return model.startsWith('gpt-4o');
+}
+
+/**
+ * OpenAI 兼容格式语音合成 (/v1/audio/speech)
+ * API易、自定义服务和本地语音服务（如 Kokoro-FastAPI）共用
+ */
+export async function callOpenAICompatSpeech(
+  baseUrl: string,
+  apiKey: string | undefined,
+  request: { model: string; text: string; voice: string; speed: number; instructions?: string },
+  signal?: AbortSignal
+): Promise<SpeechResult> {
+  const url = `${baseUrl.replace(/\/+$/, '')}/v1/audio/speech`;
+  console.log('[TTS Service] OpenAI 兼容语音合成请求:', url, request.model, request.voice);
+
+  const response = await postJson(
+    url,
+    {
+      model: request.model,
+      input: request.text,
+      voice: request.voice,
+      speed: Math.min(4, Math.max(0.25, request.speed)),
+      response_format: 'mp3',
+      // tts-1 等模型不支持 instructions，仅在支持的模型上传递
+      ...(request.instructions && supportsSpeechInstructions(request.model)
+        ? { instructions: request.instructions }
+        : {}),
+    },
+    apiKey,
+    signal
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    console.error('[TTS Service] 语音合成错误响应:', error);
+    throw new Error(`语音合成错误: ${response.status} - ${error.substring(0, 200)}`);
+  }
+
+  return { buffer: Buffer.from(await response.arrayBuffer()), format: 'mp3' };
+}
+
+/**
+ * 阿里云 DashScope 语音合成
+ * CosyVoice 使用语音合成接口（支持语速、音高），Qwen-TTS 使用多模态生成接口
+ */
+export async function callAliyunSpeech(
+  baseUrl: string,
+  apiKey: string,
+  request: { model: string; text: string; voice: string; speed: number; pitch?: number },
+  signal?: AbortSignal
+): Promise<SpeechResult> {
+  const isCosyVoice = request.model.startsWith('cosyvoice');
+  const url = isCosyVoice
+    ? `${baseUrl}/services/audio/tts/SpeechSynthesizer`
+    : `${baseUrl}/services/aigc/multimodal-generation/generation`;
+  console.log('[TTS Service] 阿里云语音合成请求:', url, request.model, request.voice);
+
+  const input = isCosyVoice
+    ? {
+        text: request.text,
+        voice: request.voice,
+        format: 'mp3',
+        sample_rate: 24000,
+        rate: Math.min(2, Math.max(0.5, request.speed)),
+        pitch: Math.min(2, Math.max(0.5, request.pitch ?? 1)),
+      }
+    : { text: request.text, voice: request.voice };
+
+  const response = await postJson(url, { model: request.model, input }, apiKey, signal);
+
+  if (!response.ok) {
+    const error = await response.text();
+    console.error('[TTS Service] 阿里云语音合成错误响应:', error);
+    throw new Error(`阿里云语音合成错误: ${response.status} - ${error.substring(0, 200)}`);
+  }
+
+  const data = await response.json();
+  const audio = data.output?.audio;
+  // Qwen-TTS 返回 wav 音频
+  const format = isCosyVoice ? 'mp3' : 'wav';
+
+  if (audio?.data) {
+    return { buffer: Buffer.from(audio.data, 'base64'), format };
+  }
+  if (!audio?.url) {
+    console.error('[TTS Service] 阿里云语音合成响应解析失败:', JSON.stringify(data).substring(0, 500));
+    throw new Error('阿里云语音合成失败: 未获取到音频');
+  }
+
+  const download = await fetch(audio.url, { signal });
+  if (!download.ok) {
+    throw new Error(`下载合成音频失败: HTTP ${download.status}`);
+  }
+  return { buffer: Buffer.from(await download.arrayBuffer()), format };
+}
+
+/**
+ * 根据分镜的语气和情绪生成语音指令
+ * 角色的情绪预设与分镜情绪（或语气）一致时优先使用预设指令
+ */
+function buildEmotionInstruction(
+  shot: Pick<ShotData, 'tone' | 'emotion'>,
+  character: CharacterData | null
+): string | undefined {
+  const presets = character?.voiceProfile?.emotionPresets || [];
+  const preset = presets.find(p => p.emotion === shot.emotion) || presets.find(p => p.emotion === shot.tone);
+  if (preset?.instruction.trim()) return preset.instruction.trim();
+
+  const parts: string[] = [];
+  if (shot.tone) parts.push(`语气: ${shot.tone}`);
+  if (shot.emotion) parts.push(`情绪: ${shot.emotion}`);
+  return parts.length > 0 ? parts.join('，') : undefined;
+}
+
+/**
+ * 确定合成使用的音色、语速和音高
+ * 角色音色属于当前语音服务商时使用角色音色，否则使用设置中的默认音色
+ */
+function resolveVoice(
+  config: TtsProviderConfig,
+  adapter: TtsProviderAdapter,
+  character: CharacterData | null
+): { voice: string; speed: number; pitch?: number } {
+  const profile = character?.voiceProfile;
+  if (!profile || profile.provider !== config.provider) {
+    if (profile) {
+      console.warn(`[TTS Service] 角色 ${character!.name} 的音色属于 ${profile.provider}，当前服务商为 ${config.provider}，使用默认音色`);
+    }
+    return { voice: config.ttsVoice, speed: config.ttsSpeed };
+  }
+
+  return {
+    voice: profile.voiceId,
+    speed: profile.speed || config.ttsSpeed,
+    pitch: adapter.capabilities.pitch ? profile.pitch : undefined,
+  };
+}
+
+/**
+ * 按当前语音服务商配置估算合成指定字符数的费用（元）
+ */
+export async function estimateSpeechCost(characterCount: number): Promise<number> {
+  if (characterCount <= 0) return 0;
+
+  const config = await getTtsApiConfig();
+  const adapter = getProvider('tts', config.provider);
+  return await estimateUsageCost({
+    kind: 'tts',
+    provider: config.provider,
+    model: adapter.usageModel(config),
+    characters: characterCount,
+  });
+}
+
+/**
+ * 获取角色试听文本（未填写时使用默认自我介绍）
+ */
+export function getAuditionText(character: Pick<CharacterData, 'name'>, text?: string): string {
+  return text?.trim() || `大家好，我是${character.name}。`;
+}
+
+/**
+ * 为分镜台词生成配音
+ * 配音保存为分镜的音频版本并设为当前分镜音频
+ */
+export async function generateShotVoice(
+  shotId: string,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<string> {
+  const shot = await getShot(shotId);
+  if (!shot) throw new Error('分镜不存在');
+
+  const text = shot.dialogue?.trim();
+  if (!text) throw new Error('分镜没有台词');
+
+  onProgress?.(10);
+
+  // 说话角色优先，否则使用分镜主角色
+  const speakerId = shot.speakerId || shot.characterId;
+  const character = speakerId ? await getCharacter(speakerId) : null;
+
+  const config = await getTtsApiConfig();
+  const adapter = getProvider('tts', config.provider);
+  const { voice, speed, pitch } = resolveVoice(config, adapter, character);
+  const emotion = adapter.capabilities.emotion ? buildEmotionInstruction(shot, character) : undefined;
+
+  onProgress?.(20);
+
+  const speech = await adapter.synthesize(config, { text, voice, speed, pitch, emotion, signal });
+
+  // 记录用量（按字符计费）
+  const model = adapter.usageModel(config);
+  await recordUsage({
+    kind: 'tts',
+    provider: config.provider,
+    model,
+    projectId: shot.projectId,
+    shotId,
+    characters: text.length,
+  });
+
+  // 取消后不再写入分镜
+  signal?.throwIfAborted();
+
+  onProgress?.(80);
+
+  const filename = `voice_${shot.index}_${Date.now()}.${speech.format}`;
+  const audioPath = saveProjectFile(shot.projectId, 'audio', filename, speech.buffer);
+
+  await updateShot(shotId, { audioPath });
+  await addShotAsset({
+    shotId,
+    projectId: shot.projectId,
+    kind: 'audio',
+    path: audioPath,
+    prompt: text,
+    model,
+    params: {
+      provider: config.provider,
+      voice,
+      speed,
+      pitch: pitch ?? null,
+      emotion: emotion ?? null,
+      speakerId,
+    },
+  });
+
+  onProgress?.(100);
+
+  return audioPath;
+}
+
+/**
+ * 使用角色音色合成试听样音，保存为角色的样音（替换旧样音）
+ * @param text 试听文本（为空时使用角色自我介绍）
+ */
+export async function auditionCharacterVoice(characterId: string, text?: string): Promise<string> {
+  const character = await getCharacter(characterId);
+  if (!character) throw new Error('角色不存在');
+  if (!character.voiceProfile) throw new Error('请先为角色选择音色');
+
+  const config = await getTtsApiConfig();
+  if (character.voiceProfile.provider !== config.provider) {
+    throw new Error('角色音色不属于当前语音服务商，请重新选择音色');
+  }
+
+  const adapter = getProvider('tts', config.provider);
+  const { voice, speed, pitch } = resolveVoice(config, adapter, character);
+  const sampleText = getAuditionText(character, text);
+
+  const speech = await adapter.synthesize(config, { text: sampleText, voice, speed, pitch });
+
+  await recordUsage({
+    kind: 'tts',
+    provider: config.provider,
+    model: adapter.usageModel(config),
+    projectId: character.projectId,
+    characters: sampleText.length,
+  });
+
+  const filename = `voice_sample_${characterId}_${Date.now()}.${speech.format}`;
+  const samplePath = saveProjectFile(character.projectId, 'audio', filename, speech.buffer);
+
+  if (character.voiceSamplePath) {
+    deleteProjectFile(character.voiceSamplePath);
+  }
+  await updateCharacter(characterId, { voiceSamplePath: samplePath });
+
+  console.log(`[TTS Service] 已生成角色 ${character.name} 的试听样音`);
+  return samplePath;
+}
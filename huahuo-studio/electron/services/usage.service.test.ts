@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('electron', () => ({ app: { getPath: vi.fn() }, net: {}, BrowserWindow: {} }));
+vi.mock('../database', async () => ({ getDatabase: vi.fn(), schema: await import('../database/schema') }));
+
+import { estimateUsageCost, parsePriceLabel } from './usage.service';
+
+describe('parsePriceLabel', () => {
+  it('解析人民币按秒计价', () => {
+    expect(parsePriceLabel('¥0.24/秒')).toEqual({ amount: 0.24, unit: 'second' });
+  });
+
+  it('美元按汇率换算为人民币', () => {
+    const price = parsePriceLabel('$0.15 / 视频');
+    expect(price?.unit).toBe('video');
+    expect(price?.amount).toBeCloseTo(1.08);
+  });
+
+  it('无法识别的标签返回 null', () => {
+    expect(parsePriceLabel('免费')).toBeNull();
+    expect(parsePriceLabel('¥0.5/张')).toBeNull();
+  });
+});
+
+describe('estimateUsageCost', () => {
+  it('文本模型按输入、输出 tokens 分别计价', async () => {
+    const cost = await estimateUsageCost({
+      kind: 'llm',
+      provider: 'aliyun',
+      model: 'qwen-plus',
+      inputTokens: 1_000_000,
+      outputTokens: 500_000,
+    });
+    expect(cost).toBeCloseTo(0.8 + 1);
+  });
+
+  it('带日期后缀的文本模型按别名计价', async () => {
+    const dated = await estimateUsageCost({ kind: 'llm', provider: 'apiyi', model: 'claude-haiku-4-5-20251001', inputTokens: 1_000_000 });
+    const alias = await estimateUsageCost({ kind: 'llm', provider: 'apiyi', model: 'claude-haiku-4-5', inputTokens: 1_000_000 });
+    expect(dated).toBeGreaterThan(0);
+    expect(dated).toBe(alias);
+  });
+
+  it('图像按张数计价，默认 1 张', async () => {
+    expect(await estimateUsageCost({ kind: 'image', provider: 'aliyun', model: 'qwen-image-plus' })).toBeCloseTo(0.2);
+    expect(await estimateUsageCost({ kind: 'image', provider: 'aliyun', model: 'qwen-image-plus', imageCount: 3 })).toBeCloseTo(0.6);
+  });
+
+  it('语音合成按万字符计价', async () => {
+    const cost = await estimateUsageCost({ kind: 'tts', provider: 'aliyun', model: 'qwen-tts', characters: 5000 });
+    expect(cost).toBeCloseTo(0.8);
+  });
+
+  it('视频按模型价格标签计价', async () => {
+    const perSecond = await estimateUsageCost({ kind: 'video', provider: 'aliyun', model: 'wan2.2-i2v-flash', videoSeconds: 5 });
+    expect(perSecond).toBeCloseTo(0.3);
+
+    const perVideo = await estimateUsageCost({ kind: 'video', provider: 'apiyi', model: 'sora_video2', videoSeconds: 10 });
+    expect(perVideo).toBeCloseTo(1.08);
+  });
+
+  it('未知模型费用为 0', async () => {
+    expect(await estimateUsageCost({ kind: 'llm', provider: 'custom', model: 'unknown-model', inputTokens: 1000 })).toBe(0);
+    expect(await estimateUsageCost({ kind: 'image', provider: 'custom', model: 'unknown-model' })).toBe(0);
+    expect(await estimateUsageCost({ kind: 'tts', provider: 'custom', model: 'unknown-model', characters: 1000 })).toBe(0);
+    expect(await estimateUsageCost({ kind: 'video', provider: 'custom', model: 'unknown-model', videoSeconds: 5 })).toBe(0);
+  });
+});
@@ -0,0 +1,341 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { eq, desc, sql } from 'drizzle-orm';
+import { getDatabase, schema } from '../database';
+import { generateId } from './utils';
+import { getProjectSettings, type BudgetMode } from './project.service';
+
+const { usageRecords } = schema;
+
+export type UsageKind = 'llm' | 'image' | 'video' | 'tts';
+
+export interface UsageInput {
+  projectId?: string | null;
+  shotId?: string | null;
+  kind: UsageKind;
+  provider: string;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  imageCount?: number;
+  videoSeconds?: number;
+  characters?: number; // 语音合成的字符数
+}
+
+export interface UsageContext {
+  projectId?: string | null;
+  shotId?: string | null;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  imageCount: number;
+  videoSeconds: number;
+  characters: number;
+  estimatedCost: number;
+}
+
+export interface ProjectUsageSummary {
+  total: UsageTotals;
+  byKind: Record<UsageKind, UsageTotals>;
+}
+
+export interface MonthlyUsageSummary extends UsageTotals {
+  month: string; // YYYY-MM
+}
+
+export interface ProjectBudgetStatus {
+  limit: number | null; // 预算上限（元），null 表示不限制
+  mode: BudgetMode;
+  spent: number; // 已累计的预估花费（元）
+  remaining: number | null;
+}
+
+/** 批量生成数量（语音合成按字符计费，记录待合成的字符数） */
+export interface BatchGenerationCount {
+  imageCount?: number;
+  videoCount?: number;
+  ttsCharacters?: number;
+}
+
+export interface BatchBudgetCheck extends ProjectBudgetStatus {
+  estimatedCost: number;
+  exceeded: boolean;
+}
+
+// 美元兑人民币汇率（仅用于费用估算）
+const USD_TO_CNY = 7.2;
+
+// 文本模型单价（元/百万 tokens，估算值）
+const TEXT_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.0-flash': { input: 0.1 * USD_TO_CNY, output: 0.4 * USD_TO_CNY },
+  'gemini-3-pro-preview': { input: 2 * USD_TO_CNY, output: 12 * USD_TO_CNY },
+  'gpt-4o': { input: 2.5 * USD_TO_CNY, output: 10 * USD_TO_CNY },
+  'gpt-5': { input: 1.25 * USD_TO_CNY, output: 10 * USD_TO_CNY },
+  'claude-sonnet-4.5-20250514': { input: 3 * USD_TO_CNY, output: 15 * USD_TO_CNY },
+  'claude-sonnet-4-5': { input: 3 * USD_TO_CNY, output: 15 * USD_TO_CNY },
+  'claude-opus-4-1': { input: 15 * USD_TO_CNY, output: 75 * USD_TO_CNY },
+  'claude-haiku-4-5': { input: 1 * USD_TO_CNY, output: 5 * USD_TO_CNY },
+  'grok-4': { input: 3 * USD_TO_CNY, output: 15 * USD_TO_CNY },
+  'deepseek-chat': { input: 2, output: 8 },
+  'qwen-plus': { input: 0.8, output: 2 },
+  'qwen-max': { input: 2.4, output: 9.6 },
+};
+
+// 图像模型单价（元/张，估算值）
+const IMAGE_PRICES: Record<string, number> = {
+  'gemini-3-pro-image-preview': 0.134 * USD_TO_CNY,
+  'gemini-2.0-flash-exp': 0.039 * USD_TO_CNY,
+  'gpt-image-1': 0.042 * USD_TO_CNY,
+  'dall-e-3': 0.08 * USD_TO_CNY,
+  'qwen-image-plus': 0.2,
+  'qwen-image-edit-plus': 0.2,
+};
+
+// 语音合成模型单价（元/万字符，估算值）
+const TTS_PRICES: Record<string, number> = {
+  'tts-1': 0.15 * USD_TO_CNY,
+  'tts-1-hd': 0.3 * USD_TO_CNY,
+  'gpt-4o-mini-tts': 0.12 * USD_TO_CNY,
+  'cosyvoice-v2': 2,
+  'cosyvoice-v1': 2,
+  'qwen-tts': 1.6,
+};
+
+// 当前调用的项目/分镜上下文（用于无法直接传递项目信息的调用，如剧本解析中的 LLM 请求）
+const usageContextStorage = new AsyncLocalStorage<UsageContext>();
+
+/**
+ * 在指定用量上下文中执行函数，其中的 AI 调用会归属到该项目/分镜
+ */
+export function runWithUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageContextStorage.run(context, fn);
+}
+
+/**
+ * 解析视频模型价格标签（如 "¥0.24/秒"、"$0.15/视频"），返回单价（元）和计价单位
+ */
+export function parsePriceLabel(label: string): { amount: number; unit: 'second' | 'video' } | null {
+  const match = label.match(/([¥$])\s*([\d.]+)\s*\/\s*(秒|视频)/);
+  if (!match) return null;
+
+  const amount = parseFloat(match[2]) * (match[1] === '$' ? USD_TO_CNY : 1);
+  return { amount, unit: match[3] === '秒' ? 'second' : 'video' };
+}
+
+/**
+ * 估算单次调用费用（元）
+ */
+export async function estimateUsageCost(input: UsageInput): Promise<number> {
+  if (input.kind === 'llm') {
+    // 带日期后缀的模型版本（如 claude-sonnet-4-5-20250929）按别名计价
+    const price = TEXT_PRICES[input.model] ?? TEXT_PRICES[input.model.replace(/-\d{8}$/, '')];
+    if (!price) return 0;
+    return ((input.inputTokens || 0) * price.input + (input.outputTokens || 0) * price.output) / 1_000_000;
+  }
+
+  if (input.kind === 'image') {
+    return (IMAGE_PRICES[input.model] || 0) * (input.imageCount ?? 1);
+  }
+
+  if (input.kind === 'tts') {
+    return ((TTS_PRICES[input.model] || 0) * (input.characters || 0)) / 10_000;
+  }
+
+  // 视频价格来自模型列表中的价格标签（动态导入以避免循环依赖）
+  const { getAvailableVideoModels } = await import('./ai.service');
+  const model = getAvailableVideoModels().find(m => m.id === input.model);
+  const price = model ? parsePriceLabel(model.price) : null;
+  if (!price) return 0;
+  return price.unit === 'second' ? price.amount * (input.videoSeconds || 0) : price.amount;
+}
+
+/**
+ * 记录一次 AI 调用的用量（失败不影响生成流程）
+ */
+export async function recordUsage(input: UsageInput): Promise<void> {
+  try {
+    const db = getDatabase();
+    const context = usageContextStorage.getStore();
+    const estimatedCost = await estimateUsageCost(input);
+
+    await db.insert(usageRecords).values({
+      id: generateId(),
+      projectId: input.projectId ?? context?.projectId ?? null,
+      shotId: input.shotId ?? context?.shotId ?? null,
+      kind: input.kind,
+      provider: input.provider,
+      model: input.model,
+      inputTokens: input.inputTokens || 0,
+      outputTokens: input.outputTokens || 0,
+      imageCount: input.imageCount || 0,
+      videoSeconds: input.videoSeconds || 0,
+      characters: input.characters || 0,
+      estimatedCost,
+      createdAt: new Date().toISOString(),
+    });
+
+    const projectId = input.projectId ?? context?.projectId;
+    if (projectId && estimatedCost > 0) {
+      await enforceProjectBudget(projectId);
+    }
+  } catch (error) {
+    console.error('[UsageService] 记录用量失败:', error);
+  }
+}
+
+/**
+ * 获取项目预算状态
+ */
+export async function getProjectBudgetStatus(projectId: string): Promise<ProjectBudgetStatus> {
+  const db = getDatabase();
+  const { budgetLimit, budgetMode } = await getProjectSettings(projectId);
+
+  const [row] = await db
+    .select({ spent: totalsSelection.estimatedCost })
+    .from(usageRecords)
+    .where(eq(usageRecords.projectId, projectId));
+  const spent = row?.spent || 0;
+
+  return {
+    limit: budgetLimit,
+    mode: budgetMode,
+    spent,
+    remaining: budgetLimit === null ? null : Math.max(0, budgetLimit - spent),
+  };
+}
+
+/**
+ * 项目是否已达到预算上限（仅 block 模式生效）
+ */
+export async function isProjectBudgetReached(projectId: string): Promise<boolean> {
+  const status = await getProjectBudgetStatus(projectId);
+  return status.mode === 'block' && status.limit !== null && status.spent >= status.limit;
+}
+
+/**
+ * 检查批量生成是否会超出项目剩余预算
+ */
+export async function checkBatchBudget(
+  projectId: string,
+  batch: BatchGenerationCount
+): Promise<BatchBudgetCheck> {
+  // 动态导入以避免循环依赖
+  const { estimateGenerationCost } = await import('./ai.service');
+  const { estimateSpeechCost } = await import('./tts.service');
+  const status = await getProjectBudgetStatus(projectId);
+  const estimatedCost =
+    (await estimateGenerationCost(batch.imageCount || 0, batch.videoCount || 0)) +
+    (await estimateSpeechCost(batch.ttsCharacters || 0));
+
+  return {
+    ...status,
+    estimatedCost,
+    exceeded: status.remaining !== null && estimatedCost > status.remaining,
+  };
+}
+
+/**
+ * 单次生成前校验预算，block 模式下项目已达到预算上限时抛出错误
+ */
+export async function assertProjectBudgetAvailable(projectId: string): Promise<void> {
+  if (await isProjectBudgetReached(projectId)) {
+    throw new Error('项目已达到预算上限，请先调整预算');
+  }
+}
+
+/**
+ * 批量生成前校验预算，block 模式下超出剩余预算时抛出错误
+ */
+export async function assertBatchWithinBudget(
+  projectId: string,
+  batch: BatchGenerationCount
+): Promise<void> {
+  const check = await checkBatchBudget(projectId, batch);
+  if (!check.exceeded) return;
+
+  const message = `预计花费 ¥${check.estimatedCost.toFixed(2)}，超出项目剩余预算 ¥${(check.remaining ?? 0).toFixed(2)}`;
+  if (check.mode === 'block') {
+    throw new Error(`${message}，已阻止本次生成`);
+  }
+  console.warn(`[UsageService] 项目 ${projectId} ${message}`);
+}
+
+/**
+ * 达到预算上限时暂停项目中排队的渲染任务
+ */
+async function enforceProjectBudget(projectId: string): Promise<void> {
+  if (!(await isProjectBudgetReached(projectId))) return;
+
+  const { pauseProjectRenderTasks } = await import('./render.service');
+  const paused = await pauseProjectRenderTasks(projectId);
+  if (paused > 0) {
+    console.log(`[UsageService] 项目 ${projectId} 已达到预算上限，暂停 ${paused} 个渲染任务`);
+  }
+}
+
+/**
+ * 汇总字段（SQL 聚合）
+ */
+const totalsSelection = {
+  calls: sql<number>`count(*)`,
+  inputTokens: sql<number>`coalesce(sum(${usageRecords.inputTokens}), 0)`,
+  outputTokens: sql<number>`coalesce(sum(${usageRecords.outputTokens}), 0)`,
+  imageCount: sql<number>`coalesce(sum(${usageRecords.imageCount}), 0)`,
+  videoSeconds: sql<number>`coalesce(sum(${usageRecords.videoSeconds}), 0)`,
+  characters: sql<number>`coalesce(sum(${usageRecords.characters}), 0)`,
+  estimatedCost: sql<number>`coalesce(sum(${usageRecords.estimatedCost}), 0)`,
+};
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, imageCount: 0, videoSeconds: 0, characters: 0, estimatedCost: 0 };
+}
+
+/**
+ * 获取项目用量汇总（按调用类型）
+ */
+export async function getProjectUsageSummary(projectId: string): Promise<ProjectUsageSummary> {
+  const db = getDatabase();
+
+  const rows = await db
+    .select({ kind: usageRecords.kind, ...totalsSelection })
+    .from(usageRecords)
+    .where(eq(usageRecords.projectId, projectId))
+    .groupBy(usageRecords.kind);
+
+  const summary: ProjectUsageSummary = {
+    total: emptyTotals(),
+    byKind: { llm: emptyTotals(), image: emptyTotals(), video: emptyTotals(), tts: emptyTotals() },
+  };
+
+  for (const { kind, ...totals } of rows) {
+    if (kind in summary.byKind) {
+      summary.byKind[kind as UsageKind] = totals;
+    }
+    for (const key of Object.keys(summary.total) as Array<keyof UsageTotals>) {
+      summary.total[key] += totals[key];
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * 获取按月汇总的用量（指定项目时仅统计该项目）
+ */
+export async function getMonthlyUsageSummary(projectId?: string): Promise<MonthlyUsageSummary[]> {
+  const db = getDatabase();
+  const month = sql<string>`substr(${usageRecords.createdAt}, 1, 7)`;
+
+  const query = db
+    .select({ month, ...totalsSelection })
+    .from(usageRecords)
+    .$dynamic();
+
+  if (projectId) {
+    query.where(eq(usageRecords.projectId, projectId));
+  }
+
+  return await query.groupBy(month).orderBy(desc(month));
+}
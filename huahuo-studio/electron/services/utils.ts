@@ -62,7 +62,7 @@ export function getProjectDir(projectId: string): string {
 /**
  * 获取项目资产目录
  */
-export function getProjectAssetsDir(projectId: string, type: 'images' | 'videos' | 'avatars' | 'scenes'): string {
+export function getProjectAssetsDir(projectId: string, type: 'images' | 'videos' | 'avatars' | 'scenes' | 'audio'): string {
   const assetsDir = join(getProjectDir(projectId), type);
 
   if (!existsSync(assetsDir)) {
@@ -77,7 +77,7 @@ export function getProjectAssetsDir(projectId: string, type: 'images' | 'videos'
  */
 export function saveProjectFile(
   projectId: string,
-  type: 'images' | 'videos' | 'avatars' | 'scenes',
+  type: 'images' | 'videos' | 'avatars' | 'scenes' | 'audio',
   filename: string,
   data: Buffer
 ): string {
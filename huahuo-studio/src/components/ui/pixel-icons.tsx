@@ -152,6 +152,11 @@ export const IconVideo = createPixelIcon(
   'IconVideo'
 );
 
+export const IconVolume = createPixelIcon(
+  <><path d="M3 9H7L12 4V20L7 15H3V9Z" /><path d="M16 8C17.5 9.5 17.5 14.5 16 16" /><path d="M19 5C22 8 22 16 19 19" /></>,
+  'IconVolume'
+);
+
 export const IconFolder = createPixelIcon(
   <path d="M2 6H10L12 4H22V20H2V6Z" />,
   'IconFolder'
@@ -209,7 +214,7 @@ export const Icons = {
   ChevronRight: IconChevronRight, ChevronDown: IconChevronDown, Upload: IconUpload,
   Download: IconDownload, Save: IconSave, Trash: IconTrash, Edit: IconEdit,
   Refresh: IconRefresh, Play: IconPlay, Pause: IconPause, Image: IconImage,
-  Video: IconVideo, Folder: IconFolder, File: IconFile, Search: IconSearch,
+  Video: IconVideo, Volume: IconVolume, Folder: IconFolder, File: IconFile, Search: IconSearch,
   Menu: IconMenu, AI: IconAI, Bolt: IconBolt, Warning: IconWarning, Info: IconInfo,
   Database: IconDatabase, X: IconX,
 };
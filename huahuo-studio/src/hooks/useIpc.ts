@@ -38,12 +38,14 @@ export interface IpcHandlers {
   'project:create': (data: { name: string; description?: string }) => Promise<string>;
   'project:update': (projectId: string, data: any) => Promise<void>;
   'project:delete': (projectId: string) => Promise<void>;
+  'project:get-settings': (projectId: string) => Promise<any>;
+  'project:update-settings': (projectId: string, data: any) => Promise<any>;
 
   // Script
   'script:load': (projectId: string) => Promise<any>;
   'script:save': (projectId: string, content: string) => Promise<void>;
   'script:parse-local': (content: string) => Promise<any>;
-  'script:parse-ai': (content: string) => Promise<any>;
+  'script:parse-ai': (content: string, projectId?: string) => Promise<any>;
   'script:save-parsed': (projectId: string, parsedData: any) => Promise<void>;
 
   // Character
@@ -55,6 +57,7 @@ export interface IpcHandlers {
   'character:generate-avatar': (characterId: string) => Promise<string>;
   'character:add-avatar': (characterId: string, avatarPath: string) => Promise<void>;
   'character:set-avatar': (characterId: string, avatarPath: string) => Promise<void>;
+  'character:audition-voice': (characterId: string, text?: string) => Promise<string>;
 
   // Storyboard
   'storyboard:list': (projectId: string) => Promise<any[]>;
@@ -64,23 +67,46 @@ export interface IpcHandlers {
   'storyboard:update': (shotId: string, data: any) => Promise<void>;
   'storyboard:delete': (shotId: string) => Promise<void>;
   'storyboard:move': (shotId: string, newIndex: number) => Promise<void>;
+  'storyboard:list-takes': (shotId: string, kind?: 'image' | 'video' | 'audio') => Promise<any[]>;
+  'storyboard:select-take': (shotId: string, assetId: string) => Promise<void>;
+  'storyboard:set-audio': (shotId: string, filePath: string | null) => Promise<string | null>;
+  'storyboard:preview-prompt': (shotId: string, kind?: 'image' | 'video') => Promise<any>;
   'storyboard:generate-image': (shotId: string) => Promise<string>;
+  'storyboard:generate-voice': (shotId: string) => Promise<string>;
+  'storyboard:generate-all-voices': (projectId: string, regenerateAll?: boolean) => Promise<any>;
 
   // Render
   'render:list': (projectId: string) => Promise<any[]>;
   'render:create': (projectId: string, shotId: string, type: 'image' | 'video') => Promise<string>;
-  'render:create-batch': (projectId: string, shotIds: string[], type: 'image' | 'video') => Promise<string[]>;
+  'render:create-batch': (projectId: string, shotIds: string[], type: 'image' | 'video' | 'pipeline') => Promise<string[]>;
   'render:update': (taskId: string, data: any) => Promise<void>;
   'render:cancel': (taskId: string) => Promise<void>;
   'render:pause': (taskId: string) => Promise<void>;
   'render:resume': (taskId: string) => Promise<void>;
+  'render:bump': (taskId: string) => Promise<void>;
+  'render:reorder': (projectId: string, taskIds: string[]) => Promise<void>;
   'render:status': () => Promise<any>;
 
+  // Usage
+  'usage:project-summary': (projectId: string) => Promise<any>;
+  'usage:monthly-summary': (projectId?: string) => Promise<any[]>;
+  'usage:budget-status': (projectId: string) => Promise<any>;
+  'usage:check-budget': (projectId: string, batch: { imageCount?: number; videoCount?: number; ttsCharacters?: number }) => Promise<any>;
+
+  // Prompt templates
+  'prompt-template:list': (projectId?: string | null) => Promise<any[]>;
+  'prompt-template:save': (key: string, content: string, projectId?: string | null) => Promise<void>;
+  'prompt-template:reset': (key: string, projectId?: string | null) => Promise<void>;
+  'prompt-template:preview': (projectId: string, key: string, content: string, shotId?: string | null) => Promise<string>;
+
   // Settings
   'settings:get': () => Promise<any>;
   'settings:update': (updates: any) => Promise<void>;
   'settings:get-api-config': () => Promise<any>;
   'settings:test-connection': () => Promise<any>;
+  'settings:test-tts-connection': () => Promise<any>;
+  'settings:get-tts-config': () => Promise<any>;
+  'settings:fetch-tts-voices': () => Promise<any>;
 
   // AI
   'ai:generate-text': (prompt: string, systemPrompt?: string) => Promise<string>;
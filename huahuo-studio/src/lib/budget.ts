@@ -0,0 +1,31 @@
+export interface BatchBudgetCheck {
+  limit: number | null;
+  mode: 'block' | 'warn';
+  spent: number;
+  remaining: number | null;
+  estimatedCost: number;
+  exceeded: boolean;
+}
+
+/**
+ * 批量生成前检查项目预算
+ * block 模式下超出预算直接拒绝，warn 模式下由用户确认是否继续
+ * @returns allowed 为 false 时不应开始生成，message 为拒绝原因
+ */
+export async function confirmBatchBudget(
+  projectId: string,
+  batch: { imageCount?: number; videoCount?: number; ttsCharacters?: number }
+): Promise<{ allowed: boolean; message?: string }> {
+  const check: BatchBudgetCheck = await window.electron.invoke('usage:check-budget', projectId, batch);
+  if (!check.exceeded) return { allowed: true };
+
+  const message = `预计花费 ¥${check.estimatedCost.toFixed(2)}，超出项目剩余预算 ¥${(check.remaining ?? 0).toFixed(2)}（上限 ¥${(check.limit ?? 0).toFixed(2)}）`;
+
+  if (check.mode === 'block') {
+    return { allowed: false, message: `${message}，可在项目概览中调整预算` };
+  }
+
+  return confirm(`${message}，是否继续？`)
+    ? { allowed: true }
+    : { allowed: false, message: '已取消生成' };
+}
@@ -408,7 +408,7 @@ export default function AutomationPage() {
 
       let parseResult;
       try {
-        parseResult = await window.electron.invoke('script:parse-ai', script);
+        parseResult = await window.electron.invoke('script:parse-ai', script, projectId);
         addLog(`解析完成: ${parseResult.scenes.length} 个场景, ${parseResult.characters.length} 个角色`, 'success');
       } catch (error) {
         addLog('AI 解析失败，使用本地解析', 'error');
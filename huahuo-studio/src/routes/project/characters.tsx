@@ -10,7 +10,7 @@ import { PixelBadge } from '@/components/ui/pixel-badge';
 import { PixelLoading } from '@/components/ui/pixel-loading';
 import {
   IconPlus, IconRefresh, IconTrash, IconEdit, IconAI,
-  IconSave, IconClose, IconCheck, IconWarning,
+  IconSave, IconClose, IconCheck, IconWarning, IconPlay,
 } from '@/components/ui/pixel-icons';
 import { cn, getLocalFileUrl } from '@/lib/utils';
 import { useTaskNotification } from '@/contexts/TaskNotificationContext';
@@ -24,10 +24,33 @@ interface Character {
   appearance: string | null;
   avatarPath: string | null;
   generatedAvatars: string[];
+  voiceProfile: VoiceProfile | null;
+  voiceSamplePath: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface VoiceProfile {
+  provider: string;
+  voiceId: string;
+  speed: number;
+  pitch: number;
+  emotionPresets: Array<{ emotion: string; instruction: string }>;
+}
+
+interface VoiceOption {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+const emptyVoiceForm: Omit<VoiceProfile, 'provider'> = {
+  voiceId: '',
+  speed: 1,
+  pitch: 1,
+  emotionPresets: [],
+};
+
 const roleConfig = {
   protagonist: { label: '主角', variant: 'primary' as const },
   antagonist: { label: '反派', variant: 'error' as const },
@@ -108,6 +131,14 @@ export default function ProjectCharactersPage() {
   const [isGeneratingViews, setIsGeneratingViews] = useState(false);
   const [isCleaningDuplicates, setIsCleaningDuplicates] = useState(false);
 
+  // 音色配置
+  const [ttsProvider, setTtsProvider] = useState('');
+  const [voices, setVoices] = useState<VoiceOption[]>([]);
+  const [voiceForm, setVoiceForm] = useState(emptyVoiceForm);
+  const [auditionText, setAuditionText] = useState('');
+  const [isSavingVoice, setIsSavingVoice] = useState(false);
+  const [isAuditioning, setIsAuditioning] = useState(false);
+
   // 消息状态
   const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null);
 
@@ -157,6 +188,21 @@ export default function ProjectCharactersPage() {
     loadCharacters();
   }, [loadCharacters]);
 
+  // 加载当前语音服务商的音色列表
+  useEffect(() => {
+    const loadVoices = async () => {
+      try {
+        const config = await window.electron.invoke('settings:get-tts-config');
+        setTtsProvider(config.provider);
+        const result = await window.electron.invoke('settings:fetch-tts-voices');
+        if (result.success) setVoices(result.voices);
+      } catch (error) {
+        console.error('加载音色列表失败:', error);
+      }
+    };
+    loadVoices();
+  }, []);
+
   // 选中的角色
   const selectedCharacter = characters.find((c) => c.id === selectedId);
 
@@ -172,6 +218,20 @@ export default function ProjectCharactersPage() {
     }
   }, [selectedCharacter, isCreating]);
 
+  // 角色音色属于其他语音服务商时不能直接使用
+  const voiceProviderMismatch = !!selectedCharacter?.voiceProfile && selectedCharacter.voiceProfile.provider !== ttsProvider;
+
+  // 当选中角色改变时，更新音色表单
+  useEffect(() => {
+    const profile = selectedCharacter?.voiceProfile;
+    setVoiceForm(profile ? {
+      voiceId: profile.voiceId,
+      speed: profile.speed,
+      pitch: profile.pitch,
+      emotionPresets: profile.emotionPresets,
+    } : emptyVoiceForm);
+  }, [selectedCharacter]);
+
   // 搜索过滤
   const filteredCharacters = characters.filter((c) =>
     c.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -372,6 +432,53 @@ export default function ProjectCharactersPage() {
     }
   };
 
+  // 保存角色音色
+  const saveVoiceProfile = async () => {
+    if (!selectedId) return;
+    const emotionPresets = voiceForm.emotionPresets.filter(p => p.emotion.trim() && p.instruction.trim());
+    await window.electron.invoke('character:update', selectedId, {
+      voiceProfile: voiceForm.voiceId ? { ...voiceForm, emotionPresets, provider: ttsProvider } : null,
+    });
+  };
+
+  const handleSaveVoice = async () => {
+    try {
+      setIsSavingVoice(true);
+      await saveVoiceProfile();
+      await loadCharacters();
+      showMessage('success', '音色已保存');
+    } catch (error) {
+      console.error('保存音色失败:', error);
+      showMessage('error', error instanceof Error ? error.message : '保存音色失败');
+    } finally {
+      setIsSavingVoice(false);
+    }
+  };
+
+  // 保存音色后生成试听样音
+  const handleAuditionVoice = async () => {
+    if (!selectedId) return;
+
+    try {
+      setIsAuditioning(true);
+      await saveVoiceProfile();
+      await window.electron.invoke('character:audition-voice', selectedId, auditionText);
+      await loadCharacters();
+    } catch (error) {
+      console.error('试听失败:', error);
+      showMessage('error', error instanceof Error ? error.message : '试听失败');
+    } finally {
+      setIsAuditioning(false);
+    }
+  };
+
+  const updateEmotionPreset = (index: number, field: 'emotion' | 'instruction', value: string) => {
+    setVoiceForm(prev => ({
+      ...prev,
+      emotionPresets: prev.emotionPresets.map((p, i) => (i === index ? { ...p, [field]: value } : p)),
+    }));
+  };
+
   // 设置选中的头像
   const handleSetAvatar = async (avatarPath: string) => {
     if (!selectedId) return;
@@ -732,6 +839,150 @@ export default function ProjectCharactersPage() {
                   </p>
                 </PixelCard>
               )}
+
+              {/* 角色音色 */}
+              {!isCreating && selectedCharacter && (
+                <PixelCard padding="md" className="mt-4">
+                  <h3 className="font-pixel text-sm text-text-primary mb-3">角色音色</h3>
+                  {voiceProviderMismatch && (
+                    <p className="text-xs text-status-warning mb-3">
+                      已保存的音色属于其他语音服务商，当前配音将使用默认音色，请重新选择
+                    </p>
+                  )}
+
+                  <div className="space-y-3">
+                    <div>
+                      <label className="block text-xs font-pixel text-text-secondary mb-1">音色</label>
+                      <select
+                        value={voiceForm.voiceId}
+                        onChange={(e) => setVoiceForm({ ...voiceForm, voiceId: e.target.value })}
+                        className="w-full px-2 py-1.5 bg-bg-tertiary border-2 border-black text-sm focus:outline-none focus:border-primary-main"
+                      >
+                        <option value="">使用默认音色</option>
+                        {voiceForm.voiceId && !voices.some(v => v.id === voiceForm.voiceId) && (
+                          <option value={voiceForm.voiceId}>{voiceForm.voiceId}</option>
+                        )}
+                        {voices.map((voice) => (
+                          <option key={voice.id} value={voice.id}>
+                            {voice.description ? `${voice.name}（${voice.description}）` : voice.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <PixelInput
+                        label="语速"
+                        type="number"
+                        min={0.5}
+                        max={2}
+                        step={0.1}
+                        value={String(voiceForm.speed)}
+                        onChange={(e) => setVoiceForm({ ...voiceForm, speed: parseFloat(e.target.value) || 1 })}
+                      />
+                      <PixelInput
+                        label="音高"
+                        type="number"
+                        min={0.5}
+                        max={2}
+                        step={0.1}
+                        value={String(voiceForm.pitch)}
+                        onChange={(e) => setVoiceForm({ ...voiceForm, pitch: parseFloat(e.target.value) || 1 })}
+                        helperText="仅部分服务商支持"
+                      />
+                    </div>
+
+                    <div>
+                      <div className="flex items-center justify-between mb-1">
+                        <label className="text-xs font-pixel text-text-secondary">情绪预设</label>
+                        <PixelButton
+                          variant="ghost"
+                          size="sm"
+                          leftIcon={<IconPlus size={12} />}
+                          onClick={() => setVoiceForm({
+                            ...voiceForm,
+                            emotionPresets: [...voiceForm.emotionPresets, { emotion: '', instruction: '' }],
+                          })}
+                        >
+                          添加
+                        </PixelButton>
+                      </div>
+                      {voiceForm.emotionPresets.length > 0 ? (
+                        <div className="space-y-2">
+                          {voiceForm.emotionPresets.map((preset, i) => (
+                            <div key={i} className="flex gap-1 items-start">
+                              <PixelInput
+                                value={preset.emotion}
+                                onChange={(e) => updateEmotionPreset(i, 'emotion', e.target.value)}
+                                placeholder="情绪"
+                                className="w-16"
+                              />
+                              <PixelInput
+                                value={preset.instruction}
+                                onChange={(e) => updateEmotionPreset(i, 'instruction', e.target.value)}
+                                placeholder="语气指令，如：压低声音、咬牙切齿"
+                              />
+                              <PixelButton
+                                variant="ghost"
+                                size="icon"
+                                shadow={false}
+                                onClick={() => setVoiceForm({
+                                  ...voiceForm,
+                                  emotionPresets: voiceForm.emotionPresets.filter((_, j) => j !== i),
+                                })}
+                              >
+                                <IconTrash size={12} />
+                              </PixelButton>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-xs text-text-muted">分镜情绪与预设一致时，配音使用预设的语气指令</p>
+                      )}
+                    </div>
+
+                    <PixelInput
+                      label="试听文本"
+                      value={auditionText}
+                      onChange={(e) => setAuditionText(e.target.value)}
+                      placeholder={`大家好，我是${selectedCharacter.name}。`}
+                    />
+
+                    {selectedCharacter.voiceSamplePath && (
+                      <audio
+                        key={selectedCharacter.voiceSamplePath}
+                        src={getLocalFileUrl(selectedCharacter.voiceSamplePath) || ''}
+                        controls
+                        autoPlay={isAuditioning}
+                        className="w-full h-8"
+                      />
+                    )}
+
+                    <div className="flex gap-2">
+                      <PixelButton
+                        variant="ghost"
+                        fullWidth
+                        leftIcon={<IconSave size={14} />}
+                        onClick={handleSaveVoice}
+                        loading={isSavingVoice}
+                        disabled={isAuditioning}
+                      >
+                        保存音色
+                      </PixelButton>
+                      <PixelButton
+                        variant="primary"
+                        fullWidth
+                        leftIcon={<IconPlay size={14} />}
+                        onClick={handleAuditionVoice}
+                        loading={isAuditioning}
+                        disabled={!voiceForm.voiceId || isSavingVoice}
+                      >
+                        试听
+                      </PixelButton>
+                    </div>
+                  </div>
+                </PixelCard>
+              )}
             </>
           ) : (
             <PixelCard padding="lg" className="text-center">
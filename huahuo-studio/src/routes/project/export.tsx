@@ -4,6 +4,7 @@ import { Toolbar } from '@/components/layout/Toolbar';
 import { PixelCard } from '@/components/ui/pixel-card';
 import { PixelButton } from '@/components/ui/pixel-button';
 import { PixelSelect } from '@/components/ui/pixel-select';
+import { PixelInput } from '@/components/ui/pixel-input';
 import { IconPlay, IconPause, IconDownload, IconVideo, IconImage, IconFolder, IconWarning, IconCheck } from '@/components/ui/pixel-icons';
 import { formatDuration, getLocalFileUrl } from '@/lib/utils';
 import { useMessageStore } from '@/stores/message';
@@ -15,8 +16,11 @@ interface TimelineClip {
   duration: number;
   hasImage: boolean;
   hasVideo: boolean;
+  hasAudio: boolean;
+  dialogue: string | null;
   imagePath: string | null;
   videoPath: string | null;
+  audioPath: string | null;
 }
 
 interface ExportPreview {
@@ -26,6 +30,7 @@ interface ExportPreview {
   readyCount: number;
   videoCount: number;
   imageCount: number;
+  audioCount: number;
   totalClips: number;
 }
 
@@ -38,13 +43,43 @@ interface ExportProgress {
   outputPath?: string;
 }
 
+interface SubtitleStyle {
+  showSpeaker: boolean;
+  fontName: string;
+  fontSize: number;
+  bold: boolean;
+  primaryColor: string;
+  speakerColor: string;
+  outlineColor: string;
+  outline: number;
+  marginBottom: number;
+}
+
 interface ExportOptions {
-  resolution: '1920x1080' | '1280x720' | '3840x2160';
+  resolution: '1920x1080' | '1280x720' | '3840x2160' | '1080x1920' | '720x1280';
   fps: 24 | 30 | 60;
   format: 'mp4' | 'webm' | 'mov';
   quality: 'low' | 'medium' | 'high';
+  burnSubtitles: boolean;
+  subtitleStyle: SubtitleStyle;
 }
 
+// 字幕样式预设（字号、描边以 1080p 短边为基准）
+const subtitlePresets: Record<string, { label: string; style: Omit<SubtitleStyle, 'showSpeaker' | 'fontName'> }> = {
+  vertical: {
+    label: '竖屏短剧（白字黑边）',
+    style: { fontSize: 64, bold: true, primaryColor: '#FFFFFF', speakerColor: '#FFD400', outlineColor: '#000000', outline: 4, marginBottom: 20 },
+  },
+  highlight: {
+    label: '竖屏短剧（黄字醒目）',
+    style: { fontSize: 72, bold: true, primaryColor: '#FFE14D', speakerColor: '#FFFFFF', outlineColor: '#000000', outline: 5, marginBottom: 22 },
+  },
+  landscape: {
+    label: '横屏标准',
+    style: { fontSize: 54, bold: false, primaryColor: '#FFFFFF', speakerColor: '#9AD8FF', outlineColor: '#000000', outline: 3, marginBottom: 6 },
+  },
+};
+
 export default function ProjectExportPage() {
   const { projectId } = useParams({ from: '/project/$projectId' });
   const { showMessage } = useMessageStore();
@@ -64,7 +99,21 @@ export default function ProjectExportPage() {
     fps: 30,
     format: 'mp4',
     quality: 'medium',
+    burnSubtitles: false,
+    subtitleStyle: {
+      showSpeaker: true,
+      fontName: 'Microsoft YaHei',
+      ...subtitlePresets.vertical.style,
+    },
   });
+  const [subtitlePreset, setSubtitlePreset] = useState('vertical');
+  const [exportingSubtitles, setExportingSubtitles] = useState(false);
+
+  const updateSubtitleStyle = (patch: Partial<SubtitleStyle>) => {
+    setOptions(prev => ({ ...prev, subtitleStyle: { ...prev.subtitleStyle, ...patch } }));
+  };
+
+  const isVertical = options.resolution === '1080x1920' || options.resolution === '720x1280';
 
   // 加载预览数据
   const loadPreview = useCallback(async () => {
@@ -158,6 +207,27 @@ export default function ProjectExportPage() {
     }
   };
 
+  // 导出字幕文件
+  const handleExportSubtitles = async (format: 'srt' | 'ass') => {
+    if (!preview) return;
+
+    try {
+      const outputPath = await window.electron.invoke('export:select-path', preview.projectName, format);
+      if (!outputPath) return;
+
+      setExportingSubtitles(true);
+      await window.electron.invoke('export:subtitles', projectId, outputPath, format, {
+        resolution: options.resolution,
+        subtitleStyle: options.subtitleStyle,
+      });
+      showMessage('success', `${format.toUpperCase()} 字幕已导出`);
+    } catch (error) {
+      showMessage('error', error instanceof Error ? error.message : '导出字幕失败');
+    } finally {
+      setExportingSubtitles(false);
+    }
+  };
+
   // 打开导出目录
   const handleOpenFolder = () => {
     if (exportProgress?.outputPath) {
@@ -185,8 +255,18 @@ export default function ProjectExportPage() {
     { value: '1280x720', label: '720p (1280×720)' },
     { value: '1920x1080', label: '1080p (1920×1080)' },
     { value: '3840x2160', label: '4K (3840×2160)' },
+    { value: '720x1280', label: '竖屏 720p (720×1280)' },
+    { value: '1080x1920', label: '竖屏 1080p (1080×1920)' },
+  ];
+
+  const subtitlePresetOptions = [
+    ...Object.entries(subtitlePresets).map(([value, preset]) => ({ value, label: preset.label })),
+    { value: 'custom', label: '自定义' },
   ];
 
+  // 烧录字幕时在预览中显示当前分镜台词
+  const currentSubtitle = options.burnSubtitles ? currentClip?.dialogue?.trim() || null : null;
+
   // 帧率选项
   const fpsOptions = [
     { value: '24', label: '24 fps' },
@@ -196,9 +276,9 @@ export default function ProjectExportPage() {
 
   // 格式选项
   const formatOptions = [
-    { value: 'mp4', label: 'MP4 (H.264)' },
-    { value: 'webm', label: 'WebM (VP9)' },
-    { value: 'mov', label: 'MOV (ProRes)' },
+    { value: 'mp4', label: 'MP4 (H.264 + AAC)' },
+    { value: 'webm', label: 'WebM (VP9 + Opus)' },
+    { value: 'mov', label: 'MOV (H.264 + AAC)' },
   ];
 
   // 质量选项
@@ -253,7 +333,7 @@ export default function ProjectExportPage() {
         {/* 预览区 */}
         <div className="flex-1 p-6 flex flex-col items-center justify-center bg-bg-primary">
           {/* 视频预览区 */}
-          <div className="w-full max-w-3xl aspect-video bg-black border-2 border-black shadow-pixel flex items-center justify-center mb-4 relative overflow-hidden">
+          <div className={`${isVertical ? 'h-[60vh] aspect-[9/16]' : 'w-full max-w-3xl aspect-video'} bg-black border-2 border-black shadow-pixel flex items-center justify-center mb-4 relative overflow-hidden`}>
             {currentClip && currentClip.imagePath ? (
               <img
                 src={getLocalFileUrl(currentClip.imagePath) || ''}
@@ -273,9 +353,25 @@ export default function ProjectExportPage() {
               </div>
             )}
 
+            {/* 字幕预览 */}
+            {currentSubtitle && (
+              <div
+                className="absolute left-[5%] right-[5%] text-center"
+                style={{
+                  bottom: `${options.subtitleStyle.marginBottom}%`,
+                  color: options.subtitleStyle.primaryColor,
+                  fontFamily: options.subtitleStyle.fontName,
+                  fontWeight: options.subtitleStyle.bold ? 'bold' : 'normal',
+                  textShadow: `0 0 3px ${options.subtitleStyle.outlineColor}, 0 0 3px ${options.subtitleStyle.outlineColor}`,
+                }}
+              >
+                {currentSubtitle}
+              </div>
+            )}
+
             {/* 分镜信息叠加 */}
             {currentClip && (
-              <div className="absolute bottom-2 left-2 bg-black/70 px-2 py-1 text-white text-xs">
+              <div className="absolute top-2 left-2 bg-black/70 px-2 py-1 text-white text-xs">
                 #{currentClip.shotIndex} - {currentClip.name}
               </div>
             )}
@@ -383,6 +479,132 @@ export default function ProjectExportPage() {
             </div>
           </div>
 
+          <h3 className="font-pixel text-sm text-text-primary mb-4">字幕</h3>
+
+          <div className="space-y-4 mb-6">
+            <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.burnSubtitles}
+                onChange={(e) => setOptions({ ...options, burnSubtitles: e.target.checked })}
+                className="accent-primary-main"
+              />
+              将台词字幕烧录进画面
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.subtitleStyle.showSpeaker}
+                onChange={(e) => updateSubtitleStyle({ showSpeaker: e.target.checked })}
+                className="accent-primary-main"
+              />
+              显示说话角色名
+            </label>
+
+            <div>
+              <label className="block text-xs text-text-muted mb-1">样式预设</label>
+              <PixelSelect
+                value={subtitlePreset}
+                onChange={(value: string) => {
+                  setSubtitlePreset(value);
+                  if (subtitlePresets[value]) updateSubtitleStyle(subtitlePresets[value].style);
+                }}
+                options={subtitlePresetOptions}
+              />
+            </div>
+
+            <PixelInput
+              label="字体"
+              value={options.subtitleStyle.fontName}
+              onChange={(e) => updateSubtitleStyle({ fontName: e.target.value })}
+              placeholder="Microsoft YaHei"
+            />
+
+            <div className="grid grid-cols-2 gap-2">
+              <PixelInput
+                label="字号"
+                type="number"
+                min={20}
+                max={160}
+                value={String(options.subtitleStyle.fontSize)}
+                onChange={(e) => {
+                  setSubtitlePreset('custom');
+                  updateSubtitleStyle({ fontSize: parseInt(e.target.value) || 64 });
+                }}
+              />
+              <PixelInput
+                label="底部边距 (%)"
+                type="number"
+                min={0}
+                max={50}
+                value={String(options.subtitleStyle.marginBottom)}
+                onChange={(e) => {
+                  setSubtitlePreset('custom');
+                  updateSubtitleStyle({ marginBottom: parseInt(e.target.value) || 0 });
+                }}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                ['primaryColor', '文字'],
+                ['speakerColor', '角色名'],
+                ['outlineColor', '描边'],
+              ] as const).map(([key, label]) => (
+                <div key={key}>
+                  <label className="block text-xs text-text-muted mb-1">{label}</label>
+                  <input
+                    type="color"
+                    value={options.subtitleStyle[key]}
+                    onChange={(e) => {
+                      setSubtitlePreset('custom');
+                      updateSubtitleStyle({ [key]: e.target.value.toUpperCase() });
+                    }}
+                    className="w-full h-8 border-2 border-black bg-bg-tertiary cursor-pointer"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.subtitleStyle.bold}
+                onChange={(e) => {
+                  setSubtitlePreset('custom');
+                  updateSubtitleStyle({ bold: e.target.checked });
+                }}
+                className="accent-primary-main"
+              />
+              粗体
+            </label>
+
+            <div className="flex gap-2">
+              <PixelButton
+                variant="ghost"
+                size="sm"
+                fullWidth
+                onClick={() => handleExportSubtitles('srt')}
+                disabled={exportingSubtitles}
+              >
+                导出 SRT
+              </PixelButton>
+              <PixelButton
+                variant="ghost"
+                size="sm"
+                fullWidth
+                onClick={() => handleExportSubtitles('ass')}
+                disabled={exportingSubtitles}
+              >
+                导出 ASS
+              </PixelButton>
+            </div>
+            <p className="text-xs text-text-muted">
+              字幕按导出时间轴计算，没有素材的分镜会被跳过
+            </p>
+          </div>
+
           <PixelCard padding="md" className="mb-4">
             <h4 className="text-xs text-text-muted mb-2">预估信息</h4>
             <div className="space-y-2 text-sm">
@@ -415,6 +637,10 @@ export default function ProjectExportPage() {
               </span>
               <span className="text-text-secondary">{preview.imageCount}</span>
             </div>
+            <div className="flex justify-between items-center mb-3 text-xs">
+              <span className="text-text-muted flex items-center gap-1">♪ 分镜音频</span>
+              <span className="text-text-secondary">{preview.audioCount}</span>
+            </div>
 
             <div className="border-t border-border pt-3 mt-3 max-h-40 overflow-y-auto">
               {preview.clips.map((clip) => (
@@ -429,6 +655,12 @@ export default function ProjectExportPage() {
                     <div className={`w-4 h-4 flex items-center justify-center ${clip.hasVideo ? 'bg-secondary-main' : 'bg-bg-tertiary'}`}>
                       <IconVideo size={10} className={clip.hasVideo ? 'text-bg-primary' : 'text-text-muted'} />
                     </div>
+                    <div
+                      className={`w-4 h-4 flex items-center justify-center text-[10px] ${clip.hasAudio ? 'bg-primary-main text-white' : 'bg-bg-tertiary text-text-muted'}`}
+                      title={clip.hasAudio ? '有分镜音频' : '无分镜音频（保留视频原声）'}
+                    >
+                      ♪
+                    </div>
                   </div>
                 </div>
               ))}
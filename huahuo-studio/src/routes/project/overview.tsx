@@ -8,6 +8,7 @@ import { PixelProgress } from '@/components/ui/pixel-progress';
 import { PixelBadge } from '@/components/ui/pixel-badge';
 import { PixelInput } from '@/components/ui/pixel-input';
 import { PixelTextarea } from '@/components/ui/pixel-textarea';
+import { PixelSelect } from '@/components/ui/pixel-select';
 import {
   IconScript, IconCharacter, IconStoryboard, IconRender,
   IconVideo, IconEdit, IconPlay, IconBolt, IconClose,
@@ -32,6 +33,35 @@ interface StyleCategory {
   styles: StyleInfo[];
 }
 
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  imageCount: number;
+  videoSeconds: number;
+  characters: number;
+  estimatedCost: number;
+}
+
+interface ProjectUsageSummary {
+  total: UsageTotals;
+  byKind: Record<'llm' | 'image' | 'video' | 'tts', UsageTotals>;
+}
+
+interface MonthlyUsage extends UsageTotals {
+  month: string;
+}
+
+interface BudgetStatus {
+  limit: number | null;
+  mode: 'block' | 'warn';
+  spent: number;
+  remaining: number | null;
+}
+
+/** 格式化费用（元） */
+const formatCost = (cost: number) => `¥${cost.toFixed(2)}`;
+
 const emptyStats: ProjectStats = {
   script: { done: 0, total: 1 },
   characters: { done: 0, total: 0 },
@@ -121,11 +151,21 @@ export default function ProjectOverviewPage() {
   const [stats, setStats] = useState<ProjectStats>(emptyStats);
   const [isLoading, setIsLoading] = useState(true);
 
+  // 用量与费用
+  const [usage, setUsage] = useState<ProjectUsageSummary | null>(null);
+  const [monthlyUsage, setMonthlyUsage] = useState<MonthlyUsage[]>([]);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [budgetInput, setBudgetInput] = useState('');
+  const [budgetMode, setBudgetMode] = useState<'block' | 'warn'>('block');
+  const [isSavingBudget, setIsSavingBudget] = useState(false);
+
   // 编辑弹窗状态
   const [showEditModal, setShowEditModal] = useState(false);
   const [editName, setEditName] = useState('');
   const [editDescription, setEditDescription] = useState('');
   const [editStyleId, setEditStyleId] = useState('animation_anime_2d');
+  const [editNegativePrompt, setEditNegativePrompt] = useState('');
+  const [styleNegativePrompt, setStyleNegativePrompt] = useState('');
   const [isSaving, setIsSaving] = useState(false);
 
   // 风格分类数据
@@ -153,12 +193,27 @@ export default function ProjectOverviewPage() {
     loadStyles();
   }, []);
 
+  // 选中风格的默认负面提示词（作为项目负面提示词的占位提示）
+  useEffect(() => {
+    if (!showEditModal) return;
+    window.electron.invoke('style:get', editStyleId)
+      .then((style) => setStyleNegativePrompt(style?.negativePrompt || ''))
+      .catch(() => setStyleNegativePrompt(''));
+  }, [showEditModal, editStyleId]);
+
   // 打开编辑弹窗
-  const handleOpenEdit = () => {
+  const handleOpenEdit = async () => {
     if (project) {
       setEditName(project.name);
       setEditDescription(project.description || '');
       setEditStyleId(project.styleId || 'animation_anime_2d');
+      try {
+        const settings = await window.electron.invoke('project:get-settings', project.id);
+        setEditNegativePrompt(settings.negativePrompt || '');
+      } catch (error) {
+        console.error('Failed to load project settings:', error);
+        setEditNegativePrompt('');
+      }
       setShowEditModal(true);
     }
   };
@@ -174,6 +229,9 @@ export default function ProjectOverviewPage() {
         description: editDescription.trim() || undefined,
         styleId: editStyleId,
       });
+      await window.electron.invoke('project:update-settings', projectId, {
+        negativePrompt: editNegativePrompt.trim() || null,
+      });
       setShowEditModal(false);
     } catch (error) {
       console.error('Failed to update project:', error);
@@ -210,6 +268,51 @@ export default function ProjectOverviewPage() {
     loadStats();
   }, [projectId]);
 
+  // 加载用量统计
+  useEffect(() => {
+    const loadUsage = async () => {
+      if (!projectId) return;
+
+      try {
+        const [summary, monthly, budgetStatus] = await Promise.all([
+          window.electron.invoke('usage:project-summary', projectId),
+          window.electron.invoke('usage:monthly-summary', projectId),
+          window.electron.invoke('usage:budget-status', projectId),
+        ]);
+        setUsage(summary);
+        setMonthlyUsage(monthly);
+        setBudget(budgetStatus);
+        setBudgetInput(budgetStatus.limit !== null ? String(budgetStatus.limit) : '');
+        setBudgetMode(budgetStatus.mode);
+      } catch (error) {
+        console.error('Failed to load usage summary:', error);
+      }
+    };
+
+    loadUsage();
+  }, [projectId]);
+
+  // 保存项目预算（留空表示不限制）
+  const handleSaveBudget = async () => {
+    if (!projectId) return;
+
+    const limit = budgetInput.trim() ? parseFloat(budgetInput) : null;
+    if (limit !== null && (isNaN(limit) || limit < 0)) return;
+
+    setIsSavingBudget(true);
+    try {
+      await window.electron.invoke('project:update-settings', projectId, {
+        budgetLimit: limit,
+        budgetMode,
+      });
+      setBudget(await window.electron.invoke('usage:budget-status', projectId));
+    } catch (error) {
+      console.error('Failed to save budget:', error);
+    } finally {
+      setIsSavingBudget(false);
+    }
+  };
+
   if (!project) {
     return <div>项目不存在</div>;
   }
@@ -319,6 +422,128 @@ export default function ProjectOverviewPage() {
           )}
         </section>
 
+        {/* 用量与费用 */}
+        {usage && (
+          <section className="mb-8">
+            <h2 className="font-pixel text-sm text-text-secondary mb-4">用量与费用</h2>
+            <PixelCard padding="md">
+              <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-4">
+                <div>
+                  <p className="text-xs text-text-muted mb-1">预估总费用</p>
+                  <span className="font-pixel text-2xl text-primary-main">
+                    {formatCost(usage.total.estimatedCost)}
+                  </span>
+                </div>
+                <div>
+                  <p className="text-xs text-text-muted mb-1">文本 Tokens</p>
+                  <span className="font-pixel text-lg text-text-primary">
+                    {(usage.byKind.llm.inputTokens + usage.byKind.llm.outputTokens).toLocaleString()}
+                  </span>
+                  <p className="text-xs text-text-muted">{formatCost(usage.byKind.llm.estimatedCost)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-text-muted mb-1">生成图片</p>
+                  <span className="font-pixel text-lg text-text-primary">
+                    {usage.byKind.image.imageCount} 张
+                  </span>
+                  <p className="text-xs text-text-muted">{formatCost(usage.byKind.image.estimatedCost)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-text-muted mb-1">生成视频</p>
+                  <span className="font-pixel text-lg text-text-primary">
+                    {usage.byKind.video.videoSeconds} 秒
+                  </span>
+                  <p className="text-xs text-text-muted">{formatCost(usage.byKind.video.estimatedCost)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-text-muted mb-1">配音</p>
+                  <span className="font-pixel text-lg text-text-primary">
+                    {usage.byKind.tts.characters.toLocaleString()} 字
+                  </span>
+                  <p className="text-xs text-text-muted">{formatCost(usage.byKind.tts.estimatedCost)}</p>
+                </div>
+              </div>
+
+              {/* 项目预算 */}
+              <div className="mb-4 pb-4 border-b-2 border-border">
+                {budget?.limit !== null && budget?.limit !== undefined && (
+                  <div className="mb-3">
+                    <div className="flex items-center justify-between text-xs mb-1">
+                      <span className="text-text-muted">
+                        预算已用 {formatCost(budget.spent)} / {formatCost(budget.limit)}
+                      </span>
+                      {budget.spent >= budget.limit && (
+                        <PixelBadge variant="error">已达上限</PixelBadge>
+                      )}
+                    </div>
+                    <PixelProgress
+                      value={budget.limit > 0 ? Math.min(100, (budget.spent / budget.limit) * 100) : 100}
+                      variant={budget.spent >= budget.limit ? 'error' : 'primary'}
+                    />
+                  </div>
+                )}
+                <div className="flex items-end gap-3">
+                  <div className="w-40">
+                    <label className="block text-xs text-text-muted mb-1">预算上限（元）</label>
+                    <PixelInput
+                      type="number"
+                      min={0}
+                      value={budgetInput}
+                      onChange={(e) => setBudgetInput(e.target.value)}
+                      placeholder="不限制"
+                    />
+                  </div>
+                  <PixelSelect
+                    className="w-48"
+                    label="超出预算时"
+                    value={budgetMode}
+                    onChange={(value) => setBudgetMode(value as 'block' | 'warn')}
+                    options={[
+                      { value: 'block', label: '阻止生成并暂停队列' },
+                      { value: 'warn', label: '仅提示' },
+                    ]}
+                  />
+                  <PixelButton variant="secondary" size="sm" onClick={handleSaveBudget} disabled={isSavingBudget}>
+                    {isSavingBudget ? '保存中...' : '保存预算'}
+                  </PixelButton>
+                </div>
+              </div>
+
+              {monthlyUsage.length > 0 ? (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-text-muted border-b-2 border-border">
+                      <th className="text-left py-2">月份</th>
+                      <th className="text-right py-2">调用次数</th>
+                      <th className="text-right py-2">Tokens</th>
+                      <th className="text-right py-2">图片</th>
+                      <th className="text-right py-2">视频(秒)</th>
+                      <th className="text-right py-2">配音(字)</th>
+                      <th className="text-right py-2">预估费用</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {monthlyUsage.map((row) => (
+                      <tr key={row.month} className="text-text-secondary border-b border-border">
+                        <td className="py-2">{row.month}</td>
+                        <td className="text-right py-2">{row.calls}</td>
+                        <td className="text-right py-2">{(row.inputTokens + row.outputTokens).toLocaleString()}</td>
+                        <td className="text-right py-2">{row.imageCount}</td>
+                        <td className="text-right py-2">{row.videoSeconds}</td>
+                        <td className="text-right py-2">{row.characters.toLocaleString()}</td>
+                        <td className="text-right py-2">{formatCost(row.estimatedCost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-xs text-text-muted">暂无 AI 调用记录</p>
+              )}
+              <p className="text-xs text-text-muted mt-3">费用按模型公开价格估算，仅供参考</p>
+            </PixelCard>
+          </section>
+        )}
+
         {/* 快捷操作 */}
         <section className="mb-8">
           <h2 className="font-pixel text-sm text-text-secondary mb-4">快捷操作</h2>
@@ -536,6 +761,19 @@ export default function ProjectOverviewPage() {
                   </div>
                 )}
               </div>
+
+              <div>
+                <label className="block text-sm text-text-secondary mb-2">负面提示词</label>
+                <p className="text-xs text-text-muted mb-3">
+                  生成图片和视频时需要避免的内容；留空使用风格默认值，单个分镜可在分镜编辑中单独设置
+                </p>
+                <PixelTextarea
+                  value={editNegativePrompt}
+                  onChange={(e) => setEditNegativePrompt(e.target.value)}
+                  placeholder={styleNegativePrompt || '输入负面提示词（可选）'}
+                  rows={3}
+                />
+              </div>
             </div>
 
             {/* 弹窗操作 */}
@@ -9,18 +9,28 @@ import { PixelBadge } from '@/components/ui/pixel-badge';
 import { PixelLoading } from '@/components/ui/pixel-loading';
 import {
   IconPlay, IconPause, IconTrash, IconRefresh,
-  IconCheck, IconWarning, IconVideo, IconBolt, IconImage,
+  IconCheck, IconWarning, IconVideo, IconBolt, IconImage, IconChevronDown,
 } from '@/components/ui/pixel-icons';
 import { cn } from '@/lib/utils';
+import { confirmBatchBudget } from '@/lib/budget';
 
 interface RenderTask {
   id: string;
   projectId: string;
   shotId: string | null;
   type: 'image' | 'video';
-  status: 'queued' | 'rendering' | 'completed' | 'error' | 'paused';
+  status: 'queued' | 'rendering' | 'completed' | 'error' | 'paused' | 'skipped';
   progress: number;
   errorMessage: string | null;
+  attempts: number;
+  maxAttempts: number;
+  errorClass: 'transient' | 'quota' | 'content-policy' | 'auth' | 'unknown' | null;
+  nextRetryAt: string | null;
+  priority: number;
+  dependsOnTaskId: string | null;
+  remoteJobId: string | null;
+  remoteProvider: string | null;
+  remoteJobState: { videoUrl: string | null; status: string | null; pollCount: number; lastPolledAt: string | null } | null;
   startedAt: string | null;
   completedAt: string | null;
   createdAt: string;
@@ -42,20 +52,37 @@ const statusConfig = {
   completed: { label: '已完成', variant: 'success' as const },
   error: { label: '失败', variant: 'error' as const },
   paused: { label: '已暂停', variant: 'default' as const },
+  skipped: { label: '已跳过', variant: 'default' as const },
+};
+
+const errorClassLabels: Record<NonNullable<RenderTask['errorClass']>, string> = {
+  transient: '临时错误',
+  quota: '余额不足',
+  'content-policy': '内容审核',
+  auth: '密钥错误',
+  unknown: '未知错误',
 };
 
 function RenderTaskCard({
   task,
+  isWaiting = false,
   onPause,
   onResume,
   onCancel,
   onRetry,
+  onBump,
+  onMoveUp,
+  onMoveDown,
 }: {
   task: RenderTask;
+  isWaiting?: boolean;
   onPause: () => void;
   onResume: () => void;
   onCancel: () => void;
   onRetry: () => void;
+  onBump?: () => void;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
 }) {
   return (
     <PixelCard padding="md" className="mb-3">
@@ -97,12 +124,41 @@ function RenderTaskCard({
         />
       )}
 
+      {task.status === 'queued' && isWaiting && (
+        <p className="text-xs text-text-muted mb-3 bg-bg-tertiary p-2 border border-border">
+          等待同分镜的图像任务完成后开始
+        </p>
+      )}
+
+      {(task.status === 'queued' || task.status === 'rendering' || task.status === 'paused') && task.remoteJobState && (
+        <p className="text-xs text-text-muted mb-3 bg-bg-tertiary p-2 border border-border">
+          {task.remoteJobState.videoUrl
+            ? `远程视频已生成（${task.remoteProvider}），等待下载`
+            : `已提交远程任务（${task.remoteProvider}），已轮询 ${task.remoteJobState.pollCount} 次`}
+          ，重启后将继续而不会重新提交
+        </p>
+      )}
+
+      {task.status === 'skipped' && task.errorMessage && (
+        <p className="text-xs text-text-muted mb-3 bg-bg-tertiary p-2 border border-border">
+          {task.errorMessage}
+        </p>
+      )}
+
       {task.status === 'error' && task.errorMessage && (
         <p className="text-xs text-status-error mb-3 bg-status-error/10 p-2 border border-status-error">
+          {task.errorClass && `[${errorClassLabels[task.errorClass]}] `}
           {task.errorMessage}
         </p>
       )}
 
+      {task.status === 'queued' && task.nextRetryAt && (
+        <p className="text-xs text-status-warning mb-3 bg-status-warning/10 p-2 border border-status-warning">
+          第 {task.attempts}/{task.maxAttempts} 次执行失败，将于 {new Date(task.nextRetryAt).toLocaleTimeString()} 自动重试
+          {task.errorMessage && `：${task.errorMessage}`}
+        </p>
+      )}
+
       <div className="flex items-center justify-between">
         <span className="text-xs text-text-muted">
           {task.completedAt
@@ -110,8 +166,24 @@ function RenderTaskCard({
             : task.startedAt
             ? `开始于 ${new Date(task.startedAt).toLocaleTimeString()}`
             : `创建于 ${new Date(task.createdAt).toLocaleTimeString()}`}
+          {task.attempts > 1 && ` · 第 ${task.attempts} 次执行`}
         </span>
         <div className="flex items-center gap-1">
+          {task.status === 'queued' && onBump && (
+            <PixelButton variant="ghost" size="icon" shadow={false} onClick={onBump} title="置顶">
+              <IconBolt size={14} />
+            </PixelButton>
+          )}
+          {task.status === 'queued' && onMoveUp && (
+            <PixelButton variant="ghost" size="icon" shadow={false} onClick={onMoveUp} title="上移">
+              <IconChevronDown size={14} className="rotate-180" />
+            </PixelButton>
+          )}
+          {task.status === 'queued' && onMoveDown && (
+            <PixelButton variant="ghost" size="icon" shadow={false} onClick={onMoveDown} title="下移">
+              <IconChevronDown size={14} />
+            </PixelButton>
+          )}
           {task.status === 'rendering' && (
             <PixelButton variant="ghost" size="icon" shadow={false} onClick={onPause}>
               <IconPause size={14} />
@@ -122,7 +194,7 @@ function RenderTaskCard({
               <IconPlay size={14} />
             </PixelButton>
           )}
-          {task.status === 'error' && (
+          {(task.status === 'error' || task.status === 'skipped') && (
             <PixelButton variant="ghost" size="icon" shadow={false} onClick={onRetry}>
               <IconRefresh size={14} />
             </PixelButton>
@@ -211,6 +283,14 @@ export default function ProjectRenderPage() {
     queued: tasks.filter((t) => t.status === 'queued').length,
     error: tasks.filter((t) => t.status === 'error').length,
     paused: tasks.filter((t) => t.status === 'paused').length,
+    skipped: tasks.filter((t) => t.status === 'skipped').length,
+  };
+
+  // 前置任务尚未完成的任务（流水线中等待图像的视频任务）
+  const isWaitingForDependency = (task: RenderTask) => {
+    if (!task.dependsOnTaskId) return false;
+    const dependency = tasks.find((t) => t.id === task.dependsOnTaskId);
+    return !!dependency && dependency.status !== 'completed';
   };
 
   // 获取未渲染图像的分镜
@@ -228,6 +308,11 @@ export default function ProjectRenderPage() {
     try {
       setIsCreatingBatch(true);
       const shotIds = shotsWithoutImage.map(s => s.id);
+      const budget = await confirmBatchBudget(projectId, { imageCount: shotIds.length });
+      if (!budget.allowed) {
+        showMessage('error', budget.message || '超出项目预算');
+        return;
+      }
       await window.electron.invoke('render:create-batch', projectId, shotIds, 'image');
       await loadData();
       showMessage('success', `已添加 ${shotIds.length} 个图像渲染任务`);
@@ -239,6 +324,36 @@ export default function ProjectRenderPage() {
     }
   };
 
+  // 图像 → 视频流水线：为所有无视频的分镜创建关联任务，图像完成后自动生成视频
+  const shotsForPipeline = shots.filter(s => !s.videoPath);
+  const handleRenderPipeline = async () => {
+    if (shotsForPipeline.length === 0) {
+      showMessage('info', '所有分镜都已有视频');
+      return;
+    }
+
+    try {
+      setIsCreatingBatch(true);
+      const shotIds = shotsForPipeline.map(s => s.id);
+      const budget = await confirmBatchBudget(projectId, {
+        imageCount: shotsForPipeline.filter(s => !s.imagePath).length,
+        videoCount: shotIds.length,
+      });
+      if (!budget.allowed) {
+        showMessage('error', budget.message || '超出项目预算');
+        return;
+      }
+      await window.electron.invoke('render:create-batch', projectId, shotIds, 'pipeline');
+      await loadData();
+      showMessage('success', `已为 ${shotIds.length} 个分镜添加图像 → 视频任务`);
+    } catch (error) {
+      console.error('创建流水线任务失败:', error);
+      showMessage('error', '创建流水线任务失败');
+    } finally {
+      setIsCreatingBatch(false);
+    }
+  };
+
   // 渲染全部视频
   const handleRenderAllVideos = async () => {
     if (shotsWithoutVideo.length === 0) {
@@ -249,6 +364,11 @@ export default function ProjectRenderPage() {
     try {
       setIsCreatingBatch(true);
       const shotIds = shotsWithoutVideo.map(s => s.id);
+      const budget = await confirmBatchBudget(projectId, { videoCount: shotIds.length });
+      if (!budget.allowed) {
+        showMessage('error', budget.message || '超出项目预算');
+        return;
+      }
       await window.electron.invoke('render:create-batch', projectId, shotIds, 'video');
       await loadData();
       showMessage('success', `已添加 ${shotIds.length} 个视频渲染任务`);
@@ -278,7 +398,7 @@ export default function ProjectRenderPage() {
       await loadData();
     } catch (error) {
       console.error('恢复失败:', error);
-      showMessage('error', '恢复失败');
+      showMessage('error', error instanceof Error && error.message.includes('预算') ? '项目已达到预算上限，请先调整预算' : '恢复失败');
     }
   };
 
@@ -294,11 +414,59 @@ export default function ProjectRenderPage() {
     }
   };
 
+  // 排队任务按执行顺序排列：优先级高的在前，相同优先级按分镜顺序
+  const queuedTasks = tasks
+    .filter((t) => t.status === 'queued')
+    .sort((a, b) =>
+      b.priority - a.priority ||
+      (a.shotIndex ?? Infinity) - (b.shotIndex ?? Infinity) ||
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+
+  // 置顶任务
+  const handleBump = async (taskId: string) => {
+    try {
+      await window.electron.invoke('render:bump', taskId);
+      await loadData();
+    } catch (error) {
+      console.error('置顶失败:', error);
+      showMessage('error', '置顶失败');
+    }
+  };
+
+  // 调整排队顺序
+  const handleMove = async (taskId: string, direction: 'up' | 'down') => {
+    const index = queuedTasks.findIndex((t) => t.id === taskId);
+    const targetIndex = direction === 'up' ? index - 1 : index + 1;
+    if (index < 0 || targetIndex < 0 || targetIndex >= queuedTasks.length) return;
+
+    const ordered = queuedTasks.map((t) => t.id);
+    [ordered[index], ordered[targetIndex]] = [ordered[targetIndex], ordered[index]];
+
+    try {
+      await window.electron.invoke('render:reorder', projectId, ordered);
+      await loadData();
+    } catch (error) {
+      console.error('调整顺序失败:', error);
+      showMessage('error', '调整顺序失败');
+    }
+  };
+
   // 重试任务
   const handleRetry = async (task: RenderTask) => {
     if (!task.shotId) return;
 
     try {
+      // 先检查预算，避免删除旧任务后无法重新创建
+      const budget = await confirmBatchBudget(
+        projectId,
+        task.type === 'image' ? { imageCount: 1 } : { videoCount: 1 }
+      );
+      if (!budget.allowed) {
+        showMessage('error', budget.message || '超出项目预算');
+        return;
+      }
+
       // 删除失败的任务
       await window.electron.invoke('render:cancel', task.id);
       // 创建新任务
@@ -364,6 +532,17 @@ export default function ProjectRenderPage() {
             >
               渲染视频 ({shotsWithoutVideo.length})
             </PixelButton>
+            <PixelButton
+              variant="primary"
+              size="sm"
+              leftIcon={<IconPlay size={14} />}
+              onClick={handleRenderPipeline}
+              loading={isCreatingBatch}
+              disabled={shotsForPipeline.length === 0}
+              title="先生成图像，每个分镜的图像完成后立即生成视频"
+            >
+              图像 + 视频 ({shotsForPipeline.length})
+            </PixelButton>
           </div>
         }
       />
@@ -396,7 +575,9 @@ export default function ProjectRenderPage() {
             </div>
             <div>
               <div className="text-2xl font-pixel text-status-error">{stats.error}</div>
-              <div className="text-xs text-text-muted">失败</div>
+              <div className="text-xs text-text-muted">
+                失败{stats.skipped > 0 && ` · 跳过 ${stats.skipped}`}
+              </div>
             </div>
           </div>
         </PixelCard>
@@ -439,22 +620,27 @@ export default function ProjectRenderPage() {
               <h2 className="font-pixel text-sm text-text-secondary mb-4">
                 进行中 & 排队中 ({stats.rendering + stats.queued + stats.paused})
               </h2>
-              {tasks
-                .filter((t) => ['rendering', 'queued', 'paused'].includes(t.status))
-                .sort((a, b) => {
-                  const order = { rendering: 0, paused: 1, queued: 2 };
-                  return order[a.status as keyof typeof order] - order[b.status as keyof typeof order];
-                })
-                .map((task) => (
+              {[
+                ...tasks.filter((t) => t.status === 'rendering'),
+                ...tasks.filter((t) => t.status === 'paused'),
+                ...queuedTasks,
+              ].map((task) => {
+                const queueIndex = queuedTasks.indexOf(task);
+                return (
                   <RenderTaskCard
                     key={task.id}
                     task={task}
+                    isWaiting={isWaitingForDependency(task)}
                     onPause={() => handlePause(task.id)}
                     onResume={() => handleResume(task.id)}
                     onCancel={() => handleCancel(task.id)}
                     onRetry={() => handleRetry(task)}
+                    onBump={queueIndex > 0 ? () => handleBump(task.id) : undefined}
+                    onMoveUp={queueIndex > 0 ? () => handleMove(task.id, 'up') : undefined}
+                    onMoveDown={queueIndex >= 0 && queueIndex < queuedTasks.length - 1 ? () => handleMove(task.id, 'down') : undefined}
                   />
-                ))}
+                );
+              })}
               {stats.rendering + stats.queued + stats.paused === 0 && (
                 <PixelCard padding="lg" className="text-center">
                   <p className="text-text-muted">暂无进行中的任务</p>
@@ -464,10 +650,10 @@ export default function ProjectRenderPage() {
 
             <div>
               <h2 className="font-pixel text-sm text-text-secondary mb-4">
-                已完成 & 失败 ({stats.completed + stats.error})
+                已完成 & 失败 ({stats.completed + stats.error + stats.skipped})
               </h2>
               {tasks
-                .filter((t) => ['completed', 'error'].includes(t.status))
+                .filter((t) => ['completed', 'error', 'skipped'].includes(t.status))
                 .sort((a, b) => new Date(b.completedAt || b.createdAt).getTime() - new Date(a.completedAt || a.createdAt).getTime())
                 .map((task) => (
                   <RenderTaskCard
@@ -479,7 +665,7 @@ export default function ProjectRenderPage() {
                     onRetry={() => handleRetry(task)}
                   />
                 ))}
-              {stats.completed + stats.error === 0 && (
+              {stats.completed + stats.error + stats.skipped === 0 && (
                 <PixelCard padding="lg" className="text-center">
                   <p className="text-text-muted">暂无已完成的任务</p>
                 </PixelCard>
@@ -16,6 +16,7 @@ import {
 import { cn, getLocalFileUrl } from '@/lib/utils';
 import { useTaskNotification } from '@/contexts/TaskNotificationContext';
 import { PixelModal } from '@/components/ui/pixel-modal';
+import { confirmBatchBudget } from '@/lib/budget';
 
 interface Scene {
   id: string;
@@ -30,6 +31,7 @@ interface Scene {
   lighting: string | null;
   atmosphere: string | null;
   imagePath: string | null;
+  generatedImages: string[];
   createdAt: string;
   updatedAt: string;
 }
@@ -142,6 +144,10 @@ export default function ProjectScenesPage() {
   const [editPrompt, setEditPrompt] = useState('');
   const [isEditingImage, setIsEditingImage] = useState(false);
 
+  // 参考图版本对比
+  const [compareImage, setCompareImage] = useState<string | null>(null);
+  const [isSelectingImage, setIsSelectingImage] = useState(false);
+
   // 批量生成状态
   const [isBatchGenerating, setIsBatchGenerating] = useState(false);
   const [batchProgress, setBatchProgress] = useState<{
@@ -372,6 +378,24 @@ export default function ProjectScenesPage() {
     }
   };
 
+  // 设为当前场景参考图（分镜生成时使用）
+  const handleSelectImage = async (imagePath: string) => {
+    if (!selectedId) return;
+
+    try {
+      setIsSelectingImage(true);
+      await window.electron.invoke('scene:set-image', selectedId, imagePath);
+      await loadScenes();
+      setCompareImage(null);
+      showMessage('success', '已设为场景参考图');
+    } catch (error) {
+      console.error('设置场景参考图失败:', error);
+      showMessage('error', '设置场景参考图失败');
+    } finally {
+      setIsSelectingImage(false);
+    }
+  };
+
   // 清理重复场景
   const handleCleanupDuplicates = async () => {
     try {
@@ -400,6 +424,12 @@ export default function ProjectScenesPage() {
       return;
     }
 
+    const budget = await confirmBatchBudget(projectId, { imageCount: toGenerate.length });
+    if (!budget.allowed) {
+      showMessage('error', budget.message || '超出项目预算');
+      return;
+    }
+
     const taskId = addTask({
       type: 'batch-scene',
       status: 'running',
@@ -712,6 +742,34 @@ export default function ProjectScenesPage() {
                         提示：请先填写场景描述才能生成参考图
                       </p>
                     )}
+
+                    {/* 历史参考图 */}
+                    {!isCreating && selectedScene && selectedScene.generatedImages.length > 1 && (
+                      <div className="mt-4">
+                        <h4 className="text-xs font-pixel text-text-secondary mb-2">历史参考图（点击对比）</h4>
+                        <div className="grid grid-cols-4 gap-2">
+                          {[...selectedScene.generatedImages].reverse().map((imagePath, i) => (
+                            <div
+                              key={imagePath}
+                              onClick={() => setCompareImage(imagePath)}
+                              className={cn(
+                                'aspect-video bg-bg-tertiary border-2 border-black cursor-pointer overflow-hidden hover:opacity-80 transition-opacity relative',
+                                selectedScene.imagePath === imagePath && 'ring-2 ring-primary-main'
+                              )}
+                            >
+                              <img
+                                src={getLocalFileUrl(imagePath) || ''}
+                                alt={`参考图 ${i + 1}`}
+                                className="w-full h-full object-cover"
+                              />
+                              <span className="absolute bottom-0 left-0 right-0 bg-black/60 text-white text-[10px] text-center py-0.5">
+                                v{selectedScene.generatedImages.length - i}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   {/* 右侧：场景信息 */}
@@ -905,6 +963,49 @@ export default function ProjectScenesPage() {
           </div>
         </div>
       </PixelModal>
+
+      {/* 参考图对比模态框 */}
+      <PixelModal
+        isOpen={!!compareImage}
+        onClose={() => !isSelectingImage && setCompareImage(null)}
+        title="参考图对比"
+        size="lg"
+        footer={
+          <>
+            <PixelButton variant="ghost" onClick={() => setCompareImage(null)} disabled={isSelectingImage}>
+              关闭
+            </PixelButton>
+            <PixelButton
+              variant="primary"
+              onClick={() => compareImage && handleSelectImage(compareImage)}
+              loading={isSelectingImage}
+              disabled={compareImage === selectedScene?.imagePath}
+              leftIcon={<IconCheck size={14} />}
+            >
+              设为参考图
+            </PixelButton>
+          </>
+        }
+      >
+        <div className="grid grid-cols-2 gap-4">
+          {[
+            { label: '当前参考图', path: selectedScene?.imagePath },
+            { label: '所选版本', path: compareImage },
+          ].map(({ label, path }) => (
+            <div key={label}>
+              <label className="block text-xs font-pixel text-text-secondary mb-2">{label}</label>
+              <div className="aspect-video bg-bg-tertiary border-2 border-black flex items-center justify-center overflow-hidden">
+                {path ? (
+                  <img src={getLocalFileUrl(path) || ''} alt={label} className="w-full h-full object-contain" />
+                ) : (
+                  <IconImage size={32} className="text-text-muted" />
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-text-muted mt-3">分镜生成图像时会使用当前选中的场景参考图</p>
+      </PixelModal>
     </>
   );
 }
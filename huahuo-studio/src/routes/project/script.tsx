@@ -519,7 +519,7 @@ export default function ProjectScriptPage() {
       // 先保存剧本
       await window.electron.invoke('script:save', projectId, rawScript);
 
-      const result: Phase1Result = await window.electron.invoke('script:parse-phase1', rawScript);
+      const result: Phase1Result = await window.electron.invoke('script:parse-phase1', rawScript, projectId);
       setPhase1Result(result);
       setParseStage('confirm');
 
@@ -547,7 +547,7 @@ export default function ProjectScriptPage() {
       setParseProgress(null); // 清除之前的进度
       showMessage('info', 'AI 正在生成详细分镜...');
 
-      const shots: EnhancedShot[] = await window.electron.invoke('script:parse-phase2', rawScript, phase1Result);
+      const shots: EnhancedShot[] = await window.electron.invoke('script:parse-phase2', rawScript, phase1Result, projectId);
       setPhase2Shots(shots);
       setParseStage('complete');
 
@@ -557,7 +557,7 @@ export default function ProjectScriptPage() {
       showMessage('error', error instanceof Error ? error.message : '生成分镜失败');
       setParseStage('confirm');
     }
-  }, [rawScript, phase1Result]);
+  }, [rawScript, phase1Result, projectId]);
 
   // 仅保存角色和场景（跳过分镜生成）
   const handleSaveCharactersAndScenes = useCallback(async () => {
@@ -797,6 +797,8 @@ export default function ProjectScriptPage() {
             dialogue: shot.dialogue,
             characterId: characterIds.length > 0 ? characterIds[0] : undefined, // 向后兼容
             characterIds: characterIds.length > 0 ? characterIds : undefined, // 多角色数组
+            speakerId: shot.character ? characterMap.get(shot.character) : undefined,
+            targetCharacterId: shot.targetCharacter ? characterMap.get(shot.targetCharacter) : undefined,
             sceneId: dbSceneId,
             duration: shot.duration || 5,
             cameraType: shot.cameraType || '中景',
@@ -806,6 +808,8 @@ export default function ProjectScriptPage() {
             timeOfDay: shot.timeOfDay,
             props: shot.props,
             action: shot.action,
+            tone: shot.tone,
+            emotion: shot.emotion,
           });
           completedTasks++;
           setSaveProgress({
@@ -12,10 +12,11 @@ import { PixelModal } from '@/components/ui/pixel-modal';
 import {
   IconPlus, IconRefresh, IconPlay, IconImage,
   IconChevronLeft, IconChevronRight, IconSave, IconVideo,
-  IconTrash, IconCheck, IconWarning, IconEdit, IconMagic,
+  IconTrash, IconCheck, IconWarning, IconEdit, IconMagic, IconVolume,
 } from '@/components/ui/pixel-icons';
 import { cn, getLocalFileUrl } from '@/lib/utils';
 import { useTaskNotification } from '@/contexts/TaskNotificationContext';
+import { confirmBatchBudget } from '@/lib/budget';
 
 interface Shot {
   id: string;
@@ -26,6 +27,8 @@ interface Shot {
   dialogue: string | null;
   characterId: string | null; // 向后兼容：单角色
   characterIds: string[] | null; // 新增：多角色ID数组
+  speakerId: string | null; // 说话角色
+  targetCharacterId: string | null; // 对话对象
   duration: number;
   cameraType: string | null;
   mood: string | null;
@@ -34,13 +37,31 @@ interface Shot {
   timeOfDay: string | null;
   props: string | null;
   action: string | null;
+  tone: string | null;
+  emotion: string | null;
+  negativePrompt: string | null;
+  imagePromptOverride: string | null;
+  videoPromptOverride: string | null;
+  promptOverrideMode: 'replace' | 'append';
   imagePath: string | null;
   videoPath: string | null;
+  audioPath: string | null;
   status: 'empty' | 'generating' | 'ready' | 'error';
   createdAt: string;
   updatedAt: string;
 }
 
+interface ShotTake {
+  id: string;
+  shotId: string;
+  kind: 'image' | 'video' | 'audio';
+  path: string;
+  prompt: string | null;
+  model: string | null;
+  params: Record<string, unknown> | null;
+  createdAt: string;
+}
+
 interface Scene {
   id: string;
   name: string;
@@ -57,6 +78,31 @@ interface Character {
   role: string;
 }
 
+interface PromptTemplate {
+  key: string;
+  name: string;
+  description: string;
+  variables: Array<{ name: string; description: string }>;
+  content: string;
+  source: 'default' | 'global' | 'project';
+  defaultContent: string;
+}
+
+interface ShotPromptPreview {
+  kind: 'image' | 'video';
+  provider: string;
+  prompt: string;
+  negativePrompt: string | null;
+  references: Array<{ name: string; role: string; view: string | null; imagePath: string }>;
+  sourceImage: string | null;
+}
+
+const templateSourceLabels: Record<PromptTemplate['source'], string> = {
+  default: '内置默认',
+  global: '全局模板',
+  project: '项目模板',
+};
+
 const statusConfig = {
   empty: { color: 'bg-bg-tertiary', label: '待生成', variant: 'default' as const },
   generating: { color: 'bg-status-warning', label: '生成中', variant: 'warning' as const },
@@ -79,6 +125,26 @@ const cameraTypes = [
   { value: 'pov', label: '主观' },
 ];
 
+const referenceViewLabels: Record<string, string> = {
+  avatar: '头像',
+  front: '正面',
+  side: '侧面',
+  back: '背面',
+};
+
+/** 图像版本使用的参考图说明 */
+function formatTakeReferences(take: ShotTake): string {
+  const references = take.params?.references;
+  if (!Array.isArray(references) || references.length === 0) return '';
+  const labels = references.map((ref: string | { name: string; role: string; view: string | null }) => {
+    // 早期版本只记录了角色名
+    if (typeof ref === 'string') return ref;
+    if (ref.role === 'scene') return `场景【${ref.name}】`;
+    return ref.view ? `${ref.name}(${referenceViewLabels[ref.view] || ref.view})` : ref.name;
+  });
+  return `\n参考图: ${labels.join('、')}`;
+}
+
 const moods = [
   { value: '', label: '默认' },
   { value: '平静', label: '平静' },
@@ -176,10 +242,18 @@ export default function ProjectStoryboardPage() {
     description: '',
     dialogue: '',
     characterIds: [] as string[], // 改为数组，支持多角色
+    speakerId: '',
+    targetCharacterId: '',
     sceneId: '',
     duration: 3,
     cameraType: '',
     mood: '',
+    tone: '',
+    emotion: '',
+    negativePrompt: '',
+    imagePromptOverride: '',
+    videoPromptOverride: '',
+    promptOverrideMode: 'append' as 'replace' | 'append',
   });
 
   // 加载状态
@@ -188,6 +262,7 @@ export default function ProjectStoryboardPage() {
   const [isCreating, setIsCreating] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
+  const [isGeneratingVoice, setIsGeneratingVoice] = useState(false);
   const [isGeneratingVideo, setIsGeneratingVideo] = useState(false);
   const [generationProgress, setGenerationProgress] = useState(0);
 
@@ -196,8 +271,28 @@ export default function ProjectStoryboardPage() {
   const [editPrompt, setEditPrompt] = useState('');
   const [isEditingImage, setIsEditingImage] = useState(false);
 
+  // 最终提示词预览（基于已保存的分镜内容）
+  const [promptPreviewKind, setPromptPreviewKind] = useState<'image' | 'video' | null>(null);
+  const [promptPreview, setPromptPreview] = useState<ShotPromptPreview | null>(null);
+  const [isLoadingPromptPreview, setIsLoadingPromptPreview] = useState(false);
+
+  // 提示词模板编辑（scope 为 project 时保存为当前项目的覆盖模板）
+  const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
+  const [templateScope, setTemplateScope] = useState<'project' | 'global'>('project');
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [templateKey, setTemplateKey] = useState('shot_image');
+  const [templateContent, setTemplateContent] = useState('');
+  const [templatePreview, setTemplatePreview] = useState<{ prompt: string; error?: string } | null>(null);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+
+  // 历史版本
+  const [takes, setTakes] = useState<ShotTake[]>([]);
+  const [compareTake, setCompareTake] = useState<ShotTake | null>(null);
+  const [isRestoringTake, setIsRestoringTake] = useState(false);
+
   // 批量生成状态
   const [isBatchGenerating, setIsBatchGenerating] = useState(false);
+  const [batchTitle, setBatchTitle] = useState('');
   const [batchProgress, setBatchProgress] = useState<{
     total: number;
     completed: number;
@@ -247,6 +342,21 @@ export default function ProjectStoryboardPage() {
   // 选中的分镜
   const selectedShot = shots.find((s) => s.id === selectedId);
 
+  // 加载选中分镜的历史版本（当前图像/视频变化时刷新）
+  useEffect(() => {
+    if (!selectedId) {
+      setTakes([]);
+      return;
+    }
+
+    window.electron.invoke('storyboard:list-takes', selectedId)
+      .then((result) => setTakes(result || []))
+      .catch((error) => console.error('加载历史版本失败:', error));
+  }, [selectedId, selectedShot?.imagePath, selectedShot?.videoPath]);
+
+  const imageTakes = takes.filter((t) => t.kind === 'image');
+  const videoTakes = takes.filter((t) => t.kind === 'video');
+
   // 当选中分镜改变时，更新表单
   useEffect(() => {
     if (selectedShot) {
@@ -257,10 +367,18 @@ export default function ProjectStoryboardPage() {
         description: selectedShot.description,
         dialogue: selectedShot.dialogue || '',
         characterIds: charIds,
+        speakerId: selectedShot.speakerId || '',
+        targetCharacterId: selectedShot.targetCharacterId || '',
         sceneId: selectedShot.sceneId || '',
         duration: selectedShot.duration,
         cameraType: selectedShot.cameraType || '',
         mood: selectedShot.mood || '',
+        tone: selectedShot.tone || '',
+        emotion: selectedShot.emotion || '',
+        negativePrompt: selectedShot.negativePrompt || '',
+        imagePromptOverride: selectedShot.imagePromptOverride || '',
+        videoPromptOverride: selectedShot.videoPromptOverride || '',
+        promptOverrideMode: selectedShot.promptOverrideMode || 'append',
       });
     }
   }, [selectedShot]);
@@ -312,10 +430,19 @@ export default function ProjectStoryboardPage() {
         description: editForm.description,
         dialogue: editForm.dialogue || null,
         characterIds: editForm.characterIds.length > 0 ? editForm.characterIds : null, // 改为多角色
+        // 说话角色和对话对象需在已选角色中
+        speakerId: editForm.characterIds.includes(editForm.speakerId) ? editForm.speakerId : null,
+        targetCharacterId: editForm.characterIds.includes(editForm.targetCharacterId) ? editForm.targetCharacterId : null,
         sceneId: editForm.sceneId || null,
         duration: editForm.duration,
         cameraType: editForm.cameraType || null,
         mood: editForm.mood || null,
+        tone: editForm.tone.trim() || null,
+        emotion: editForm.emotion.trim() || null,
+        negativePrompt: editForm.negativePrompt.trim() || null,
+        imagePromptOverride: editForm.imagePromptOverride.trim() || null,
+        videoPromptOverride: editForm.videoPromptOverride.trim() || null,
+        promptOverrideMode: editForm.promptOverrideMode,
       });
 
       await loadData();
@@ -427,6 +554,165 @@ export default function ProjectStoryboardPage() {
     }
   };
 
+  // 选择分镜音频（配音、音效等，导出时与视频原声混合）
+  const handleSelectAudio = async () => {
+    if (!selectedId) return;
+
+    try {
+      const result = await window.electron.invoke('file:select', {
+        title: '选择分镜音频',
+        filters: [{ name: '音频文件', extensions: ['mp3', 'wav', 'm4a', 'aac', 'ogg', 'flac'] }],
+      });
+      if (!result) return;
+
+      await window.electron.invoke('storyboard:set-audio', selectedId, result.path);
+      await loadData();
+      showMessage('success', '分镜音频已设置');
+    } catch (error) {
+      console.error('设置分镜音频失败:', error);
+      showMessage('error', error instanceof Error ? error.message : '设置分镜音频失败');
+    }
+  };
+
+  // 为台词生成配音（替换当前分镜音频，每次生成的配音保留为历史版本）
+  const handleGenerateVoice = async () => {
+    if (!selectedId || !selectedShot) return;
+    if (selectedShot.audioPath && !confirm('生成的配音将替换当前分镜音频，是否继续？')) return;
+
+    try {
+      setIsGeneratingVoice(true);
+      await window.electron.invoke('storyboard:generate-voice', selectedId);
+      await loadData();
+      showMessage('success', '配音生成成功');
+    } catch (error) {
+      console.error('配音生成失败:', error);
+      showMessage('error', error instanceof Error ? error.message : '配音生成失败');
+    } finally {
+      setIsGeneratingVoice(false);
+    }
+  };
+
+  const handleRemoveAudio = async () => {
+    if (!selectedId) return;
+
+    try {
+      await window.electron.invoke('storyboard:set-audio', selectedId, null);
+      await loadData();
+    } catch (error) {
+      console.error('移除分镜音频失败:', error);
+      showMessage('error', '移除分镜音频失败');
+    }
+  };
+
+  // 预览分镜生成时发送的最终提示词和参考图
+  const openPromptPreview = async (kind: 'image' | 'video') => {
+    if (!selectedId) return;
+
+    setPromptPreviewKind(kind);
+    setPromptPreview(null);
+    try {
+      setIsLoadingPromptPreview(true);
+      setPromptPreview(await window.electron.invoke('storyboard:preview-prompt', selectedId, kind));
+    } catch (error) {
+      console.error('预览提示词失败:', error);
+      showMessage('error', error instanceof Error ? error.message : '预览提示词失败');
+      setPromptPreviewKind(null);
+    } finally {
+      setIsLoadingPromptPreview(false);
+    }
+  };
+
+  // 加载提示词模板，并将编辑内容设为当前模板的生效内容
+  const loadTemplates = useCallback(async (scope: 'project' | 'global', key: string) => {
+    try {
+      const result: PromptTemplate[] = await window.electron.invoke(
+        'prompt-template:list',
+        scope === 'project' ? projectId : null
+      );
+      setTemplates(result || []);
+      setTemplateContent(result?.find((t) => t.key === key)?.content || '');
+    } catch (error) {
+      console.error('加载提示词模板失败:', error);
+      showMessage('error', '加载提示词模板失败');
+    }
+  }, [projectId]);
+
+  const openTemplateModal = () => {
+    setTemplatePreview(null);
+    setIsTemplateModalOpen(true);
+    loadTemplates(templateScope, templateKey);
+  };
+
+  const handleTemplateScopeChange = (scope: 'project' | 'global') => {
+    setTemplateScope(scope);
+    loadTemplates(scope, templateKey);
+  };
+
+  const handleTemplateKeyChange = (key: string) => {
+    setTemplateKey(key);
+    setTemplateContent(templates.find((t) => t.key === key)?.content || '');
+  };
+
+  // 编辑模板时实时预览最终提示词（使用当前选中的分镜）
+  useEffect(() => {
+    if (!isTemplateModalOpen || !templateContent.trim()) {
+      setTemplatePreview(null);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      window.electron.invoke('prompt-template:preview', projectId, templateKey, templateContent, selectedId)
+        .then((prompt: string) => setTemplatePreview({ prompt }))
+        .catch((error: unknown) => setTemplatePreview({
+          prompt: '',
+          error: error instanceof Error ? error.message : '预览失败',
+        }));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [isTemplateModalOpen, projectId, templateKey, templateContent, selectedId]);
+
+  const handleSaveTemplate = async () => {
+    try {
+      setIsSavingTemplate(true);
+      await window.electron.invoke(
+        'prompt-template:save',
+        templateKey,
+        templateContent,
+        templateScope === 'project' ? projectId : null
+      );
+      await loadTemplates(templateScope, templateKey);
+      showMessage('success', templateScope === 'project' ? '项目模板已保存' : '全局模板已保存');
+    } catch (error) {
+      console.error('保存提示词模板失败:', error);
+      showMessage('error', error instanceof Error ? error.message : '保存提示词模板失败');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const handleResetTemplate = async () => {
+    const fallback = templateScope === 'project' ? '全局模板' : '内置默认模板';
+    if (!confirm(`确定要重置此模板吗？重置后将使用${fallback}。`)) return;
+
+    try {
+      setIsSavingTemplate(true);
+      await window.electron.invoke(
+        'prompt-template:reset',
+        templateKey,
+        templateScope === 'project' ? projectId : null
+      );
+      await loadTemplates(templateScope, templateKey);
+      showMessage('success', '模板已重置');
+    } catch (error) {
+      console.error('重置提示词模板失败:', error);
+      showMessage('error', error instanceof Error ? error.message : '重置提示词模板失败');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const currentTemplate = templates.find((t) => t.key === templateKey);
+
   // 生成视频
   const handleGenerateVideo = async () => {
     if (!selectedId || !selectedShot) return;
@@ -473,6 +759,24 @@ export default function ProjectStoryboardPage() {
     }
   };
 
+  // 恢复历史版本
+  const handleRestoreTake = async (take: ShotTake) => {
+    if (!selectedId) return;
+
+    try {
+      setIsRestoringTake(true);
+      await window.electron.invoke('storyboard:select-take', selectedId, take.id);
+      await loadData();
+      setCompareTake(null);
+      showMessage('success', take.kind === 'image' ? '已恢复该图像版本' : '已恢复该视频版本');
+    } catch (error) {
+      console.error('恢复版本失败:', error);
+      showMessage('error', '恢复版本失败');
+    } finally {
+      setIsRestoringTake(false);
+    }
+  };
+
   // 移动分镜
   const handleMove = async (direction: 'left' | 'right') => {
     if (!selectedShot) return;
@@ -513,6 +817,12 @@ export default function ProjectStoryboardPage() {
       return;
     }
 
+    const budget = await confirmBatchBudget(projectId, { imageCount: toGenerate.length });
+    if (!budget.allowed) {
+      showMessage('error', budget.message || '超出项目预算');
+      return;
+    }
+
     const taskId = addTask({
       type: 'batch-shot',
       status: 'running',
@@ -528,6 +838,7 @@ export default function ProjectStoryboardPage() {
 
     try {
       setIsBatchGenerating(true);
+      setBatchTitle('批量生成分镜参考图');
       setBatchProgress({ total: toGenerate.length, completed: 0, errors: 0, current: null });
 
       // 监听进度
@@ -575,6 +886,81 @@ export default function ProjectStoryboardPage() {
     }
   };
 
+  // 一键为所有有台词的分镜生成配音
+  const handleGenerateAllVoices = async () => {
+    const toGenerate = shots.filter(s => s.dialogue?.trim() && !s.audioPath);
+
+    if (toGenerate.length === 0) {
+      showMessage('info', '没有需要配音的分镜');
+      return;
+    }
+
+    const ttsCharacters = toGenerate.reduce((sum, s) => sum + (s.dialogue?.trim().length || 0), 0);
+    const budget = await confirmBatchBudget(projectId, { ttsCharacters });
+    if (!budget.allowed) {
+      showMessage('error', budget.message || '超出项目预算');
+      return;
+    }
+
+    const taskId = addTask({
+      type: 'batch-shot',
+      status: 'running',
+      title: '批量生成分镜配音',
+      message: `准备为 ${toGenerate.length} 个分镜配音...`,
+      total: toGenerate.length,
+      completed: 0,
+      errors: 0,
+      navigateTo: `/project/${projectId}/storyboard`,
+    });
+
+    showMessage('info', '任务已开始，请留意左下角任务进度提醒');
+
+    try {
+      setIsBatchGenerating(true);
+      setBatchTitle('批量生成分镜配音');
+      setBatchProgress({ total: toGenerate.length, completed: 0, errors: 0, current: null });
+
+      const progressHandler = (...args: unknown[]) => {
+        const data = args[0] as { total: number; completed: number; errors: number; current: string | null };
+        setBatchProgress(data);
+        updateTask(taskId, {
+          completed: data.completed,
+          errors: data.errors,
+          message: data.current ? `正在配音: ${data.current}` : `${data.completed}/${data.total} 完成`,
+        });
+      };
+      window.electron.on('storyboard:batch-progress', progressHandler);
+
+      const result = await window.electron.invoke('storyboard:generate-all-voices', projectId, false) as {
+        generated: number;
+        skipped: number;
+        errors: number;
+        message: string;
+      };
+
+      window.electron.off('storyboard:batch-progress', progressHandler);
+      await loadData();
+
+      if (result.errors > 0) {
+        errorTask(taskId, result.message);
+        showMessage('error', result.message);
+      } else if (result.generated === 0) {
+        completeTask(taskId, { message: result.message });
+        showMessage('info', result.message);
+      } else {
+        completeTask(taskId, { message: result.message, completed: result.generated });
+        showMessage('success', result.message);
+      }
+    } catch (error) {
+      console.error('批量配音失败:', error);
+      errorTask(taskId, error instanceof Error ? error.message : '批量配音失败');
+      showMessage('error', error instanceof Error ? error.message : '批量配音失败');
+    } finally {
+      setIsBatchGenerating(false);
+      setBatchProgress(null);
+    }
+  };
+
   // 计算总时长
   const totalDuration = shots.reduce((sum, s) => sum + s.duration, 0);
 
@@ -611,7 +997,7 @@ export default function ProjectStoryboardPage() {
       {isBatchGenerating && batchProgress && (
         <div className="fixed top-16 left-1/2 -translate-x-1/2 z-50 bg-bg-secondary border-2 border-black shadow-pixel px-6 py-4 min-w-[300px]">
           <div className="text-sm font-pixel text-text-primary mb-2">
-            批量生成分镜参考图
+            {batchTitle}
           </div>
           <PixelProgress
             value={(batchProgress.completed + batchProgress.errors) / batchProgress.total * 100}
@@ -645,6 +1031,26 @@ export default function ProjectStoryboardPage() {
             >
               一键生成
             </PixelButton>
+            <PixelButton
+              variant="ghost"
+              size="sm"
+              leftIcon={<IconVolume size={14} />}
+              onClick={handleGenerateAllVoices}
+              loading={isBatchGenerating}
+              disabled={shots.length === 0}
+              title="为所有有台词且未设置音频的分镜生成配音（最多3个并行）"
+            >
+              一键配音
+            </PixelButton>
+            <PixelButton
+              variant="ghost"
+              size="sm"
+              leftIcon={<IconEdit size={14} />}
+              onClick={openTemplateModal}
+              title="编辑分镜、场景和角色生成使用的提示词模板"
+            >
+              提示词模板
+            </PixelButton>
             <PixelButton
               variant="ghost"
               size="sm"
@@ -743,6 +1149,52 @@ export default function ProjectStoryboardPage() {
                   提示：需要先生成图像才能生成视频
                 </p>
               )}
+
+              {/* 历史版本 */}
+              {takes.length > 1 && (
+                <div className="w-full max-w-2xl mt-4">
+                  <h4 className="text-xs font-pixel text-text-secondary mb-2">历史版本（点击对比）</h4>
+                  {imageTakes.length > 1 && (
+                    <div className="flex gap-2 overflow-x-auto pb-2">
+                      {imageTakes.map((take, i) => (
+                        <div
+                          key={take.id}
+                          onClick={() => setCompareTake(take)}
+                          title={`${take.model || '未知模型'} · ${new Date(take.createdAt).toLocaleString()}${formatTakeReferences(take)}`}
+                          className={cn(
+                            'w-24 flex-shrink-0 aspect-video bg-bg-tertiary border-2 border-black cursor-pointer overflow-hidden hover:opacity-80 transition-opacity relative',
+                            selectedShot.imagePath === take.path && 'ring-2 ring-primary-main'
+                          )}
+                        >
+                          <img
+                            src={getLocalFileUrl(take.path) || ''}
+                            alt={`版本 ${imageTakes.length - i}`}
+                            className="w-full h-full object-cover"
+                          />
+                          <span className="absolute bottom-0 left-0 right-0 bg-black/60 text-white text-[10px] text-center py-0.5">
+                            v{imageTakes.length - i}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {videoTakes.length > 1 && (
+                    <div className="flex gap-2 flex-wrap mt-2">
+                      {videoTakes.map((take, i) => (
+                        <PixelButton
+                          key={take.id}
+                          variant={selectedShot.videoPath === take.path ? 'primary' : 'ghost'}
+                          size="sm"
+                          leftIcon={<IconVideo size={12} />}
+                          onClick={() => setCompareTake(take)}
+                        >
+                          视频 v{videoTakes.length - i}
+                        </PixelButton>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </>
           ) : (
             <div className="text-center">
@@ -867,6 +1319,41 @@ export default function ProjectStoryboardPage() {
                 </div>
               </div>
 
+              {editForm.characterIds.length > 0 && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-pixel text-text-secondary mb-1">说话角色</label>
+                    <select
+                      value={editForm.speakerId}
+                      onChange={(e) => setEditForm({ ...editForm, speakerId: e.target.value })}
+                      className="w-full px-2 py-1.5 bg-bg-tertiary border-2 border-black text-sm focus:outline-none focus:border-primary-main"
+                    >
+                      <option value="">无（旁白）</option>
+                      {characters
+                        .filter((char) => editForm.characterIds.includes(char.id))
+                        .map((char) => (
+                          <option key={char.id} value={char.id}>{char.name}</option>
+                        ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-pixel text-text-secondary mb-1">对话对象</label>
+                    <select
+                      value={editForm.targetCharacterId}
+                      onChange={(e) => setEditForm({ ...editForm, targetCharacterId: e.target.value })}
+                      className="w-full px-2 py-1.5 bg-bg-tertiary border-2 border-black text-sm focus:outline-none focus:border-primary-main"
+                    >
+                      <option value="">无</option>
+                      {characters
+                        .filter((char) => editForm.characterIds.includes(char.id) && char.id !== editForm.speakerId)
+                        .map((char) => (
+                          <option key={char.id} value={char.id}>{char.name}</option>
+                        ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+
               <PixelTextarea
                 label="对话/旁白"
                 value={editForm.dialogue}
@@ -875,6 +1362,21 @@ export default function ProjectStoryboardPage() {
                 placeholder="输入对话或旁白..."
               />
 
+              <div className="grid grid-cols-2 gap-2">
+                <PixelInput
+                  label="语气"
+                  value={editForm.tone}
+                  onChange={(e) => setEditForm({ ...editForm, tone: e.target.value })}
+                  placeholder="如：温柔、调侃"
+                />
+                <PixelInput
+                  label="情绪"
+                  value={editForm.emotion}
+                  onChange={(e) => setEditForm({ ...editForm, emotion: e.target.value })}
+                  placeholder="如：紧张、开心"
+                />
+              </div>
+
               <div className="grid grid-cols-2 gap-2">
                 <div>
                   <label className="block text-xs font-pixel text-text-secondary mb-1">镜头类型</label>
@@ -915,6 +1417,85 @@ export default function ProjectStoryboardPage() {
                 max={30}
               />
 
+              <PixelTextarea
+                label="负面提示词"
+                value={editForm.negativePrompt}
+                onChange={(e) => setEditForm({ ...editForm, negativePrompt: e.target.value })}
+                size="sm"
+                rows={2}
+                placeholder="留空使用项目设置"
+              />
+
+              <div>
+                <div className="flex items-center justify-between mb-1.5">
+                  <label className="text-sm font-medium text-text-primary">分镜音频</label>
+                  <div className="flex gap-1">
+                    <PixelButton
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<IconVolume size={12} />}
+                      onClick={handleGenerateVoice}
+                      loading={isGeneratingVoice}
+                      disabled={!selectedShot.dialogue?.trim()}
+                      title={selectedShot.dialogue?.trim() ? '根据台词、语气和情绪生成配音' : '分镜没有台词'}
+                    >
+                      配音
+                    </PixelButton>
+                    <PixelButton variant="ghost" size="sm" onClick={handleSelectAudio}>
+                      {selectedShot.audioPath ? '更换' : '选择'}
+                    </PixelButton>
+                    {selectedShot.audioPath && (
+                      <PixelButton variant="ghost" size="sm" leftIcon={<IconTrash size={12} />} onClick={handleRemoveAudio}>
+                        移除
+                      </PixelButton>
+                    )}
+                  </div>
+                </div>
+                {selectedShot.audioPath ? (
+                  <audio src={getLocalFileUrl(selectedShot.audioPath) || ''} controls className="w-full h-8" />
+                ) : (
+                  <p className="text-xs text-text-muted">未设置，导出时仅保留视频原声</p>
+                )}
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-1.5">
+                  <label className="text-sm font-medium text-text-primary">提示词覆盖</label>
+                  <select
+                    value={editForm.promptOverrideMode}
+                    onChange={(e) => setEditForm({ ...editForm, promptOverrideMode: e.target.value as 'replace' | 'append' })}
+                    className="px-2 py-1 bg-bg-tertiary border-2 border-black text-xs focus:outline-none focus:border-primary-main"
+                  >
+                    <option value="append">追加到组装的提示词</option>
+                    <option value="replace">替换组装的提示词</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <PixelTextarea
+                    value={editForm.imagePromptOverride}
+                    onChange={(e) => setEditForm({ ...editForm, imagePromptOverride: e.target.value })}
+                    size="sm"
+                    rows={2}
+                    placeholder="图像提示词（留空使用模板组装的提示词）"
+                  />
+                  <PixelTextarea
+                    value={editForm.videoPromptOverride}
+                    onChange={(e) => setEditForm({ ...editForm, videoPromptOverride: e.target.value })}
+                    size="sm"
+                    rows={2}
+                    placeholder="视频提示词（留空使用模板组装的提示词）"
+                  />
+                </div>
+                <div className="flex gap-2 mt-2">
+                  <PixelButton variant="ghost" size="sm" onClick={() => openPromptPreview('image')}>
+                    预览图像提示词
+                  </PixelButton>
+                  <PixelButton variant="ghost" size="sm" onClick={() => openPromptPreview('video')}>
+                    预览视频提示词
+                  </PixelButton>
+                </div>
+              </div>
+
               <div className="flex gap-2 pt-2">
                 <PixelButton
                   variant="ghost"
@@ -1077,6 +1658,238 @@ export default function ProjectStoryboardPage() {
           </div>
         </div>
       </PixelModal>
+
+      {/* 最终提示词预览模态框 */}
+      <PixelModal
+        isOpen={!!promptPreviewKind}
+        onClose={() => setPromptPreviewKind(null)}
+        title={promptPreviewKind === 'video' ? '视频提示词预览' : '图像提示词预览'}
+        size="lg"
+        footer={
+          <PixelButton variant="ghost" onClick={() => setPromptPreviewKind(null)}>
+            关闭
+          </PixelButton>
+        }
+      >
+        {isLoadingPromptPreview || !promptPreview ? (
+          <div className="py-8 flex justify-center">
+            <PixelLoading />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-xs text-text-muted">
+              服务商: {promptPreview.provider}（预览基于已保存的分镜内容，修改后请先保存）
+            </p>
+            <div>
+              <label className="block text-xs font-pixel text-text-secondary mb-2">提示词</label>
+              <div className="max-h-64 overflow-y-auto bg-bg-tertiary border-2 border-black p-2 text-xs whitespace-pre-wrap">
+                {promptPreview.prompt}
+              </div>
+            </div>
+            {promptPreview.negativePrompt && (
+              <div>
+                <label className="block text-xs font-pixel text-text-secondary mb-2">负面提示词</label>
+                <div className="bg-bg-tertiary border-2 border-black p-2 text-xs whitespace-pre-wrap">
+                  {promptPreview.negativePrompt}
+                </div>
+              </div>
+            )}
+            <div>
+              <label className="block text-xs font-pixel text-text-secondary mb-2">
+                参考图（{promptPreview.references.length + (promptPreview.sourceImage ? 1 : 0)}）
+              </label>
+              {promptPreview.references.length === 0 && !promptPreview.sourceImage ? (
+                <p className="text-xs text-text-muted">不使用参考图</p>
+              ) : (
+                <div className="grid grid-cols-4 gap-2">
+                  {[
+                    ...(promptPreview.sourceImage ? [{ label: '首帧图', imagePath: promptPreview.sourceImage }] : []),
+                    ...promptPreview.references.map((ref) => ({
+                      label: ref.role === 'scene' ? `场景·${ref.name}` : `${ref.name}·${referenceViewLabels[ref.view || ''] || '头像'}`,
+                      imagePath: ref.imagePath,
+                    })),
+                  ].map(({ label, imagePath }) => (
+                    <div key={`${label}-${imagePath}`}>
+                      <div className="aspect-square bg-bg-tertiary border-2 border-black overflow-hidden">
+                        <img src={getLocalFileUrl(imagePath) || ''} alt={label} className="w-full h-full object-cover" />
+                      </div>
+                      <p className="text-[10px] text-text-muted mt-1 truncate" title={label}>{label}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </PixelModal>
+
+      {/* 提示词模板模态框 */}
+      <PixelModal
+        isOpen={isTemplateModalOpen}
+        onClose={() => !isSavingTemplate && setIsTemplateModalOpen(false)}
+        title="提示词模板"
+        size="xl"
+        footer={
+          <>
+            <PixelButton
+              variant="ghost"
+              onClick={handleResetTemplate}
+              disabled={isSavingTemplate || currentTemplate?.source !== templateScope}
+            >
+              重置
+            </PixelButton>
+            <PixelButton variant="ghost" onClick={() => setIsTemplateModalOpen(false)} disabled={isSavingTemplate}>
+              关闭
+            </PixelButton>
+            <PixelButton
+              variant="primary"
+              onClick={handleSaveTemplate}
+              loading={isSavingTemplate}
+              disabled={!templateContent.trim()}
+              leftIcon={<IconSave size={14} />}
+            >
+              {templateScope === 'project' ? '保存到项目' : '保存为全局模板'}
+            </PixelButton>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-pixel text-text-secondary mb-2">模板</label>
+              <select
+                value={templateKey}
+                onChange={(e) => handleTemplateKeyChange(e.target.value)}
+                className="w-full px-2 py-1.5 bg-bg-tertiary border-2 border-black text-sm focus:outline-none focus:border-primary-main"
+              >
+                {templates.map((t) => (
+                  <option key={t.key} value={t.key}>{t.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-pixel text-text-secondary mb-2">作用范围</label>
+              <select
+                value={templateScope}
+                onChange={(e) => handleTemplateScopeChange(e.target.value as 'project' | 'global')}
+                className="w-full px-2 py-1.5 bg-bg-tertiary border-2 border-black text-sm focus:outline-none focus:border-primary-main"
+              >
+                <option value="project">当前项目</option>
+                <option value="global">全局（所有项目）</option>
+              </select>
+            </div>
+          </div>
+
+          {currentTemplate && (
+            <div className="flex items-center gap-2 text-xs text-text-muted">
+              <PixelBadge size="sm" variant={currentTemplate.source === 'default' ? 'default' : 'primary'}>
+                {templateSourceLabels[currentTemplate.source]}
+              </PixelBadge>
+              <span>{currentTemplate.description}</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <PixelTextarea
+                label="模板内容"
+                value={templateContent}
+                onChange={(e) => setTemplateContent(e.target.value)}
+                rows={14}
+                className="font-mono text-xs"
+              />
+              {currentTemplate && templateContent !== currentTemplate.defaultContent && (
+                <button
+                  className="text-xs text-primary-main hover:underline"
+                  onClick={() => setTemplateContent(currentTemplate.defaultContent)}
+                >
+                  填入内置默认模板
+                </button>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs font-pixel text-text-secondary mb-2">
+                最终提示词预览（已应用风格{selectedShot ? `，使用分镜 #${selectedShot.index}` : ''}）
+              </label>
+              <div className="h-[300px] overflow-y-auto bg-bg-tertiary border-2 border-black p-2 text-xs whitespace-pre-wrap">
+                {templatePreview?.error ? (
+                  <span className="text-status-error">{templatePreview.error}</span>
+                ) : (
+                  templatePreview?.prompt || <span className="text-text-muted">输入模板内容后显示预览</span>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {currentTemplate && (
+            <div className="text-xs text-text-muted bg-bg-tertiary p-2 border border-border">
+              <p className="mb-1 font-bold">可用变量（{'{{#变量}}...{{/变量}}'} 仅在变量非空时输出，{'{{^变量}}...{{/变量}}'} 仅在为空时输出）：</p>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+                {currentTemplate.variables.map((v) => (
+                  <p key={v.name}>
+                    <code className="text-primary-main">{`{{${v.name}}}`}</code> {v.description}
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </PixelModal>
+
+      {/* 版本对比模态框 */}
+      <PixelModal
+        isOpen={!!compareTake}
+        onClose={() => !isRestoringTake && setCompareTake(null)}
+        title="版本对比"
+        size="lg"
+        footer={
+          <>
+            <PixelButton variant="ghost" onClick={() => setCompareTake(null)} disabled={isRestoringTake}>
+              关闭
+            </PixelButton>
+            <PixelButton
+              variant="primary"
+              onClick={() => compareTake && handleRestoreTake(compareTake)}
+              loading={isRestoringTake}
+              disabled={!compareTake || compareTake.path === (compareTake.kind === 'image' ? selectedShot?.imagePath : selectedShot?.videoPath)}
+              leftIcon={<IconRefresh size={14} />}
+            >
+              恢复此版本
+            </PixelButton>
+          </>
+        }
+      >
+        {compareTake && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {[
+                { label: '当前版本', path: compareTake.kind === 'image' ? selectedShot?.imagePath : selectedShot?.videoPath },
+                { label: `历史版本 · ${new Date(compareTake.createdAt).toLocaleString()}`, path: compareTake.path },
+              ].map(({ label, path }) => (
+                <div key={label}>
+                  <label className="block text-xs font-pixel text-text-secondary mb-2">{label}</label>
+                  <div className="aspect-video bg-bg-tertiary border-2 border-black flex items-center justify-center overflow-hidden">
+                    {!path ? (
+                      <IconImage size={32} className="text-text-muted" />
+                    ) : compareTake.kind === 'image' ? (
+                      <img src={getLocalFileUrl(path) || ''} alt={label} className="w-full h-full object-contain" />
+                    ) : (
+                      <video src={getLocalFileUrl(path) || ''} controls className="w-full h-full" />
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="text-xs text-text-muted bg-bg-tertiary p-2 border border-border space-y-1">
+              <p>模型: {compareTake.model || '未知'}</p>
+              {compareTake.prompt && (
+                <p className="whitespace-pre-wrap max-h-32 overflow-y-auto">提示词: {compareTake.prompt}</p>
+              )}
+            </div>
+          </div>
+        )}
+      </PixelModal>
     </div>
   );
 }
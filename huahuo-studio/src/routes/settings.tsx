@@ -8,7 +8,22 @@ import { PixelSelect } from '@/components/ui/pixel-select';
 import { IconSave, IconRefresh, IconCheck, IconWarning, IconDownload, IconUpload, IconDatabase, IconFolder } from '@/components/ui/pixel-icons';
 import { cn } from '@/lib/utils';
 
-type ProviderType = 'apiyi' | 'aliyun' | 'official' | 'custom';
+type ProviderType = 'apiyi' | 'aliyun' | 'official' | 'custom' | 'local';
+
+interface RenderRateLimit {
+  concurrency: number;
+  rpm: number;
+}
+
+type RenderRateLimits = Record<ProviderType, Record<'image' | 'video', RenderRateLimit>>;
+
+const defaultRenderRateLimits: RenderRateLimits = {
+  apiyi: { image: { concurrency: 5, rpm: 0 }, video: { concurrency: 3, rpm: 0 } },
+  aliyun: { image: { concurrency: 5, rpm: 0 }, video: { concurrency: 2, rpm: 0 } },
+  official: { image: { concurrency: 5, rpm: 0 }, video: { concurrency: 2, rpm: 0 } },
+  custom: { image: { concurrency: 5, rpm: 0 }, video: { concurrency: 2, rpm: 0 } },
+  local: { image: { concurrency: 1, rpm: 0 }, video: { concurrency: 1, rpm: 0 } },
+};
 
 interface AppSettings {
   // LLM 服务商配置
@@ -19,6 +34,8 @@ interface AppSettings {
   llmOfficialClaudeKey: string;
   llmCustomBaseUrl: string;
   llmCustomApiKey: string;
+  llmLocalBaseUrl: string;
+  llmLocalContextLength: number;
   defaultTextModel: string;
 
   // 图像服务商配置
@@ -28,6 +45,11 @@ interface AppSettings {
   imageOfficialGeminiKey: string;
   imageCustomBaseUrl: string;
   imageCustomApiKey: string;
+  imageLocalBaseUrl: string;
+  imageLocalSampler: string;
+  imageLocalSteps: number;
+  imageLocalCfgScale: number;
+  imageLocalSeed: number;
   defaultImageModel: string;
   defaultImageEditModel: string;
   defaultImageSize: string;
@@ -42,6 +64,20 @@ interface AppSettings {
   defaultVideoModel: string;
   defaultVideoDuration: number;
 
+  // 语音服务商配置
+  ttsProvider: ProviderType;
+  ttsApiyiApiKey: string;
+  ttsAliyunApiKey: string;
+  ttsCustomBaseUrl: string;
+  ttsCustomApiKey: string;
+  ttsLocalBaseUrl: string;
+  defaultTtsModel: string;
+  defaultTtsVoice: string;
+  defaultTtsSpeed: number;
+
+  // 渲染队列配置（JSON格式）
+  renderRateLimits: string;
+
   // 存储
   storagePath: string;
 }
@@ -66,6 +102,8 @@ const defaultSettings: AppSettings = {
   llmOfficialClaudeKey: '',
   llmCustomBaseUrl: '',
   llmCustomApiKey: '',
+  llmLocalBaseUrl: 'http://127.0.0.1:11434',
+  llmLocalContextLength: 8192,
   defaultTextModel: 'gemini-2.0-flash',
 
   imageProvider: 'apiyi',
@@ -74,6 +112,11 @@ const defaultSettings: AppSettings = {
   imageOfficialGeminiKey: '',
   imageCustomBaseUrl: '',
   imageCustomApiKey: '',
+  imageLocalBaseUrl: 'http://127.0.0.1:7860',
+  imageLocalSampler: 'Euler a',
+  imageLocalSteps: 25,
+  imageLocalCfgScale: 7,
+  imageLocalSeed: -1,
   defaultImageModel: 'gemini-3-pro-image-preview',
   defaultImageEditModel: 'gemini-3-pro-image-preview',
   defaultImageSize: '2K',
@@ -87,6 +130,18 @@ const defaultSettings: AppSettings = {
   defaultVideoModel: 'sora_video2',
   defaultVideoDuration: 5,
 
+  ttsProvider: 'apiyi',
+  ttsApiyiApiKey: '',
+  ttsAliyunApiKey: '',
+  ttsCustomBaseUrl: '',
+  ttsCustomApiKey: '',
+  ttsLocalBaseUrl: 'http://127.0.0.1:8880',
+  defaultTtsModel: '',
+  defaultTtsVoice: '',
+  defaultTtsSpeed: 1,
+
+  renderRateLimits: JSON.stringify(defaultRenderRateLimits),
+
   storagePath: '',
 };
 
@@ -170,6 +225,7 @@ const llmProviders = [
   { id: 'aliyun' as const, name: '阿里云', description: '通义千问系列', color: 'bg-accent-orange/20' },
   { id: 'official' as const, name: '官方直连', description: 'Gemini/Claude', color: 'bg-primary-main/20' },
   { id: 'custom' as const, name: '自定义', description: 'OpenAI 兼容', color: 'bg-accent-purple/20' },
+  { id: 'local' as const, name: '本地 Ollama', description: '数据不出本机', color: 'bg-accent-blue/20' },
 ];
 
 // 图像服务商列表
@@ -178,8 +234,27 @@ const imageProviders = [
   { id: 'aliyun' as const, name: '阿里云', description: '通义万相', color: 'bg-accent-orange/20' },
   { id: 'official' as const, name: '官方直连', description: 'Gemini Image', color: 'bg-primary-main/20' },
   { id: 'custom' as const, name: '自定义', description: 'DALL-E 兼容', color: 'bg-accent-purple/20' },
+  { id: 'local' as const, name: '本地 SD', description: 'SD WebUI API', color: 'bg-accent-blue/20' },
 ];
 
+/** 解析限流配置，缺失项使用默认值 */
+function parseRenderRateLimits(value: string): RenderRateLimits {
+  let saved: Partial<RenderRateLimits> = {};
+  try {
+    saved = JSON.parse(value || '{}');
+  } catch {
+    // 使用默认值
+  }
+  const result = {} as RenderRateLimits;
+  for (const provider of Object.keys(defaultRenderRateLimits) as ProviderType[]) {
+    result[provider] = {
+      image: { ...defaultRenderRateLimits[provider].image, ...saved[provider]?.image },
+      video: { ...defaultRenderRateLimits[provider].video, ...saved[provider]?.video },
+    };
+  }
+  return result;
+}
+
 // 视频服务商列表
 const videoProviders = [
   { id: 'apiyi' as const, name: 'API易', description: 'Sora/VEO', color: 'bg-secondary-main/20' },
@@ -187,6 +262,14 @@ const videoProviders = [
   { id: 'custom' as const, name: '自定义', description: '通用 API', color: 'bg-accent-purple/20' },
 ];
 
+// 语音服务商列表
+const ttsProviders = [
+  { id: 'apiyi' as const, name: 'API易', description: 'OpenAI TTS', color: 'bg-secondary-main/20' },
+  { id: 'aliyun' as const, name: '阿里云', description: 'CosyVoice', color: 'bg-accent-orange/20' },
+  { id: 'custom' as const, name: '自定义', description: 'OpenAI 兼容', color: 'bg-accent-purple/20' },
+  { id: 'local' as const, name: '本地语音', description: 'Kokoro 等', color: 'bg-accent-blue/20' },
+];
+
 export default function SettingsPage() {
   const [settings, setSettings] = useState<AppSettings>(defaultSettings);
   const [isLoading, setIsLoading] = useState(true);
@@ -194,6 +277,7 @@ export default function SettingsPage() {
   const [testingLlm, setTestingLlm] = useState(false);
   const [testingImage, setTestingImage] = useState(false);
   const [testingVideo, setTestingVideo] = useState(false);
+  const [testingTts, setTestingTts] = useState(false);
   const [llmStatus, setLlmStatus] = useState<{ connected: boolean; message: string }>({
     connected: false,
     message: '未测试',
@@ -206,6 +290,10 @@ export default function SettingsPage() {
     connected: false,
     message: '未测试',
   });
+  const [ttsStatus, setTtsStatus] = useState<{ connected: boolean; message: string }>({
+    connected: false,
+    message: '未测试',
+  });
   const [dbInfo, setDbInfo] = useState<{ path: string; size: number } | null>(null);
   const [backupStatus, setBackupStatus] = useState<string>('');
   const [importStatus, setImportStatus] = useState<string>('');
@@ -214,6 +302,7 @@ export default function SettingsPage() {
   const [fetchingLlmModels, setFetchingLlmModels] = useState(false);
   const [fetchingImageModels, setFetchingImageModels] = useState(false);
   const [fetchingVideoModels, setFetchingVideoModels] = useState(false);
+  const [fetchingTtsVoices, setFetchingTtsVoices] = useState(false);
 
   // 模型搜索
   const [textModelSearch, setTextModelSearch] = useState('');
@@ -224,6 +313,7 @@ export default function SettingsPage() {
   const [textModels, setTextModels] = useState<ModelOption[]>([]);
   const [imageModels, setImageModels] = useState<ModelOption[]>([]);
   const [videoModels, setVideoModels] = useState<ModelOption[]>([]);
+  const [ttsVoices, setTtsVoices] = useState<Array<{ id: string; name: string; description?: string }>>([]);
   const [aspectRatios, setAspectRatios] = useState<SelectOption[]>([]);
   const [imageSizes, setImageSizes] = useState<SelectOption[]>([]);
 
@@ -273,6 +363,24 @@ export default function SettingsPage() {
     loadSettings();
   }, []);
 
+  // 更新渲染限流配置
+  const renderRateLimits = parseRenderRateLimits(settings.renderRateLimits);
+  const handleRateLimitChange = (
+    provider: ProviderType,
+    type: 'image' | 'video',
+    field: keyof RenderRateLimit,
+    value: number
+  ) => {
+    const next = {
+      ...renderRateLimits,
+      [provider]: {
+        ...renderRateLimits[provider],
+        [type]: { ...renderRateLimits[provider][type], [field]: value },
+      },
+    };
+    setSettings({ ...settings, renderRateLimits: JSON.stringify(next) });
+  };
+
   // 保存设置
   const handleSave = async () => {
     setIsSaving(true);
@@ -348,6 +456,26 @@ export default function SettingsPage() {
     }
   };
 
+  // 测试语音连接
+  const handleTestTts = async () => {
+    setTestingTts(true);
+    try {
+      await window.electron.invoke('settings:update', settings);
+      const result = await window.electron.invoke('settings:test-tts-connection');
+      setTtsStatus({
+        connected: result.success,
+        message: result.message,
+      });
+    } catch (error) {
+      setTtsStatus({
+        connected: false,
+        message: error instanceof Error ? error.message : '测试失败',
+      });
+    } finally {
+      setTestingTts(false);
+    }
+  };
+
   // 动态获取 LLM 模型列表
   const handleFetchLlmModels = async () => {
     setFetchingLlmModels(true);
@@ -417,6 +545,29 @@ export default function SettingsPage() {
     }
   };
 
+  // 获取当前语音服务商的音色列表
+  const handleFetchTtsVoices = async () => {
+    setFetchingTtsVoices(true);
+    try {
+      // 先保存当前配置
+      await window.electron.invoke('settings:update', settings);
+      const result = await window.electron.invoke('settings:fetch-tts-voices');
+      if (result.success) {
+        setTtsVoices(result.voices);
+        setTtsStatus({ connected: true, message: result.message });
+      } else {
+        setTtsStatus({ connected: false, message: result.message });
+      }
+    } catch (error) {
+      setTtsStatus({
+        connected: false,
+        message: error instanceof Error ? error.message : '获取音色失败',
+      });
+    } finally {
+      setFetchingTtsVoices(false);
+    }
+  };
+
   // 备份数据库
   const handleBackup = async () => {
     setBackupStatus('备份中...');
@@ -558,7 +709,7 @@ export default function SettingsPage() {
                 type="password"
                 value={settings.llmOfficialClaudeKey}
                 onChange={(e) => setSettings({ ...settings, llmOfficialClaudeKey: e.target.value })}
-                helperText="从 Anthropic Console 获取"
+                helperText="从 Anthropic Console 获取，选择 Claude 模型时使用"
               />
             </div>
           )}
@@ -582,6 +733,29 @@ export default function SettingsPage() {
             </div>
           )}
 
+          {settings.llmProvider === 'local' && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">
+                <PixelInput
+                  label="Ollama 服务地址"
+                  placeholder="http://127.0.0.1:11434"
+                  value={settings.llmLocalBaseUrl}
+                  onChange={(e) => setSettings({ ...settings, llmLocalBaseUrl: e.target.value })}
+                  helperText="模型需先通过 ollama pull 下载，剧本解析使用 JSON 输出模式"
+                />
+              </div>
+              <PixelInput
+                label="上下文长度"
+                type="number"
+                min={2048}
+                step={1024}
+                value={String(settings.llmLocalContextLength)}
+                onChange={(e) => setSettings({ ...settings, llmLocalContextLength: Math.max(2048, parseInt(e.target.value) || 8192) })}
+                helperText="长剧本按此长度自动分批解析"
+              />
+            </div>
+          )}
+
           <div className="mt-4">
             <div className="flex items-center justify-between mb-2">
               <label className="text-sm text-text-secondary">文本模型</label>
@@ -695,6 +869,52 @@ export default function SettingsPage() {
             </div>
           )}
 
+          {settings.imageProvider === 'local' && (
+            <div className="space-y-4">
+              <PixelInput
+                label="Stable Diffusion WebUI 地址"
+                placeholder="http://127.0.0.1:7860"
+                value={settings.imageLocalBaseUrl}
+                onChange={(e) => setSettings({ ...settings, imageLocalBaseUrl: e.target.value })}
+                helperText="Automatic1111 WebUI 需使用 --api 参数启动；负面提示词取自项目风格"
+              />
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <PixelInput
+                  label="采样器"
+                  placeholder="Euler a"
+                  value={settings.imageLocalSampler}
+                  onChange={(e) => setSettings({ ...settings, imageLocalSampler: e.target.value })}
+                  helperText="与 WebUI 中的名称一致"
+                />
+                <PixelInput
+                  label="采样步数"
+                  type="number"
+                  min={1}
+                  value={String(settings.imageLocalSteps)}
+                  onChange={(e) => setSettings({ ...settings, imageLocalSteps: Math.max(1, parseInt(e.target.value) || 1) })}
+                />
+                <PixelInput
+                  label="CFG Scale"
+                  type="number"
+                  min={1}
+                  step={0.5}
+                  value={String(settings.imageLocalCfgScale)}
+                  onChange={(e) => setSettings({ ...settings, imageLocalCfgScale: parseFloat(e.target.value) || 7 })}
+                />
+                <PixelInput
+                  label="种子"
+                  type="number"
+                  value={String(settings.imageLocalSeed)}
+                  onChange={(e) => {
+                    const seed = parseInt(e.target.value);
+                    setSettings({ ...settings, imageLocalSeed: Number.isNaN(seed) ? -1 : seed });
+                  }}
+                  helperText="-1 表示随机"
+                />
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
             <div>
               <div className="flex items-center justify-between mb-2">
@@ -890,6 +1110,181 @@ export default function SettingsPage() {
           </div>
         </SettingsSection>
 
+        {/* 语音服务商配置 */}
+        <SettingsSection
+          title="语音合成"
+          description="配置用于分镜台词配音的服务商"
+        >
+          <ProviderSelector
+            value={settings.ttsProvider}
+            onChange={(provider) => {
+              // 不同服务商的模型和音色不通用，切换时恢复为服务商默认值
+              setSettings({ ...settings, ttsProvider: provider, defaultTtsModel: '', defaultTtsVoice: '' });
+              setTtsVoices([]);
+            }}
+            providers={ttsProviders}
+          />
+
+          {settings.ttsProvider === 'apiyi' && (
+            <PixelInput
+              label="API易 API Key"
+              placeholder="sk-..."
+              type="password"
+              value={settings.ttsApiyiApiKey}
+              onChange={(e) => setSettings({ ...settings, ttsApiyiApiKey: e.target.value })}
+              helperText="从 apiyi.com 控制台获取"
+            />
+          )}
+
+          {settings.ttsProvider === 'aliyun' && (
+            <PixelInput
+              label="阿里云 API Key"
+              placeholder="sk-..."
+              type="password"
+              value={settings.ttsAliyunApiKey}
+              onChange={(e) => setSettings({ ...settings, ttsAliyunApiKey: e.target.value })}
+              helperText="从阿里云 DashScope 控制台获取"
+            />
+          )}
+
+          {settings.ttsProvider === 'custom' && (
+            <div className="space-y-4">
+              <PixelInput
+                label="API 服务地址"
+                placeholder="https://api.example.com"
+                value={settings.ttsCustomBaseUrl}
+                onChange={(e) => setSettings({ ...settings, ttsCustomBaseUrl: e.target.value })}
+                helperText="OpenAI 兼容的 /v1/audio/speech 接口地址"
+              />
+              <PixelInput
+                label="API Key"
+                placeholder="sk-..."
+                type="password"
+                value={settings.ttsCustomApiKey}
+                onChange={(e) => setSettings({ ...settings, ttsCustomApiKey: e.target.value })}
+              />
+            </div>
+          )}
+
+          {settings.ttsProvider === 'local' && (
+            <PixelInput
+              label="本地语音服务地址"
+              placeholder="http://127.0.0.1:8880"
+              value={settings.ttsLocalBaseUrl}
+              onChange={(e) => setSettings({ ...settings, ttsLocalBaseUrl: e.target.value })}
+              helperText="OpenAI 兼容的本地语音服务（如 Kokoro-FastAPI），无需 API Key"
+            />
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+            <PixelInput
+              label="语音模型"
+              placeholder="留空使用服务商默认"
+              value={settings.defaultTtsModel}
+              onChange={(e) => setSettings({ ...settings, defaultTtsModel: e.target.value })}
+              helperText={settings.ttsProvider === 'aliyun' ? 'cosyvoice-v2 / qwen-tts' : 'tts-1 / tts-1-hd / gpt-4o-mini-tts'}
+            />
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm text-text-secondary">默认音色</label>
+                <PixelButton
+                  variant="ghost"
+                  size="sm"
+                  leftIcon={<IconRefresh size={12} />}
+                  onClick={handleFetchTtsVoices}
+                  loading={fetchingTtsVoices}
+                >
+                  获取
+                </PixelButton>
+              </div>
+              {ttsVoices.length > 0 ? (
+                <PixelSelect
+                  value={settings.defaultTtsVoice}
+                  onChange={(value) => setSettings({ ...settings, defaultTtsVoice: value })}
+                  options={[
+                    { value: '', label: '服务商默认' },
+                    ...ttsVoices.map(v => ({
+                      value: v.id,
+                      label: v.description ? `${v.name}（${v.description}）` : v.name,
+                    })),
+                  ]}
+                />
+              ) : (
+                <PixelInput
+                  placeholder="留空使用服务商默认"
+                  value={settings.defaultTtsVoice}
+                  onChange={(e) => setSettings({ ...settings, defaultTtsVoice: e.target.value })}
+                />
+              )}
+            </div>
+            <PixelInput
+              label="默认语速"
+              value={String(settings.defaultTtsSpeed)}
+              type="number"
+              step={0.1}
+              onChange={(e) =>
+                setSettings({ ...settings, defaultTtsSpeed: parseFloat(e.target.value) || 1 })
+              }
+              helperText="1 为正常语速"
+            />
+          </div>
+
+          <div className="flex items-center justify-between mt-4 pt-4 border-t border-border">
+            <ApiStatus connected={ttsStatus.connected} message={ttsStatus.message} />
+            <PixelButton
+              variant="ghost"
+              size="sm"
+              leftIcon={<IconRefresh size={14} />}
+              onClick={handleTestTts}
+              loading={testingTts}
+            >
+              测试连接
+            </PixelButton>
+          </div>
+        </SettingsSection>
+
+        {/* 渲染队列限流 */}
+        <SettingsSection
+          title="渲染队列"
+          description="按服务商和任务类型限制同时进行的任务数和每分钟发起的任务数（RPM 为 0 表示不限制）"
+        >
+          <div className="border-2 border-black">
+            <div className="grid grid-cols-5 gap-2 px-3 py-2 bg-bg-tertiary border-b-2 border-black text-xs font-pixel text-text-secondary">
+              <span>服务商</span>
+              <span>图像并发</span>
+              <span>图像 RPM</span>
+              <span>视频并发</span>
+              <span>视频 RPM</span>
+            </div>
+            {imageProviders.map((provider) => (
+              <div key={provider.id} className="grid grid-cols-5 gap-2 px-3 py-2 items-center border-b border-border last:border-b-0">
+                <span className="text-sm text-text-primary">{provider.name}</span>
+                {(['image', 'video'] as const).map((type) => (
+                  (['concurrency', 'rpm'] as const).map((field) => (
+                    <PixelInput
+                      key={`${type}-${field}`}
+                      type="number"
+                      min={field === 'concurrency' ? 1 : 0}
+                      value={String(renderRateLimits[provider.id][type][field])}
+                      onChange={(e) =>
+                        handleRateLimitChange(
+                          provider.id,
+                          type,
+                          field,
+                          Math.max(field === 'concurrency' ? 1 : 0, parseInt(e.target.value) || 0)
+                        )
+                      }
+                    />
+                  ))
+                ))}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-text-muted mt-2">
+            当前使用的服务商：图像 {imageProviders.find(p => p.id === settings.imageProvider)?.name}，视频 {videoProviders.find(p => p.id === settings.videoProvider)?.name}。修改后对新调度的任务生效。
+          </p>
+        </SettingsSection>
+
         {/* 数据管理 */}
         <SettingsSection
           title="数据管理"
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+import { resolve } from 'path';
+
+// 单元测试只覆盖主进程中的纯逻辑，不加载 Electron 插件
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, './src'),
+      '@electron': resolve(__dirname, './electron'),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['electron/**/*.test.ts'],
+  },
+});